@@ -29,6 +29,21 @@ function cleanBuildFiles() {
 
 cleanBuildFiles();
 
+// "module?source" imports are inlined as text (decoder glue code that runs in workers)
+const sourceTextPlugin = {
+	name: "source-text",
+	setup(build) {
+		build.onResolve({ filter: /\?source$/ }, (args) => ({
+			path: require.resolve(args.path.slice(0, -"?source".length), { paths: [args.resolveDir] }),
+			namespace: "source-text"
+		}));
+		build.onLoad({ filter: /.*/, namespace: "source-text" }, (args) => ({
+			contents: fs.readFileSync(args.path, "utf8"),
+			loader: "text"
+		}));
+	}
+};
+
 // Bundle the gltf modules with their npm dependencies
 // ESM format - globalThis attachment is done in index.ts
 esbuild.build({
@@ -39,7 +54,12 @@ esbuild.build({
 	platform: "browser",
 	target: "es2021",
 	minify: false,
-	sourcemap: false
+	sourcemap: false,
+	// Decoder wasm (Draco) is inlined so nothing is fetched at runtime
+	loader: { ".wasm": "binary" },
+	// Only referenced by the Node.js branch of the Draco decoder
+	external: ["fs", "path"],
+	plugins: [sourceTextPlugin]
 }).then(() => {
 	console.log("gltf-bundle.js built successfully");
 }).catch((err) => {
@@ -7,6 +7,11 @@ C3.Plugins.GltfStatic.Acts =
 		this._loadModel(url);
 	},
 
+	SetScene(this: SDKInstanceClass, scene: string | number): void
+	{
+		this._setScene(scene);
+	},
+
 	SetRotation(this: SDKInstanceClass, x: number, y: number, z: number): void
 	{
 		this._setRotation(x, y, z);
@@ -58,6 +63,44 @@ C3.Plugins.GltfStatic.Acts =
 		this._hideAllMeshes();
 	},
 
+	// Morph target actions
+	SetMorphWeight(this: SDKInstanceClass, name: string, weight: number): void
+	{
+		this._setMorphWeight(name, weight);
+	},
+
+	// Node spawning actions
+	SpawnAtNodes(this: SDKInstanceClass, objectClass: IObjectClass<IInstance>, pattern: string, layer: ILayer | LayerParameter, rotation: number, markers: number): void
+	{
+		this._spawnAtNodes(objectClass, pattern, layer, rotation === 1, markers === 1); // rotation: 0 = Z angle, 1 = full; markers: 0 = keep, 1 = hide
+	},
+
+	// Node articulation actions
+	SetNodeTranslation(this: SDKInstanceClass, name: string, x: number, y: number, z: number): void
+	{
+		this._setNodeTranslation(name, x, y, z);
+	},
+
+	SetNodeRotation(this: SDKInstanceClass, name: string, x: number, y: number, z: number): void
+	{
+		this._setNodeRotation(name, x, y, z);
+	},
+
+	SetNodeScale(this: SDKInstanceClass, name: string, x: number, y: number, z: number): void
+	{
+		this._setNodeScale(name, x, y, z);
+	},
+
+	ResetNode(this: SDKInstanceClass, name: string): void
+	{
+		this._resetNode(name);
+	},
+
+	ResetAllNodes(this: SDKInstanceClass): void
+	{
+		this._resetAllNodes();
+	},
+
 	// Animation actions
 	PlayAnimation(this: SDKInstanceClass, name: string): void
 	{
@@ -124,6 +167,167 @@ C3.Plugins.GltfStatic.Acts =
 		this._blendToAnimation(name, duration, startTime);
 	},
 
+	// Animation event actions
+	AddAnimationEvent(this: SDKInstanceClass, clip: string, name: string, time: number): void
+	{
+		this._addAnimationEvent(clip, name, time);
+	},
+
+	RemoveAnimationEvents(this: SDKInstanceClass, clip: string, name: string): void
+	{
+		this._removeAnimationEvents(clip, name);
+	},
+
+	// Animation layer actions
+	PlayLayerAnimation(this: SDKInstanceClass, layer: string | number, name: string): void
+	{
+		this._playLayerAnimation(layer, name);
+	},
+
+	BlendLayerAnimation(this: SDKInstanceClass, layer: string | number, name: string, duration: number): void
+	{
+		this._blendLayerAnimation(layer, name, duration);
+	},
+
+	StopLayer(this: SDKInstanceClass, layer: string | number, fadeDuration: number): void
+	{
+		this._stopLayer(layer, fadeDuration);
+	},
+
+	SetLayerWeight(this: SDKInstanceClass, layer: string | number, weight: number, duration: number): void
+	{
+		this._setLayerWeight(layer, weight, duration);
+	},
+
+	SetLayerSpeed(this: SDKInstanceClass, layer: string | number, speed: number): void
+	{
+		this._setLayerSpeed(layer, speed);
+	},
+
+	SetLayerLoop(this: SDKInstanceClass, layer: string | number, loop: number): void
+	{
+		this._setLayerLoop(layer, loop !== 0);
+	},
+
+	SetLayerMask(this: SDKInstanceClass, layer: string | number, bones: string, mode: number): void
+	{
+		this._setLayerMask(layer, bones, mode === 0);
+	},
+
+	// Additive animation actions
+	PlayAdditiveAnimation(this: SDKInstanceClass, name: string, reference: number, weight: number, loop: number): void
+	{
+		this._playAdditiveAnimation(name, reference, weight, loop !== 0);
+	},
+
+	SetAdditiveWeight(this: SDKInstanceClass, name: string, weight: number, duration: number): void
+	{
+		this._setAdditiveWeight(name, weight, duration);
+	},
+
+	StopAdditiveAnimation(this: SDKInstanceClass, name: string, fadeDuration: number): void
+	{
+		this._stopAdditiveAnimation(name, fadeDuration);
+	},
+
+	// Bone override actions
+	SetBoneRotation(this: SDKInstanceClass, name: string, x: number, y: number, z: number, mode: number, weight: number): void
+	{
+		this._setBoneOverride(name, "rotation", x, y, z, mode === 1, weight); // mode: 0 = override, 1 = additive
+	},
+
+	SetBoneTranslation(this: SDKInstanceClass, name: string, x: number, y: number, z: number, mode: number, weight: number): void
+	{
+		this._setBoneOverride(name, "translation", x, y, z, mode === 1, weight);
+	},
+
+	SetBoneScale(this: SDKInstanceClass, name: string, x: number, y: number, z: number, mode: number, weight: number): void
+	{
+		this._setBoneOverride(name, "scale", x, y, z, mode === 1, weight);
+	},
+
+	ClearBoneOverride(this: SDKInstanceClass, name: string): void
+	{
+		this._clearBoneOverride(name);
+	},
+
+	ClearAllBoneOverrides(this: SDKInstanceClass): void
+	{
+		this._clearAllBoneOverrides();
+	},
+
+	SetLookAt(this: SDKInstanceClass, name: string, x: number, y: number, z: number, chainLength: number, axis: number, maxAngle: number, smoothing: number): void
+	{
+		this._setLookAt(name, x, y, z, chainLength, axis, maxAngle, smoothing);
+	},
+
+	SetLookAtWeight(this: SDKInstanceClass, name: string, weight: number): void
+	{
+		this._setLookAtWeight(name, weight);
+	},
+
+	ClearLookAt(this: SDKInstanceClass, name: string): void
+	{
+		this._clearLookAt(name);
+	},
+
+	// Inverse kinematics actions
+	SetIkChain(this: SDKInstanceClass, name: string, rootBone: string, midBone: string, endBone: string): void
+	{
+		this._setIkChain(name, rootBone, midBone, endBone);
+	},
+
+	RemoveIkChain(this: SDKInstanceClass, name: string): void
+	{
+		this._removeIkChain(name);
+	},
+
+	SetIkTarget(this: SDKInstanceClass, name: string, x: number, y: number, z: number): void
+	{
+		this._setIkTarget(name, x, y, z);
+	},
+
+	SetIkPole(this: SDKInstanceClass, name: string, x: number, y: number, z: number): void
+	{
+		this._setIkPole(name, [x, y, z]);
+	},
+
+	SetIkWeight(this: SDKInstanceClass, name: string, weight: number): void
+	{
+		this._setIkWeight(name, weight);
+	},
+
+	SetIkEnabled(this: SDKInstanceClass, name: string, enabled: number): void
+	{
+		this._setIkEnabled(name, enabled !== 0);
+	},
+
+	SetIkGroundHeight(this: SDKInstanceClass, name: string, height: number): void
+	{
+		this._setIkGroundHeight(name, height);
+	},
+
+	SetGroundingPelvis(this: SDKInstanceClass, name: string): void
+	{
+		this._setGroundingPelvis(name);
+	},
+
+	// Bone attachment actions
+	AttachToBone(this: SDKInstanceClass, objectClass: IObjectClass<IInstance>, name: string, offsetX: number, offsetY: number, offsetZ: number, rotationX: number, rotationY: number, rotationZ: number): void
+	{
+		this._attachPickedToBone(objectClass, name, [offsetX, offsetY, offsetZ], [rotationX, rotationY, rotationZ]);
+	},
+
+	DetachFromBone(this: SDKInstanceClass, objectClass: IObjectClass<IInstance>): void
+	{
+		this._detachPicked(objectClass);
+	},
+
+	DetachAll(this: SDKInstanceClass): void
+	{
+		this._detachAll();
+	},
+
 	// Quaternion rotation actions
 	SetRotationQuaternion(this: SDKInstanceClass, json: string): void
 	{
@@ -196,5 +400,11 @@ C3.Plugins.GltfStatic.Acts =
 	SetTextureAnimSpeed(this: SDKInstanceClass, speed: number): void
 	{
 		this._setTextureAnimSpeed(speed);
+	},
+
+	// Physics actions
+	SetAnimatedBounds(this: SDKInstanceClass, enabled: number): void
+	{
+		this._setAnimatedBounds(enabled !== 0);
 	}
 };
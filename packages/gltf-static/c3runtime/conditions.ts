@@ -22,6 +22,11 @@ C3.Plugins.GltfStatic.Cnds =
 		return this._isUsingWorkers();
 	},
 
+	WasDecompressed(this: SDKInstanceClass): boolean
+	{
+		return this._wasDecompressed();
+	},
+
 	// Mesh visibility conditions
 	IsMeshVisible(this: SDKInstanceClass, name: string): boolean
 	{
@@ -54,17 +59,49 @@ C3.Plugins.GltfStatic.Cnds =
 		return true; // Trigger condition - always returns true when triggered
 	},
 
+	OnAnimationEvent(this: SDKInstanceClass, name: string): boolean
+	{
+		return name === "" || name === this._getAnimationEventName();
+	},
+
 	IsBlending(this: SDKInstanceClass): boolean
 	{
 		return this._isBlending();
 	},
 
+	IsLayerPlaying(this: SDKInstanceClass, layer: string | number): boolean
+	{
+		return this._isLayerPlaying(layer);
+	},
+
 	// Bone attachment conditions
 	HasBone(this: SDKInstanceClass, name: string): boolean
 	{
 		return this._hasBone(name);
 	},
 
+	IsIkEnabled(this: SDKInstanceClass, name: string): boolean
+	{
+		return this._isIkEnabled(name);
+	},
+
+	// Extras conditions
+	NodeHasExtra(this: SDKInstanceClass, name: string, key: string): boolean
+	{
+		return this._nodeHasExtra(name, key);
+	},
+
+	// Raycast conditions
+	RayIntersects(this: SDKInstanceClass, originX: number, originY: number, originZ: number, dirX: number, dirY: number, dirZ: number): boolean
+	{
+		return this._raycast(originX, originY, originZ, dirX, dirY, dirZ);
+	},
+
+	ScreenRayIntersects(this: SDKInstanceClass, x: number, y: number): boolean
+	{
+		return this._raycastFromScreen(x, y);
+	},
+
 	// Built-in model conditions
 	IsBuiltinEnabled(this: SDKInstanceClass): boolean
 	{
@@ -91,5 +128,11 @@ C3.Plugins.GltfStatic.Cnds =
 	OnTextureFrameChanged(this: SDKInstanceClass): boolean
 	{
 		return true; // Trigger condition
+	},
+
+	// Physics conditions
+	IsAnimatedBounds(this: SDKInstanceClass): boolean
+	{
+		return this._animatedBounds;
 	}
 };
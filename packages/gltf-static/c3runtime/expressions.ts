@@ -52,6 +52,21 @@ C3.Plugins.GltfStatic.Exps =
 		return this._getMeshCount();
 	},
 
+	LoadDiagnostics(this: SDKInstanceClass): string
+	{
+		return this._getLoadDiagnostics();
+	},
+
+	SceneCount(this: SDKInstanceClass): number
+	{
+		return this._getSceneCount();
+	},
+
+	SceneNames(this: SDKInstanceClass): string
+	{
+		return this._getSceneNames();
+	},
+
 	MeshNames(this: SDKInstanceClass): string
 	{
 		return this._getMeshNames();
@@ -62,6 +77,17 @@ C3.Plugins.GltfStatic.Exps =
 		return this._getMeshNameAt(index);
 	},
 
+	// Morph target expressions
+	MorphWeight(this: SDKInstanceClass, name: string): number
+	{
+		return this._getMorphWeight(name);
+	},
+
+	MorphTargetNames(this: SDKInstanceClass): string
+	{
+		return this._getMorphTargetNames();
+	},
+
 	// Built-in model expressions
 	BuiltinModelType(this: SDKInstanceClass): string
 	{
@@ -109,6 +135,31 @@ C3.Plugins.GltfStatic.Exps =
 		return this._getBlendProgress();
 	},
 
+	AnimationEventName(this: SDKInstanceClass): string
+	{
+		return this._getAnimationEventName();
+	},
+
+	AnimationEventClip(this: SDKInstanceClass): string
+	{
+		return this._getAnimationEventClip();
+	},
+
+	LayerTime(this: SDKInstanceClass, layer: string | number): number
+	{
+		return this._getLayerTime(layer);
+	},
+
+	LayerWeight(this: SDKInstanceClass, layer: string | number): number
+	{
+		return this._getLayerWeight(layer);
+	},
+
+	LayerAnimation(this: SDKInstanceClass, layer: string | number): string
+	{
+		return this._getLayerAnimation(layer);
+	},
+
 	AnimationNames(this: SDKInstanceClass): string
 	{
 		return this._getAnimationNamesJson();
@@ -186,6 +237,261 @@ C3.Plugins.GltfStatic.Exps =
 		return this._getBoneCount();
 	},
 
+	AttachedBone(this: SDKInstanceClass, uid: number): string
+	{
+		return this._getAttachedBone(uid);
+	},
+
+	AttachmentCount(this: SDKInstanceClass): number
+	{
+		return this._getAttachmentCount();
+	},
+
+	// Node hierarchy expressions
+	NodeCount(this: SDKInstanceClass): number
+	{
+		return this._getNodeCount();
+	},
+
+	NodeNames(this: SDKInstanceClass): string
+	{
+		return this._getNodeNames();
+	},
+
+	NodeParent(this: SDKInstanceClass, name: string): string
+	{
+		return this._getNodeParent(name);
+	},
+
+	NodeChildCount(this: SDKInstanceClass, name: string): number
+	{
+		return this._getNodeChildCount(name);
+	},
+
+	NodeChildAt(this: SDKInstanceClass, name: string, index: number): string
+	{
+		return this._getNodeChildAt(name, index);
+	},
+
+	NodeWorldX(this: SDKInstanceClass, name: string): number
+	{
+		const pos = this._getNodeWorldPosition(name);
+		return pos ? pos[0] : 0;
+	},
+
+	NodeWorldY(this: SDKInstanceClass, name: string): number
+	{
+		const pos = this._getNodeWorldPosition(name);
+		return pos ? pos[1] : 0;
+	},
+
+	NodeWorldZ(this: SDKInstanceClass, name: string): number
+	{
+		const pos = this._getNodeWorldPosition(name);
+		return pos ? pos[2] : 0;
+	},
+
+	NodeWorldRotationX(this: SDKInstanceClass, name: string): number
+	{
+		const rot = this._getNodeWorldRotation(name);
+		return rot ? rot[0] : 0;
+	},
+
+	NodeWorldRotationY(this: SDKInstanceClass, name: string): number
+	{
+		const rot = this._getNodeWorldRotation(name);
+		return rot ? rot[1] : 0;
+	},
+
+	NodeWorldRotationZ(this: SDKInstanceClass, name: string): number
+	{
+		const rot = this._getNodeWorldRotation(name);
+		return rot ? rot[2] : 0;
+	},
+
+	NodeHierarchy(this: SDKInstanceClass): string
+	{
+		return this._getNodeHierarchy();
+	},
+
+	// Node spawning expressions
+	SpawnNodeName(this: SDKInstanceClass, uid: number): string
+	{
+		return this._getSpawnNodeName(uid);
+	},
+
+	SpawnNodeExtra(this: SDKInstanceClass, uid: number, key: string): string | number
+	{
+		return this._getSpawnNodeExtra(uid, key);
+	},
+
+	SpawnNodeExtrasJSON(this: SDKInstanceClass, uid: number): string
+	{
+		return this._getSpawnNodeExtrasJson(uid);
+	},
+
+	LastSpawnCount(this: SDKInstanceClass): number
+	{
+		return this._getLastSpawnCount();
+	},
+
+	// Extras expressions
+	NodeExtra(this: SDKInstanceClass, name: string, key: string): string | number
+	{
+		return this._getNodeExtra(name, key);
+	},
+
+	NodeExtrasJSON(this: SDKInstanceClass, name: string): string
+	{
+		return this._getNodeExtrasJson(name);
+	},
+
+	MeshExtra(this: SDKInstanceClass, name: string, key: string): string | number
+	{
+		return this._getMeshExtra(name, key);
+	},
+
+	MeshExtrasJSON(this: SDKInstanceClass, name: string): string
+	{
+		return this._getMeshExtrasJson(name);
+	},
+
+	MaterialExtra(this: SDKInstanceClass, name: string, key: string): string | number
+	{
+		return this._getMaterialExtra(name, key);
+	},
+
+	MaterialExtrasJSON(this: SDKInstanceClass, name: string): string
+	{
+		return this._getMaterialExtrasJson(name);
+	},
+
+	SceneExtra(this: SDKInstanceClass, key: string): string | number
+	{
+		return this._getSceneExtra(key);
+	},
+
+	SceneExtrasJSON(this: SDKInstanceClass): string
+	{
+		return this._getSceneExtrasJson();
+	},
+
+	AssetExtra(this: SDKInstanceClass, key: string): string | number
+	{
+		return this._getAssetExtra(key);
+	},
+
+	AssetExtrasJSON(this: SDKInstanceClass): string
+	{
+		return this._getAssetExtrasJson();
+	},
+
+	// Raycast expressions
+	RayHitDistance(this: SDKInstanceClass): number
+	{
+		return this._rayHit?.distance ?? 0;
+	},
+
+	RayHitX(this: SDKInstanceClass): number
+	{
+		return this._rayHit?.point[0] ?? 0;
+	},
+
+	RayHitY(this: SDKInstanceClass): number
+	{
+		return this._rayHit?.point[1] ?? 0;
+	},
+
+	RayHitZ(this: SDKInstanceClass): number
+	{
+		return this._rayHit?.point[2] ?? 0;
+	},
+
+	RayHitNormalX(this: SDKInstanceClass): number
+	{
+		return this._rayHit?.normal[0] ?? 0;
+	},
+
+	RayHitNormalY(this: SDKInstanceClass): number
+	{
+		return this._rayHit?.normal[1] ?? 0;
+	},
+
+	RayHitNormalZ(this: SDKInstanceClass): number
+	{
+		return this._rayHit?.normal[2] ?? 0;
+	},
+
+	RayHitMesh(this: SDKInstanceClass): string
+	{
+		return this._rayHit?.meshName ?? "";
+	},
+
+	RayHitNode(this: SDKInstanceClass): string
+	{
+		return this._rayHit?.nodeName ?? "";
+	},
+
+	RayHitTriangle(this: SDKInstanceClass): number
+	{
+		return this._rayHit?.triangleIndex ?? -1;
+	},
+
+	// Node articulation expressions
+	NodeTranslationX(this: SDKInstanceClass, name: string): number
+	{
+		const pos = this._getNodeTranslation(name);
+		return pos ? pos[0] : 0;
+	},
+
+	NodeTranslationY(this: SDKInstanceClass, name: string): number
+	{
+		const pos = this._getNodeTranslation(name);
+		return pos ? pos[1] : 0;
+	},
+
+	NodeTranslationZ(this: SDKInstanceClass, name: string): number
+	{
+		const pos = this._getNodeTranslation(name);
+		return pos ? pos[2] : 0;
+	},
+
+	NodeRotationX(this: SDKInstanceClass, name: string): number
+	{
+		const rot = this._getNodeRotation(name);
+		return rot ? rot[0] : 0;
+	},
+
+	NodeRotationY(this: SDKInstanceClass, name: string): number
+	{
+		const rot = this._getNodeRotation(name);
+		return rot ? rot[1] : 0;
+	},
+
+	NodeRotationZ(this: SDKInstanceClass, name: string): number
+	{
+		const rot = this._getNodeRotation(name);
+		return rot ? rot[2] : 0;
+	},
+
+	NodeScaleX(this: SDKInstanceClass, name: string): number
+	{
+		const scale = this._getNodeScale(name);
+		return scale ? scale[0] : 1;
+	},
+
+	NodeScaleY(this: SDKInstanceClass, name: string): number
+	{
+		const scale = this._getNodeScale(name);
+		return scale ? scale[1] : 1;
+	},
+
+	NodeScaleZ(this: SDKInstanceClass, name: string): number
+	{
+		const scale = this._getNodeScale(name);
+		return scale ? scale[2] : 1;
+	},
+
 	// Quaternion rotation expressions
 	RotationQuaternion(this: SDKInstanceClass): string
 	{
@@ -259,6 +565,21 @@ C3.Plugins.GltfStatic.Exps =
 		return this._getBBoxScale();
 	},
 
+	ColliderJSON(this: SDKInstanceClass, source: string): string
+	{
+		return this._getColliderJson(source);
+	},
+
+	ColliderCount(this: SDKInstanceClass, source: string): number
+	{
+		return this._getColliderCount(source);
+	},
+
+	CollisionNodeCount(this: SDKInstanceClass): number
+	{
+		return this._getCollisionNodeCount();
+	},
+
 	// Texture animation expressions
 	TextureAnimFrame(this: SDKInstanceClass): number
 	{
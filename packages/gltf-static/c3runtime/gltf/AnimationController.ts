@@ -1,12 +1,18 @@
 import { vec3, quat, mat4 } from "gl-matrix";
+import type { Node as GltfNodeDef } from "@gltf-transform/core";
 import type {
 	CachedSkinData,
+	CachedSkeletonData,
 	CachedAnimationData,
 	MeshSkinningData,
+	MeshMorphData,
 	JointTransform,
 	AnimationChannelData,
-	AnimationSamplerData
+	AnimationSamplerData,
+	AnimationTargetPath,
+	AnimationEventData
 } from "./types.js";
+import { applyMorphDeltas, hasActiveMorphWeights } from "./MorphTargets.js";
 
 // Debug logging
 const DEBUG = false;
@@ -20,6 +26,8 @@ function debugWarn(...args: unknown[]): void {
 	if (DEBUG) console.warn(LOG_PREFIX, ...args);
 }
 
+const IDENTITY_QUAT = quat.create();
+
 /** Performance warning threshold for CPU skinning */
 const MAX_CPU_SKINNING_VERTICES = 10000;
 const CPU_WARNING_LOGGED = new WeakSet<AnimationController>();
@@ -32,12 +40,18 @@ export interface AnimationMeshData {
 	originalNormals?: Float32Array | null;
 	/** Per-vertex skinning data (joint indices and weights) */
 	skinningData: MeshSkinningData;
+	/** Morph target deltas, applied before skinning (optional) */
+	morphData?: MeshMorphData | null;
+	/** Live per-instance morph weights, used when no "weights" channel drives this mesh (optional) */
+	morphWeights?: Float32Array | null;
 }
 
 /** Options for AnimationController construction */
 export interface AnimationControllerOptions {
-	/** Skin (skeleton) data */
-	skinData: CachedSkinData;
+	/** All skins in the model (bone matrices are computed per skin) */
+	skins: readonly CachedSkinData[];
+	/** Joints of all skins combined (animation channels and joint queries use these indices) */
+	skeleton: CachedSkeletonData;
 	/** All available animations */
 	animations: CachedAnimationData[];
 	/** Mesh data for skinning */
@@ -50,15 +64,245 @@ interface ActiveChannel {
 	sampler: AnimationSamplerData;
 }
 
+/** Cached channel targeting an animated non-joint node */
+interface ActiveNodeChannel extends ActiveChannel {
+	/** Index into the controller's animated node list */
+	nodeIndex: number;
+}
+
+/** Morph weights evaluated for a node targeted by "weights" channels */
+interface MorphWeightState {
+	/** Weights evaluated this frame (one per morph target) */
+	weights: Float32Array;
+	/** Snapshot for crossfade (allocated lazily) */
+	blendFrom: Float32Array | null;
+	/** True while the current animation has a "weights" channel for this node */
+	active: boolean;
+	/** True if blendFrom holds a valid snapshot for the current crossfade */
+	hasBlendFrom: boolean;
+}
+
+/** Animation layer reference: layer name, or index in creation order */
+export type AnimationLayerRef = string | number;
+
+/** Joints an animation layer affects */
+export interface AnimationLayerMask {
+	/** Include this bone and all of its descendants */
+	rootBone?: string;
+	/** Include exactly these bones */
+	bones?: string[];
+}
+
+/** Maximum number of animation layers (layers are created on first use) */
+const MAX_ANIMATION_LAYERS = 8;
+
+/**
+ * Animation layer: a clip played on top of the base animation, replacing the pose of the masked joints.
+ * Effective weight = weight * fade (fade covers play / blend-in / stop transitions).
+ */
+interface AnimationLayer {
+	/** Layer name ("" for layers created by index) */
+	name: string;
+	animation: CachedAnimationData | null;
+	/** Joint channels of the clip (layers don't drive non-joint nodes or morph weights) */
+	channels: ActiveChannel[];
+	time: number;
+	speed: number;
+	loop: boolean;
+	isPlaying: boolean;
+	/** User weight, moving toward weightTarget at weightRate per second */
+	weight: number;
+	weightTarget: number;
+	weightRate: number;
+	/** Transition weight, moving toward fadeTarget at fadeRate per second; the clip is cleared when it fades out */
+	fade: number;
+	fadeTarget: number;
+	fadeRate: number;
+	/** Per-joint weight (0 or 1), or null for all joints */
+	mask: Float32Array | null;
+	/** Evaluated layer pose (joints without channels keep the pose underneath) */
+	transforms: JointTransform[];
+	/** Crossfade snapshot of the previous clip (blendLayer) */
+	blendFrom: JointTransform[] | null;
+	blendDuration: number;
+	blendElapsed: number;
+}
+
+/** Reference pose an additive clip's keyframes are offsets from */
+export type AdditiveReference = "first-frame" | "bind-pose";
+
+/** Playback options for additive clips */
+export interface AdditiveOptions {
+	/** 0-1 (default 1) */
+	weight?: number;
+	/** Loop (default true); one-shot clips are removed when they finish */
+	loop?: boolean;
+	/** Playback speed (default 1, negative = reverse) */
+	speed?: number;
+	/** Reference pose (default: as marked with setAnimationAdditive, else "first-frame") */
+	reference?: AdditiveReference;
+}
+
+/** Additive clip: keyframe offsets from its reference pose, added on top of the pose underneath */
+interface AdditiveClip {
+	animation: CachedAnimationData;
+	/** Joint channels of the clip */
+	channels: ActiveChannel[];
+	/** Reference TRS per joint (only joints with channels are used) */
+	reference: JointTransform[];
+	time: number;
+	speed: number;
+	loop: boolean;
+	/** Weight, moving toward weightTarget at weightRate per second */
+	weight: number;
+	weightTarget: number;
+	weightRate: number;
+	/** Remove the clip once the weight fades to 0 */
+	stopping: boolean;
+}
+
+// Scratch values for additive clips
+const additiveValue = new Float32Array(4);
+const additiveDelta = quat.create();
+
+/** Move a value toward a target at a rate per second (rate 0 = jump) */
+function approach(current: number, target: number, rate: number, deltaTime: number): number {
+	if (rate <= 0) return target;
+	const step = rate * deltaTime;
+	return current < target ? Math.min(current + step, target) : Math.max(current - step, target);
+}
+
+/** Local TRS property a bone override replaces or adds to */
+export type BoneOverridePath = "translation" | "rotation" | "scale";
+
+/** One overridden property of a joint */
+interface BoneOverrideValue {
+	/** Replacement value, or offset when additive (vec3, or quat for rotation) */
+	value: Float32Array;
+	/** Apply on top of the animated pose (translation added, rotation applied after, scale multiplied) */
+	additive: boolean;
+	/** Blend from the animated pose (0) to the overridden pose (1) */
+	weight: number;
+}
+
+/** Overridden properties of one joint (null = not overridden) */
+interface BoneOverride {
+	translation: BoneOverrideValue | null;
+	rotation: BoneOverrideValue | null;
+	scale: BoneOverrideValue | null;
+}
+
+/** Look-at constraint settings (setLookAt) */
+export interface LookAtOptions {
+	/** Number of bones sharing the rotation, from the end bone up through its parents (default: 1) */
+	chainLength?: number;
+	/** Axis of the end bone, in its local space, that points at the target (default: +Z) */
+	axis?: ArrayLike<number>;
+	/** Maximum rotation away from the animated pose in degrees (default: 180, unlimited) */
+	maxAngle?: number;
+	/** Time in seconds to turn most of the way toward a new target direction (default: 0, immediate) */
+	smoothing?: number;
+	/** Blend from the animated pose (0) to fully looking at the target (1) (default: 1) */
+	weight?: number;
+}
+
+/** Look-at constraint rotating a joint chain toward a target point */
+interface LookAtConstraint {
+	/** Chain joint indices, root-most first (the last one is the end bone) */
+	joints: number[];
+	/** Target point in world space (see setWorldTransform) */
+	target: Float32Array;
+	/** End bone local axis (normalized) */
+	axis: Float32Array;
+	/** Maximum rotation in radians */
+	maxAngle: number;
+	smoothing: number;
+	weight: number;
+	/** Smoothed look direction in model space */
+	direction: Float32Array;
+	/** False until direction holds a value (starts from the animated pose) */
+	hasDirection: boolean;
+}
+
+/** Two-bone IK chain (e.g. thigh, shin, foot) */
+interface IkChain {
+	/** Joint indices: upper bone, middle bone (the bending joint) and end effector */
+	root: number;
+	mid: number;
+	end: number;
+	/** Target for the end effector in world space (see setWorldTransform) */
+	target: Float32Array;
+	hasTarget: boolean;
+	/** Point in world space the middle joint bends toward (null = keep the animated bend direction) */
+	pole: Float32Array | null;
+	/** Ground height in world Z: the target follows the animated end effector, lifted onto this height */
+	groundHeight: number | null;
+	/** Blend from the animated pose (0) to the solved pose (1) */
+	weight: number;
+	enabled: boolean;
+	/** Model-space target for this frame */
+	solveTarget: Float32Array;
+}
+
+/** Scratch vectors for the IK solver */
+const ikA = vec3.create();
+const ikB = vec3.create();
+const ikC = vec3.create();
+const ikT = vec3.create();
+const ikAxis0 = vec3.create();
+const ikAxis1 = vec3.create();
+const ikTemp = vec3.create();
+const ikRootRotation = quat.create();
+const ikMidRotation = quat.create();
+
+/** Clamped acos (dot products can drift slightly outside -1..1) */
+function safeAcos(x: number): number {
+	return Math.acos(Math.max(-1, Math.min(x, 1)));
+}
+
 /**
- * AnimationController handles skeletal animation playback and CPU skinning.
+ * Cubic Hermite interpolation between two keyframes, written into out.
+ * @param values Sampler output array
+ * @param p0 Offset of the start value
+ * @param m0 Offset of the start out-tangent
+ * @param p1 Offset of the end value
+ * @param m1 Offset of the end in-tangent
+ * @param size Number of components
+ * @param t Normalized time between the keyframes (0-1)
+ * @param dt Keyframe delta in seconds (tangents are per second)
+ */
+function hermiteInto(
+	values: Float32Array,
+	p0: number,
+	m0: number,
+	p1: number,
+	m1: number,
+	size: number,
+	t: number,
+	dt: number,
+	out: Float32Array
+): void {
+	const t2 = t * t;
+	const t3 = t2 * t;
+	const h00 = 2 * t3 - 3 * t2 + 1;
+	const h10 = (t3 - 2 * t2 + t) * dt;
+	const h01 = -2 * t3 + 3 * t2;
+	const h11 = (t3 - t2) * dt;
+
+	for (let k = 0; k < size; k++) {
+		out[k] = h00 * values[p0 + k] + h10 * values[m0 + k] + h01 * values[p1 + k] + h11 * values[m1 + k];
+	}
+}
+
+/**
+ * AnimationController handles skeletal and rigid (node) animation playback and CPU skinning.
  *
  * Main thread implementation - call update() each frame to advance animation
  * and compute skinned vertex positions.
  *
  * Usage:
  * ```typescript
- * const controller = new AnimationController({ skinData, animations, meshes });
+ * const controller = new AnimationController({ skins, skeleton, animations, meshes });
  * controller.play("Walk");
  *
  * // Each frame:
@@ -70,7 +314,8 @@ interface ActiveChannel {
  */
 export class AnimationController {
 	// Input data (references, not owned)
-	private readonly _skinData: CachedSkinData;
+	private readonly _skins: readonly CachedSkinData[];
+	private readonly _skeleton: CachedSkeletonData;
 	private readonly _animations: CachedAnimationData[];
 	private readonly _meshes: AnimationMeshData[];
 	private readonly _animationMap: Map<string, CachedAnimationData>;
@@ -88,13 +333,18 @@ export class AnimationController {
 	// Worker skinning mode: when true, skip main thread skinning (workers will do it)
 	public useWorkerSkinning: boolean = false;
 
-	// Event callback
+	// Event callbacks
 	public onComplete?: () => void;
+	/** Called for each animation event the current clip's playback passes (event name, clip name) */
+	public onEvent?: (name: string, clip: string) => void;
+
+	// Animation events by clip name, sorted by time (from extras, plus addAnimationEvent)
+	private readonly _events = new Map<string, AnimationEventData[]>();
 
 	// Pre-allocated joint transform state
 	private readonly _jointTransforms: JointTransform[];
 	private readonly _jointWorldMatrices: Float32Array;  // 16 floats per joint, flattened
-	private readonly _boneMatrices: Float32Array;        // 16 floats per joint, flattened
+	private readonly _boneMatrices: Float32Array[];      // Per skin: 16 floats per skin joint, flattened
 	private readonly _jointComputed: Uint8Array;         // Track which joints have been computed this frame
 
 	// Pre-allocated skinned position output buffers (one per mesh)
@@ -104,6 +354,21 @@ export class AnimationController {
 
 	// Cached active channels (populated on play() to avoid lookup each frame)
 	private _activeChannels: ActiveChannel[] = [];
+	private _activeNodeChannels: ActiveNodeChannel[] = [];
+	private _activeMorphChannels: ActiveChannel[] = [];
+
+	// Non-joint nodes targeted by translation/rotation/scale channels in any animation
+	private readonly _animatedNodes: GltfNodeDef[] = [];
+	private readonly _animatedNodeIndex: Map<GltfNodeDef, number> = new Map();
+	private readonly _nodeTransforms: JointTransform[];
+	private readonly _nodeRestTransforms: JointTransform[];
+	private _nodeBlendFromTransforms: JointTransform[] | null = null;
+
+	// Morph weights per target node (allocated on first "weights" channel for that node)
+	private readonly _morphWeights: Map<GltfNodeDef, MorphWeightState> = new Map();
+	// Pre-allocated morphed bind pose buffers for CPU skinning (one per mesh with morph targets)
+	private readonly _morphedPositions: (Float32Array | null)[];
+	private readonly _morphedNormals: (Float32Array | null)[];
 
 	// Blend crossfade state (snapshot approach)
 	// At blendTo() time, current pose is frozen into _blendFromTransforms.
@@ -112,16 +377,36 @@ export class AnimationController {
 	private _blendDuration: number = 0;                           // total crossfade seconds
 	private _blendElapsed: number = 0;                            // seconds into crossfade
 
+	// Animation layers, composited over the base animation (after its crossfade) in order
+	private readonly _layers: AnimationLayer[] = [];
+
+	// Additive clips (by animation name), added after the layers
+	private readonly _additives = new Map<string, AdditiveClip>();
+	private readonly _additiveReferences = new Map<string, AdditiveReference>();
+
+	// Procedural pose modifiers, applied after evaluation and crossfade, before world matrices
+	private readonly _boneOverrides: Map<number, BoneOverride> = new Map();  // Joint index -> overridden properties
+	private readonly _lookAts: Map<number, LookAtConstraint> = new Map();    // End joint index -> constraint
+	private readonly _ikChains: Map<string, IkChain> = new Map();             // Chain name -> two-bone IK chain
+	private _groundingPelvis: number = -1;                                      // Joint shifted so the lowest grounded foot reaches the ground
+	private readonly _modelToWorld: Float32Array = mat4.create() as Float32Array;  // Owner transform (ground heights are world Z)
+	private readonly _worldToModel: Float32Array = mat4.create() as Float32Array;  // Look-at / IK targets -> model space
+	private _basePose: JointTransform[] | null = null;  // Joint pose before modifiers (crossfade snapshots use this)
+	private _basePoseValid: boolean = false;             // True if modifiers were applied to the current pose
+	private _poseDirty: boolean = false;                 // Modifiers changed; re-evaluate on the next update
+
 	// Pre-allocated temp vectors/matrices (reused each frame to avoid GC)
 	private readonly _tempVec3A: Float32Array;
 	private readonly _tempVec3B: Float32Array;
 	private readonly _tempQuatA: Float32Array;
 	private readonly _tempQuatB: Float32Array;
+	private readonly _tempQuatC: Float32Array;
 	private readonly _tempMat4A: Float32Array;
 	private readonly _tempMat4B: Float32Array;
 
 	constructor(options: AnimationControllerOptions) {
-		this._skinData = options.skinData;
+		this._skins = options.skins;
+		this._skeleton = options.skeleton;
 		this._animations = options.animations;
 		this._meshes = options.meshes;
 
@@ -129,10 +414,13 @@ export class AnimationController {
 		this._animationMap = new Map();
 		for (const anim of options.animations) {
 			this._animationMap.set(anim.name, anim);
+			if (anim.events?.length) {
+				this._events.set(anim.name, [...anim.events]);
+			}
 		}
 
-		const jointCount = this._skinData.joints.length;
-		debugLog(`Initializing with ${jointCount} joints, ${options.animations.length} animations, ${options.meshes.length} meshes`);
+		const jointCount = this._skeleton.joints.length;
+		debugLog(`Initializing with ${jointCount} joints (${this._skins.length} skins), ${options.animations.length} animations, ${options.meshes.length} meshes`);
 
 		// Pre-allocate joint transforms (TRS per joint)
 		this._jointTransforms = new Array(jointCount);
@@ -144,17 +432,44 @@ export class AnimationController {
 			};
 		}
 
+		// Collect animated non-joint nodes and their rest TRS
+		for (const anim of options.animations) {
+			for (const channel of anim.channels) {
+				const node = channel.targetNode;
+				if (channel.targetJointIndex >= 0 || !node || channel.targetPath === "weights") continue;
+				if (this._animatedNodeIndex.has(node)) continue;
+				this._animatedNodeIndex.set(node, this._animatedNodes.length);
+				this._animatedNodes.push(node);
+			}
+		}
+		this._nodeTransforms = this._allocateTransforms(this._animatedNodes.length);
+		this._nodeRestTransforms = this._allocateTransforms(this._animatedNodes.length);
+		for (let i = 0; i < this._animatedNodes.length; i++) {
+			const node = this._animatedNodes[i];
+			const rest = this._nodeRestTransforms[i];
+			rest.translation.set(node.getTranslation());
+			rest.rotation.set(node.getRotation());
+			rest.scale.set(node.getScale());
+		}
+
 		// Pre-allocate joint world matrices and bone matrices
 		this._jointWorldMatrices = new Float32Array(jointCount * 16);
-		this._boneMatrices = new Float32Array(jointCount * 16);
+		this._boneMatrices = this._skins.map(skin => new Float32Array(skin.joints.length * 16));
 		this._jointComputed = new Uint8Array(jointCount);
 
 		// Pre-allocate skinned position output buffers
 		this._skinnedPositions = new Array(options.meshes.length);
 		this._skinnedNormals = new Array(options.meshes.length);
+		this._morphedPositions = new Array(options.meshes.length);
+		this._morphedNormals = new Array(options.meshes.length);
 		let totalVertices = 0;
 		for (let i = 0; i < options.meshes.length; i++) {
 			const vertexCount = options.meshes[i].originalPositions.length;
+			const morphData = options.meshes[i].morphData;
+			this._morphedPositions[i] = morphData ? new Float32Array(vertexCount) : null;
+			this._morphedNormals[i] = morphData?.normalDeltas && options.meshes[i].originalNormals
+				? new Float32Array(vertexCount)
+				: null;
 			this._skinnedPositions[i] = new Float32Array(vertexCount);
 			// Also allocate normal buffers if mesh has normals
 			if (options.meshes[i].originalNormals) {
@@ -179,6 +494,7 @@ export class AnimationController {
 		this._tempVec3B = new Float32Array(3);
 		this._tempQuatA = new Float32Array(4);
 		this._tempQuatB = new Float32Array(4);
+		this._tempQuatC = new Float32Array(4);
 		this._tempMat4A = new Float32Array(16);
 		this._tempMat4B = new Float32Array(16);
 
@@ -247,7 +563,12 @@ export class AnimationController {
 		if (!this._blendFromTransforms) {
 			this._allocateBlendFromTransforms();
 		}
-		this._copyJointTransforms(this._jointTransforms, this._blendFromTransforms!);
+		this._copyJointTransforms(this._basePoseValid ? this._basePose! : this._jointTransforms, this._blendFromTransforms!);
+		if (!this._nodeBlendFromTransforms) {
+			this._nodeBlendFromTransforms = this._allocateTransforms(this._animatedNodes.length);
+		}
+		this._copyJointTransforms(this._nodeTransforms, this._nodeBlendFromTransforms);
+		this._snapshotMorphWeights();
 
 		// Switch to new animation
 		this._currentAnimation = anim;
@@ -288,6 +609,7 @@ export class AnimationController {
 
 		// Evaluate at start time
 		this._evaluateAnimation(this._time);
+		this._composePose(0);
 		this._computeJointWorldMatrices();
 		this._computeBoneMatrices();
 
@@ -339,42 +661,49 @@ export class AnimationController {
 	 * @param deltaTime Time elapsed since last update in seconds
 	 */
 	update(deltaTime: number): void {
-		if (!this._currentAnimation) return;
-
-		const isActivelyPlaying = this._isPlaying && !this._isPaused;
+		const isActivelyPlaying = this._currentAnimation !== null && this._isPlaying && !this._isPaused;
 		const hasActiveBlend = this._blendDuration > 0;
+		const hasPoseModifiers = this.hasPoseModifiers() || this._poseDirty || this._hasActiveLayers();
 
-		// Nothing to do if paused/stopped and no blend in progress
-		if (!isActivelyPlaying && !hasActiveBlend) return;
+		// Nothing to do if paused/stopped, no blend in progress and no layers or bone overrides to re-apply
+		if (!isActivelyPlaying && !hasActiveBlend && !hasPoseModifiers) return;
 
-		const duration = this._currentAnimation.duration;
-		if (duration <= 0) return;
+		const duration = this._currentAnimation?.duration ?? 0;
+		if (duration <= 0 && !hasPoseModifiers) return;
 
-		if (isActivelyPlaying) {
-			// Advance time with playback rate
-			this._time += deltaTime * this.playbackRate;
+		if (isActivelyPlaying && duration > 0) {
+			// Fire events between the current and next time (before OnComplete)
+			const clip = this._currentAnimation!;
+			const time = this._time;
+			this._fireAnimationEvents(clip, time, deltaTime * this.playbackRate);
 
-			// Handle looping (review suggestion: use subtraction, not modulo)
-			if (this.loop) {
-				while (this._time >= duration) {
-					this._time -= duration;
-				}
-				while (this._time < 0) {
-					this._time += duration;
-				}
-			} else {
-				// Clamp to duration — do NOT clear blend here; let it finish naturally
-				if (this._time >= duration) {
-					this._time = duration;
-					this._isPlaying = false;
-					if (this.onComplete) {
-						this.onComplete();
+			// A handler may have played, blended, seeked or stopped: the new state already has its own time
+			if (this._isPlaybackUnchanged(clip, time)) {
+				// Advance time with playback rate
+				this._time += deltaTime * this.playbackRate;
+
+				// Handle looping (review suggestion: use subtraction, not modulo)
+				if (this.loop) {
+					while (this._time >= duration) {
+						this._time -= duration;
 					}
-				} else if (this._time < 0) {
-					this._time = 0;
-					this._isPlaying = false;
-					if (this.onComplete) {
-						this.onComplete();
+					while (this._time < 0) {
+						this._time += duration;
+					}
+				} else {
+					// Clamp to duration — do NOT clear blend here; let it finish naturally
+					if (this._time >= duration) {
+						this._time = duration;
+						this._isPlaying = false;
+						if (this.onComplete) {
+							this.onComplete();
+						}
+					} else if (this._time < 0) {
+						this._time = 0;
+						this._isPlaying = false;
+						if (this.onComplete) {
+							this.onComplete();
+						}
 					}
 				}
 			}
@@ -390,9 +719,14 @@ export class AnimationController {
 			this._blendElapsed += deltaTime;
 			const t = Math.min(this._blendElapsed / this._blendDuration, 1);
 			this._lerpJointTransforms(this._blendFromTransforms!, this._jointTransforms, t);
+			this._lerpJointTransforms(this._nodeBlendFromTransforms!, this._nodeTransforms, t);
+			this._lerpMorphWeights(t);
 			if (t >= 1) this._clearBlendState();
 		}
 
+		// Layers, then procedural overrides and look-at, on top of the (blended) animated pose
+		this._composePose(deltaTime);
+
 		this._computeJointWorldMatrices();
 		this._computeBoneMatrices();
 
@@ -413,6 +747,7 @@ export class AnimationController {
 
 		this._resetToBindPose();
 		this._evaluateAnimation(this._time);
+		this._composePose(0);
 		this._computeJointWorldMatrices();
 		this._computeBoneMatrices();
 
@@ -520,6 +855,356 @@ export class AnimationController {
 		return this._animations[index].name;
 	}
 
+	// ========================================================================
+	// Animation Events
+	// ========================================================================
+
+	/**
+	 * Add a named event to a clip. onEvent is called whenever playback of the clip passes the time,
+	 * once per loop, in either direction.
+	 * @param time Time in seconds (events at the clip end only fire for one-shot playback)
+	 * @returns false if the animation doesn't exist
+	 */
+	addAnimationEvent(clip: string, name: string, time: number): boolean {
+		if (!this._animationMap.has(clip)) {
+			debugWarn(`AddAnimationEvent: animation "${clip}" not found`);
+			return false;
+		}
+
+		let events = this._events.get(clip);
+		if (!events) {
+			events = [];
+			this._events.set(clip, events);
+		}
+		events.push({ name, time });
+		events.sort((a, b) => a.time - b.time);
+		return true;
+	}
+
+	/**
+	 * Remove a clip's events (all of them, or only those with the given name).
+	 */
+	removeAnimationEvents(clip: string, name?: string): void {
+		const events = this._events.get(clip);
+		if (!events) return;
+
+		if (name === undefined) {
+			this._events.delete(clip);
+			return;
+		}
+		const kept = events.filter(e => e.name !== name);
+		if (kept.length > 0) {
+			this._events.set(clip, kept);
+		} else {
+			this._events.delete(clip);
+		}
+	}
+
+	/**
+	 * Get a clip's events, sorted by time.
+	 */
+	getAnimationEvents(clip: string): readonly AnimationEventData[] {
+		return this._events.get(clip) ?? [];
+	}
+
+	// ========================================================================
+	// Animation Layers
+	// ========================================================================
+
+	/**
+	 * Play a clip on a layer (created on first use). The layer replaces the pose of its masked joints
+	 * (all joints until setLayerMask), blended by the layer weight.
+	 * @param layer Layer name or index
+	 * @param name Animation name
+	 * @param startTime Start time in seconds
+	 * @returns false if the animation or layer doesn't exist
+	 */
+	playLayer(layer: AnimationLayerRef, name: string, startTime: number = 0): boolean {
+		const target = this._getLayer(layer, true);
+		const anim = this._animationMap.get(name);
+		if (!target || !anim) {
+			debugWarn(`PlayLayer: layer "${layer}" or animation "${name}" not found`);
+			return false;
+		}
+
+		this._setLayerAnimation(target, anim, startTime);
+		target.blendDuration = 0;
+		target.fade = 1;
+		target.fadeTarget = 1;
+		target.fadeRate = 0;
+		this._poseDirty = true;
+		return true;
+	}
+
+	/**
+	 * Crossfade a layer to a clip. A layer that isn't playing fades in from the pose underneath instead.
+	 * @param duration Crossfade duration in seconds (0 = same as playLayer)
+	 * @returns false if the animation or layer doesn't exist
+	 */
+	blendLayer(layer: AnimationLayerRef, name: string, duration: number, startTime: number = 0): boolean {
+		if (duration <= 0) return this.playLayer(layer, name, startTime);
+
+		const target = this._getLayer(layer, true);
+		const anim = this._animationMap.get(name);
+		if (!target || !anim) {
+			debugWarn(`BlendLayer: layer "${layer}" or animation "${name}" not found`);
+			return false;
+		}
+
+		if (target.animation && target.fade > 0) {
+			// Snapshot the layer's current pose and crossfade from it
+			if (!target.blendFrom) {
+				target.blendFrom = this._allocateTransforms(this._skeleton.joints.length);
+			}
+			this._copyJointTransforms(target.transforms, target.blendFrom);
+			target.blendDuration = duration;
+			target.blendElapsed = 0;
+		} else {
+			target.fade = 0;
+			target.blendDuration = 0;
+		}
+		target.fadeTarget = 1;
+		target.fadeRate = 1 / duration;
+
+		this._setLayerAnimation(target, anim, startTime);
+		this._poseDirty = true;
+		return true;
+	}
+
+	/**
+	 * Stop a layer, optionally fading it out first.
+	 * @param fadeDuration Fade-out duration in seconds (0 = immediately)
+	 */
+	stopLayer(layer: AnimationLayerRef, fadeDuration: number = 0): void {
+		const target = this._getLayer(layer, false);
+		if (!target?.animation) return;
+
+		target.fadeTarget = 0;
+		if (fadeDuration > 0) {
+			target.fadeRate = target.fade / fadeDuration;
+		} else {
+			this._clearLayerAnimation(target);
+		}
+		this._poseDirty = true;
+	}
+
+	/**
+	 * Set a layer's weight (0 = pose underneath, 1 = layer pose on its masked joints).
+	 * @param duration Seconds to reach the weight (0 = immediately)
+	 */
+	setLayerWeight(layer: AnimationLayerRef, weight: number, duration: number = 0): void {
+		const target = this._getLayer(layer, true);
+		if (!target) return;
+
+		target.weightTarget = Math.max(0, Math.min(weight, 1));
+		target.weightRate = duration > 0 ? Math.abs(target.weightTarget - target.weight) / duration : 0;
+		if (duration <= 0) target.weight = target.weightTarget;
+		this._poseDirty = true;
+	}
+
+	setLayerSpeed(layer: AnimationLayerRef, speed: number): void {
+		const target = this._getLayer(layer, true);
+		if (target) target.speed = speed;
+	}
+
+	setLayerLoop(layer: AnimationLayerRef, loop: boolean): void {
+		const target = this._getLayer(layer, true);
+		if (target) target.loop = loop;
+	}
+
+	/**
+	 * Set the joints a layer affects.
+	 * @param mask Root bone (subtree) and/or explicit bones, or null for all joints
+	 */
+	setLayerMask(layer: AnimationLayerRef, mask: AnimationLayerMask | null): void {
+		const target = this._getLayer(layer, true);
+		if (!target) return;
+
+		if (!mask || (!mask.rootBone && !mask.bones?.length)) {
+			target.mask = null;
+			this._poseDirty = true;
+			return;
+		}
+
+		const joints = this._skeleton.joints;
+		const weights = new Float32Array(joints.length);
+		for (const bone of mask.bones ?? []) {
+			const jointIndex = this.getJointIndexByName(bone);
+			if (jointIndex >= 0) {
+				weights[jointIndex] = 1;
+			} else {
+				debugWarn(`SetLayerMask: joint "${bone}" not found`);
+			}
+		}
+		if (mask.rootBone) {
+			const root = this.getJointIndexByName(mask.rootBone);
+			if (root < 0) debugWarn(`SetLayerMask: joint "${mask.rootBone}" not found`);
+			for (let i = 0; i < joints.length && root >= 0; i++) {
+				for (let j = i; j >= 0; j = joints[j].parentIndex) {
+					if (j === root) {
+						weights[i] = 1;
+						break;
+					}
+				}
+			}
+		}
+		target.mask = weights;
+		this._poseDirty = true;
+	}
+
+	/**
+	 * Get the number of animation layers.
+	 */
+	getLayerCount(): number {
+		return this._layers.length;
+	}
+
+	/**
+	 * Get the clip name playing on a layer ("" if none).
+	 */
+	getLayerAnimation(layer: AnimationLayerRef): string {
+		return this._getLayer(layer, false)?.animation?.name ?? "";
+	}
+
+	/**
+	 * Get a layer's playback time in seconds.
+	 */
+	getLayerTime(layer: AnimationLayerRef): number {
+		return this._getLayer(layer, false)?.time ?? 0;
+	}
+
+	/**
+	 * Get a layer's current effective weight, including fades (0 if it has no clip).
+	 */
+	getLayerWeight(layer: AnimationLayerRef): number {
+		const target = this._getLayer(layer, false);
+		return target?.animation ? target.weight * target.fade : 0;
+	}
+
+	/**
+	 * Check if a layer is playing (a finished one-shot clip holds its last frame but isn't playing).
+	 */
+	isLayerPlaying(layer: AnimationLayerRef): boolean {
+		const target = this._getLayer(layer, false);
+		return !!target?.animation && target.isPlaying;
+	}
+
+	// ========================================================================
+	// Additive Animations
+	// ========================================================================
+
+	/**
+	 * Mark a clip as additive against a reference pose (used by playAdditive when no reference is given).
+	 * @param reference "first-frame", "bind-pose" (joint rest pose), or null to unmark
+	 * @returns false if the animation doesn't exist
+	 */
+	setAnimationAdditive(name: string, reference: AdditiveReference | null): boolean {
+		if (!this._animationMap.has(name)) return false;
+		if (reference) {
+			this._additiveReferences.set(name, reference);
+		} else {
+			this._additiveReferences.delete(name);
+		}
+		return true;
+	}
+
+	/**
+	 * Get the reference pose a clip is marked additive against, or null if it isn't marked.
+	 */
+	getAnimationAdditive(name: string): AdditiveReference | null {
+		return this._additiveReferences.get(name) ?? null;
+	}
+
+	/**
+	 * Play a clip additively: its offsets from the reference pose are added to the pose underneath
+	 * (base animation and layers), scaled by the weight. Restarts the clip if it is already playing.
+	 * @returns false if the animation doesn't exist
+	 */
+	playAdditive(name: string, options: AdditiveOptions = {}): boolean {
+		const anim = this._animationMap.get(name);
+		if (!anim) {
+			debugWarn(`PlayAdditive: animation "${name}" not found`);
+			return false;
+		}
+
+		const channels = this._getJointChannels(anim);
+		const reference = this._allocateTransforms(this._skeleton.joints.length);
+		this._computeAdditiveReference(channels, options.reference ?? this._additiveReferences.get(name) ?? "first-frame", reference);
+
+		const speed = options.speed ?? 1;
+		const weight = Math.max(0, Math.min(options.weight ?? 1, 1));
+		this._additives.set(name, {
+			animation: anim,
+			channels,
+			reference,
+			time: speed < 0 ? anim.duration : 0,
+			speed,
+			loop: options.loop ?? true,
+			weight,
+			weightTarget: weight,
+			weightRate: 0,
+			stopping: false
+		});
+		this._poseDirty = true;
+		return true;
+	}
+
+	/**
+	 * Set an additive clip's weight.
+	 * @param duration Seconds to reach the weight (0 = immediately)
+	 */
+	setAdditiveWeight(name: string, weight: number, duration: number = 0): void {
+		const clip = this._additives.get(name);
+		if (!clip) return;
+
+		clip.weightTarget = Math.max(0, Math.min(weight, 1));
+		clip.weightRate = duration > 0 ? Math.abs(clip.weightTarget - clip.weight) / duration : 0;
+		if (duration <= 0) clip.weight = clip.weightTarget;
+		clip.stopping = false;
+		this._poseDirty = true;
+	}
+
+	/**
+	 * Stop an additive clip, optionally fading it out first.
+	 * @param fadeDuration Fade-out duration in seconds (0 = immediately)
+	 */
+	stopAdditive(name: string, fadeDuration: number = 0): void {
+		const clip = this._additives.get(name);
+		if (!clip) return;
+
+		if (fadeDuration > 0) {
+			clip.weightTarget = 0;
+			clip.weightRate = clip.weight / fadeDuration;
+			clip.stopping = true;
+		} else {
+			this._additives.delete(name);
+		}
+		this._poseDirty = true;
+	}
+
+	/**
+	 * Stop all additive clips immediately.
+	 */
+	stopAllAdditives(): void {
+		if (this._additives.size === 0) return;
+		this._additives.clear();
+		this._poseDirty = true;
+	}
+
+	/**
+	 * Check if an additive clip is playing (including while it fades out).
+	 */
+	isAdditivePlaying(name: string): boolean {
+		return this._additives.has(name);
+	}
+
+	/**
+	 * Get an additive clip's current weight (0 if it isn't playing).
+	 */
+	getAdditiveWeight(name: string): number {
+		return this._additives.get(name)?.weight ?? 0;
+	}
+
 	// ========================================================================
 	// Output
 	// ========================================================================
@@ -549,20 +1234,31 @@ export class AnimationController {
 	}
 
 	/**
-	 * Get the bone matrices for worker-based skinning.
+	 * Get the bone matrices of one skin for worker-based skinning.
 	 * Returns a VIEW into the internal buffer - do not modify.
 	 * Call this after update() to get matrices for the current frame.
-	 * @returns Bone matrices (Float32Array, 16 floats per joint, flattened)
+	 * @param skinIndex Skin index (default: 0)
+	 * @returns Bone matrices (Float32Array, 16 floats per skin joint, flattened)
+	 */
+	getBoneMatrices(skinIndex: number = 0): Float32Array {
+		if (skinIndex < 0 || skinIndex >= this._boneMatrices.length) {
+			throw new Error(`Invalid skin index: ${skinIndex}`);
+		}
+		return this._boneMatrices[skinIndex];
+	}
+
+	/**
+	 * Get the number of skins driven by this controller.
 	 */
-	getBoneMatrices(): Float32Array {
-		return this._boneMatrices;
+	getSkinCount(): number {
+		return this._skins.length;
 	}
 
 	/**
-	 * Get the joint count (number of bones in skeleton).
+	 * Get the joint count (number of bones in the combined skeleton).
 	 */
 	getJointCount(): number {
-		return this._skinData.joints.length;
+		return this._skeleton.joints.length;
 	}
 
 	/**
@@ -595,6 +1291,14 @@ export class AnimationController {
 		return this._meshes.length;
 	}
 
+	/**
+	 * True if update() has work to do: playback is running, or layers / bone overrides / look-at
+	 * need re-applying (also while the base animation is stopped or paused).
+	 */
+	needsUpdate(): boolean {
+		return (this._isPlaying && !this._isPaused) || this.hasPoseModifiers() || this._poseDirty || this._hasActiveLayers();
+	}
+
 	// ========================================================================
 	// Joint Query API (for Bone Attachments)
 	// ========================================================================
@@ -607,7 +1311,7 @@ export class AnimationController {
 	 * @returns Copy of the joint's world matrix (16 floats) or null if invalid index
 	 */
 	getJointWorldMatrix(jointIndex: number): Float32Array | null {
-		if (jointIndex < 0 || jointIndex >= this._skinData.joints.length) {
+		if (jointIndex < 0 || jointIndex >= this._skeleton.joints.length) {
 			return null;
 		}
 		// Return a copy to prevent modification
@@ -632,7 +1336,7 @@ export class AnimationController {
 	 * @returns Copy of the joint's local matrix (16 floats) or null if invalid index
 	 */
 	getJointLocalTransform(jointIndex: number): Float32Array | null {
-		if (jointIndex < 0 || jointIndex >= this._skinData.joints.length) {
+		if (jointIndex < 0 || jointIndex >= this._skeleton.joints.length) {
 			return null;
 		}
 		const t = this._jointTransforms[jointIndex];
@@ -652,7 +1356,7 @@ export class AnimationController {
 	 * @returns Joint index, or -1 if not found
 	 */
 	getJointIndexByName(name: string): number {
-		const joints = this._skinData.joints;
+		const joints = this._skeleton.joints;
 		for (let i = 0; i < joints.length; i++) {
 			if (joints[i].name === name) {
 				return i;
@@ -667,10 +1371,10 @@ export class AnimationController {
 	 * @returns Joint name or empty string if invalid index
 	 */
 	getJointName(jointIndex: number): string {
-		if (jointIndex < 0 || jointIndex >= this._skinData.joints.length) {
+		if (jointIndex < 0 || jointIndex >= this._skeleton.joints.length) {
 			return "";
 		}
-		return this._skinData.joints[jointIndex].name;
+		return this._skeleton.joints[jointIndex].name;
 	}
 
 	/**
@@ -678,7 +1382,7 @@ export class AnimationController {
 	 * @returns Array of joint names
 	 */
 	getJointNames(): string[] {
-		return this._skinData.joints.map(j => j.name);
+		return this._skeleton.joints.map(j => j.name);
 	}
 
 	/**
@@ -691,67 +1395,471 @@ export class AnimationController {
 	}
 
 	// ========================================================================
-	// Internal: Blend Helpers
+	// Bone Override API (procedural pose)
 	// ========================================================================
 
-	/** Allocate _blendFromTransforms buffer (same structure as _jointTransforms). Called lazily. */
-	private _allocateBlendFromTransforms(): void {
-		const jointCount = this._skinData?.joints?.length ?? 0;
-		if (jointCount === 0) return;
-		this._blendFromTransforms = new Array(jointCount);
-		for (let i = 0; i < jointCount; i++) {
-			this._blendFromTransforms[i] = {
-				translation: new Float32Array(3),
-				rotation: new Float32Array(4),
-				scale: new Float32Array(3)
-			};
+	/**
+	 * Override a joint's local translation, rotation or scale, or add to the animated value.
+	 * Overrides are applied after animation evaluation and crossfade, before world matrices.
+	 * @param name Joint name
+	 * @param path Property to override
+	 * @param value vec3 for translation/scale, quaternion for rotation
+	 * @param additive Apply on top of the animated pose instead of replacing it
+	 * @param weight Blend from the animated pose (0) to the overridden pose (1)
+	 * @returns false if the joint doesn't exist
+	 */
+	setBoneOverride(name: string, path: BoneOverridePath, value: ArrayLike<number>, additive: boolean = false, weight: number = 1): boolean {
+		const jointIndex = this.getJointIndexByName(name);
+		if (jointIndex < 0) {
+			debugWarn(`SetBoneOverride: joint "${name}" not found`);
+			return false;
 		}
-	}
 
-	/** Copy all joint TRS values from src into dst (no allocation). */
-	private _copyJointTransforms(src: JointTransform[], dst: JointTransform[]): void {
-		for (let i = 0; i < src.length; i++) {
-			dst[i].translation.set(src[i].translation);
-			dst[i].rotation.set(src[i].rotation);
-			dst[i].scale.set(src[i].scale);
+		let override = this._boneOverrides.get(jointIndex);
+		if (!override) {
+			override = { translation: null, rotation: null, scale: null };
+			this._boneOverrides.set(jointIndex, override);
+		}
+
+		const size = path === "rotation" ? 4 : 3;
+		let entry = override[path];
+		if (!entry) {
+			entry = { value: new Float32Array(size), additive, weight };
+			override[path] = entry;
+		}
+		for (let k = 0; k < size; k++) {
+			entry.value[k] = value[k] ?? 0;
 		}
+		if (path === "rotation") {
+			quat.normalize(entry.value as quat, entry.value as quat);
+		}
+		entry.additive = additive;
+		entry.weight = Math.max(0, Math.min(weight, 1));
+		this._poseDirty = true;
+		return true;
 	}
 
 	/**
-	 * Lerp/slerp each joint from `from` toward `inout` by factor t (0=from, 1=inout).
-	 * Writes blended result back into `inout` in place.
+	 * Remove a joint's overrides.
+	 * @param path Property to clear (default: all of the joint's overrides)
 	 */
-	private _lerpJointTransforms(from: JointTransform[], inout: JointTransform[], t: number): void {
-		const oneMinusT = 1 - t;
-		for (let i = 0; i < from.length; i++) {
-			const f = from[i];
-			const tgt = inout[i];
-
-			// Lerp translation
-			tgt.translation[0] = f.translation[0] * oneMinusT + tgt.translation[0] * t;
-			tgt.translation[1] = f.translation[1] * oneMinusT + tgt.translation[1] * t;
-			tgt.translation[2] = f.translation[2] * oneMinusT + tgt.translation[2] * t;
-
-			// Lerp scale
-			tgt.scale[0] = f.scale[0] * oneMinusT + tgt.scale[0] * t;
-			tgt.scale[1] = f.scale[1] * oneMinusT + tgt.scale[1] * t;
-			tgt.scale[2] = f.scale[2] * oneMinusT + tgt.scale[2] * t;
+	clearBoneOverride(name: string, path?: BoneOverridePath): void {
+		const jointIndex = this.getJointIndexByName(name);
+		const override = this._boneOverrides.get(jointIndex);
+		if (!override) return;
 
-			// Slerp rotation (use temp buffer to avoid aliasing — out and b must not overlap)
-			quat.slerp(this._tempQuatA as quat, f.rotation as quat, tgt.rotation as quat, t);
-			tgt.rotation.set(this._tempQuatA);
+		if (path) {
+			override[path] = null;
+		}
+		if (!path || (!override.translation && !override.rotation && !override.scale)) {
+			this._boneOverrides.delete(jointIndex);
 		}
+		this._poseDirty = true;
 	}
 
-	/** Reset blend counters. Does not free _blendFromTransforms (reused on next blend). */
-	private _clearBlendState(): void {
-		this._blendDuration = 0;
-		this._blendElapsed = 0;
+	/**
+	 * Remove all bone overrides (look-at constraints are kept).
+	 */
+	clearBoneOverrides(): void {
+		if (this._boneOverrides.size === 0) return;
+		this._boneOverrides.clear();
+		this._poseDirty = true;
 	}
 
+	/**
+	 * Rotate a joint chain so the end joint's axis points at a target.
+	 * Calling again for the same joint updates the target and settings, keeping the smoothed direction.
+	 * @param name End joint name (e.g. the head)
+	 * @param target Target point in world space (see setWorldTransform)
+	 * @returns false if the joint doesn't exist
+	 */
+	setLookAt(name: string, target: ArrayLike<number>, options: LookAtOptions = {}): boolean {
+		const endJoint = this.getJointIndexByName(name);
+		if (endJoint < 0) {
+			debugWarn(`SetLookAt: joint "${name}" not found`);
+			return false;
+		}
+
+		let constraint = this._lookAts.get(endJoint);
+		if (!constraint) {
+			constraint = {
+				joints: [],
+				target: new Float32Array(3),
+				axis: new Float32Array([0, 0, 1]),
+				maxAngle: Math.PI,
+				smoothing: 0,
+				weight: 1,
+				direction: new Float32Array(3),
+				hasDirection: false
+			};
+			this._lookAts.set(endJoint, constraint);
+		}
+
+		// Walk up from the end joint, then store root-most first
+		const chainLength = Math.max(1, Math.floor(options.chainLength ?? (constraint.joints.length || 1)));
+		const joints: number[] = [];
+		for (let j = endJoint; j >= 0 && joints.length < chainLength; j = this._skeleton.joints[j].parentIndex) {
+			joints.push(j);
+		}
+		constraint.joints = joints.reverse();
+
+		constraint.target[0] = target[0];
+		constraint.target[1] = target[1];
+		constraint.target[2] = target[2];
+		if (options.axis) {
+			vec3.set(constraint.axis as vec3, options.axis[0], options.axis[1], options.axis[2]);
+			vec3.normalize(constraint.axis as vec3, constraint.axis as vec3);
+		}
+		if (options.maxAngle !== undefined) {
+			constraint.maxAngle = Math.max(0, Math.min(options.maxAngle, 180)) * Math.PI / 180;
+		}
+		if (options.smoothing !== undefined) {
+			constraint.smoothing = Math.max(0, options.smoothing);
+		}
+		if (options.weight !== undefined) {
+			constraint.weight = Math.max(0, Math.min(options.weight, 1));
+		}
+		this._poseDirty = true;
+		return true;
+	}
+
+	/**
+	 * Set the blend weight of a look-at constraint (0 = animated pose, 1 = looking at the target).
+	 */
+	setLookAtWeight(name: string, weight: number): void {
+		const constraint = this._lookAts.get(this.getJointIndexByName(name));
+		if (!constraint) return;
+		constraint.weight = Math.max(0, Math.min(weight, 1));
+		this._poseDirty = true;
+	}
+
+	/**
+	 * Remove a look-at constraint.
+	 */
+	clearLookAt(name: string): void {
+		if (this._lookAts.delete(this.getJointIndexByName(name))) {
+			this._poseDirty = true;
+		}
+	}
+
+	/**
+	 * Remove all look-at constraints.
+	 */
+	clearLookAts(): void {
+		if (this._lookAts.size === 0) return;
+		this._lookAts.clear();
+		this._poseDirty = true;
+	}
+
+	// ========================================================================
+	// Inverse Kinematics API
+	// ========================================================================
+
+	/**
+	 * Create or reconfigure a two-bone IK chain. The chain has no target until setIkTarget or setIkGroundHeight.
+	 * @param name Chain name (e.g. "leftLeg")
+	 * @param rootName Upper bone (e.g. thigh)
+	 * @param midName Middle bone that bends (e.g. shin); must be a child of the root
+	 * @param endName End effector (e.g. foot); must be a child of the middle bone
+	 * @returns false if a joint doesn't exist
+	 */
+	setIkChain(name: string, rootName: string, midName: string, endName: string): boolean {
+		const root = this.getJointIndexByName(rootName);
+		const mid = this.getJointIndexByName(midName);
+		const end = this.getJointIndexByName(endName);
+		if (root < 0 || mid < 0 || end < 0) {
+			debugWarn(`SetIkChain "${name}": joint not found (${rootName}, ${midName}, ${endName})`);
+			return false;
+		}
+
+		const chain = this._ikChains.get(name);
+		if (chain) {
+			chain.root = root;
+			chain.mid = mid;
+			chain.end = end;
+		} else {
+			this._ikChains.set(name, {
+				root,
+				mid,
+				end,
+				target: new Float32Array(3),
+				hasTarget: false,
+				pole: null,
+				groundHeight: null,
+				weight: 1,
+				enabled: true,
+				solveTarget: new Float32Array(3)
+			});
+		}
+		this._poseDirty = true;
+		return true;
+	}
+
+	/**
+	 * Remove an IK chain.
+	 */
+	removeIkChain(name: string): void {
+		if (this._ikChains.delete(name)) {
+			this._poseDirty = true;
+		}
+	}
+
+	/**
+	 * Check if an IK chain exists.
+	 */
+	hasIkChain(name: string): boolean {
+		return this._ikChains.has(name);
+	}
+
+	/**
+	 * Set the end effector target of an IK chain (stops ground following).
+	 * @param target Target point in world space (see setWorldTransform)
+	 */
+	setIkTarget(name: string, target: ArrayLike<number>): void {
+		const chain = this._ikChains.get(name);
+		if (!chain) return;
+		chain.target[0] = target[0];
+		chain.target[1] = target[1];
+		chain.target[2] = target[2];
+		chain.hasTarget = true;
+		chain.groundHeight = null;
+		this._poseDirty = true;
+	}
+
+	/**
+	 * Set the point the middle joint bends toward (e.g. in front of the knee).
+	 * @param pole Pole point in world space, or null to keep the animated bend direction
+	 */
+	setIkPole(name: string, pole: ArrayLike<number> | null): void {
+		const chain = this._ikChains.get(name);
+		if (!chain) return;
+		chain.pole = pole ? new Float32Array([pole[0], pole[1], pole[2]]) : null;
+		this._poseDirty = true;
+	}
+
+	/**
+	 * Set the blend weight of an IK chain (0 = animated pose, 1 = solved pose).
+	 */
+	setIkWeight(name: string, weight: number): void {
+		const chain = this._ikChains.get(name);
+		if (!chain) return;
+		chain.weight = Math.max(0, Math.min(weight, 1));
+		this._poseDirty = true;
+	}
+
+	/**
+	 * Enable or disable an IK chain (keeps its settings).
+	 */
+	setIkEnabled(name: string, enabled: boolean): void {
+		const chain = this._ikChains.get(name);
+		if (!chain) return;
+		chain.enabled = enabled;
+		this._poseDirty = true;
+	}
+
+	/**
+	 * Check if an IK chain exists and is enabled.
+	 */
+	isIkEnabled(name: string): boolean {
+		return this._ikChains.get(name)?.enabled ?? false;
+	}
+
+	/**
+	 * Plant an IK chain's end effector on the ground (foot placement).
+	 * Each frame the target is the animated end effector raised or lowered by the ground height,
+	 * relative to the animation's ground (world Z of the model origin), so steps keep their lift.
+	 * @param height Ground height under the foot in world Z (e.g. from a raycast)
+	 */
+	setIkGroundHeight(name: string, height: number): void {
+		const chain = this._ikChains.get(name);
+		if (!chain) return;
+		chain.groundHeight = height;
+		chain.hasTarget = true;
+		this._poseDirty = true;
+	}
+
+	/**
+	 * Set the pelvis joint for foot grounding. Each frame it moves along world Z by the lowest
+	 * grounded foot's offset, so that foot touches the ground and the other legs bend to reach theirs.
+	 * @param name Pelvis/hips joint name, or "" to stop shifting the pelvis
+	 * @returns false if the joint doesn't exist
+	 */
+	setGroundingPelvis(name: string): boolean {
+		this._groundingPelvis = name ? this.getJointIndexByName(name) : -1;
+		this._poseDirty = true;
+		return !name || this._groundingPelvis >= 0;
+	}
+
+	/**
+	 * True if any bone override, look-at constraint or IK chain is active.
+	 */
+	hasPoseModifiers(): boolean {
+		if (this._boneOverrides.size > 0 || this._lookAts.size > 0) return true;
+		for (const chain of this._ikChains.values()) {
+			if (chain.enabled && chain.hasTarget) return true;
+		}
+		return false;
+	}
+
+	/**
+	 * Set the model-to-world transform used to bring look-at and IK targets into model space.
+	 * Call before update() whenever the owner moves (identity by default: targets are in model space).
+	 * @param modelToWorld Model space -> world matrix (e.g. the instance TRS matrix)
+	 */
+	setWorldTransform(modelToWorld: ArrayLike<number>): void {
+		this._modelToWorld.set(modelToWorld);
+		if (!mat4.invert(this._worldToModel as mat4, modelToWorld as unknown as mat4)) {
+			mat4.identity(this._worldToModel as mat4);
+		}
+	}
+
+	// ========================================================================
+	// Animated Node Query API (rigid animation)
+	// ========================================================================
+
+	/**
+	 * Get the non-joint nodes driven by translation/rotation/scale channels (across all animations).
+	 * Indices match getNodeLocalTransform().
+	 */
+	getAnimatedNodes(): readonly GltfNodeDef[] {
+		return this._animatedNodes;
+	}
+
+	/**
+	 * Get local transform matrix for an animated node.
+	 * Nodes not driven by the current animation return their rest transform.
+	 * @param nodeIndex Index into getAnimatedNodes()
+	 * @returns Copy of the node's local matrix (16 floats) or null if invalid index
+	 */
+	getNodeLocalTransform(nodeIndex: number): Float32Array | null {
+		if (nodeIndex < 0 || nodeIndex >= this._nodeTransforms.length) {
+			return null;
+		}
+		const t = this._nodeTransforms[nodeIndex];
+		const mat = mat4.create();
+		mat4.fromRotationTranslationScale(
+			mat,
+			t.rotation as unknown as quat,
+			t.translation as unknown as vec3,
+			t.scale as unknown as vec3
+		);
+		return new Float32Array(mat as Float32Array);
+	}
+
+	// ========================================================================
+	// Morph Target Query API
+	// ========================================================================
+
+	/**
+	 * Get morph weights evaluated for a node's mesh.
+	 * Returns a VIEW into the internal buffer - do not modify.
+	 * @param node glTF node owning the mesh (MeshMorphData.node)
+	 * @returns Weights (one per target), or null if the current animation doesn't drive this node
+	 */
+	getMorphWeights(node: GltfNodeDef): Float32Array | null {
+		const state = this._morphWeights.get(node);
+		return state && state.active ? state.weights : null;
+	}
+
+	/**
+	 * Check if the current animation has any "weights" channels.
+	 */
+	hasMorphAnimation(): boolean {
+		return this._activeMorphChannels.length > 0;
+	}
+
+	// ========================================================================
+	// Internal: Blend Helpers
+	// ========================================================================
+
+	/** Allocate _blendFromTransforms buffer (same structure as _jointTransforms). Called lazily. */
+	private _allocateBlendFromTransforms(): void {
+		this._blendFromTransforms = this._allocateTransforms(this._skeleton.joints.length);
+	}
+
+	/** Allocate `count` zeroed TRS entries. */
+	private _allocateTransforms(count: number): JointTransform[] {
+		const transforms: JointTransform[] = new Array(count);
+		for (let i = 0; i < count; i++) {
+			transforms[i] = {
+				translation: new Float32Array(3),
+				rotation: new Float32Array(4),
+				scale: new Float32Array(3)
+			};
+		}
+		return transforms;
+	}
+
+	/** Copy all joint TRS values from src into dst (no allocation). */
+	private _copyJointTransforms(src: JointTransform[], dst: JointTransform[]): void {
+		for (let i = 0; i < src.length; i++) {
+			dst[i].translation.set(src[i].translation);
+			dst[i].rotation.set(src[i].rotation);
+			dst[i].scale.set(src[i].scale);
+		}
+	}
+
+	/**
+	 * Lerp/slerp each joint from `from` toward `inout` by factor t (0=from, 1=inout).
+	 * Writes blended result back into `inout` in place.
+	 */
+	private _lerpJointTransforms(from: JointTransform[], inout: JointTransform[], t: number): void {
+		const oneMinusT = 1 - t;
+		for (let i = 0; i < from.length; i++) {
+			const f = from[i];
+			const tgt = inout[i];
+
+			// Lerp translation
+			tgt.translation[0] = f.translation[0] * oneMinusT + tgt.translation[0] * t;
+			tgt.translation[1] = f.translation[1] * oneMinusT + tgt.translation[1] * t;
+			tgt.translation[2] = f.translation[2] * oneMinusT + tgt.translation[2] * t;
+
+			// Lerp scale
+			tgt.scale[0] = f.scale[0] * oneMinusT + tgt.scale[0] * t;
+			tgt.scale[1] = f.scale[1] * oneMinusT + tgt.scale[1] * t;
+			tgt.scale[2] = f.scale[2] * oneMinusT + tgt.scale[2] * t;
+
+			// Slerp rotation (use temp buffer to avoid aliasing — out and b must not overlap)
+			quat.slerp(this._tempQuatA as quat, f.rotation as quat, tgt.rotation as quat, t);
+			tgt.rotation.set(this._tempQuatA);
+		}
+	}
+
+	/** Reset blend counters. Does not free _blendFromTransforms (reused on next blend). */
+	private _clearBlendState(): void {
+		this._blendDuration = 0;
+		this._blendElapsed = 0;
+		for (const state of this._morphWeights.values()) {
+			state.hasBlendFrom = false;
+		}
+	}
+
+	/** Snapshot weights of all nodes driven by the current animation (called by blendTo). */
+	private _snapshotMorphWeights(): void {
+		for (const state of this._morphWeights.values()) {
+			state.hasBlendFrom = state.active;
+			if (!state.active) continue;
+			if (!state.blendFrom) state.blendFrom = new Float32Array(state.weights.length);
+			state.blendFrom.set(state.weights);
+		}
+	}
+
+	/** Lerp morph weights from the blendTo snapshot toward the evaluated weights by factor t. */
+	private _lerpMorphWeights(t: number): void {
+		const oneMinusT = 1 - t;
+		for (const state of this._morphWeights.values()) {
+			if (!state.active || !state.hasBlendFrom || !state.blendFrom) continue;
+			const from = state.blendFrom;
+			const weights = state.weights;
+			for (let i = 0; i < weights.length; i++) {
+				weights[i] = from[i] * oneMinusT + weights[i] * t;
+			}
+		}
+	}
+
+	// ========================================================================
+	// Internal: Animation Evaluation
 	// ========================================================================
-	// Internal: Animation Evaluation
-	// ========================================================================
 
 	/**
 	 * Cache the active channels for the current animation.
@@ -759,25 +1867,83 @@ export class AnimationController {
 	 */
 	private _cacheActiveChannels(anim: CachedAnimationData): void {
 		this._activeChannels = [];
+		this._activeNodeChannels = [];
+		this._activeMorphChannels = [];
+		for (const state of this._morphWeights.values()) {
+			state.active = false;
+		}
+
 		for (const channel of anim.channels) {
-			// Skip channels targeting non-joint nodes or invalid joints
-			if (channel.targetJointIndex < 0 || channel.targetJointIndex >= this._skinData.joints.length) {
+			// Morph target weights target the mesh's node (joint or not)
+			if (channel.targetPath === "weights") {
+				this._cacheMorphChannel(anim, channel);
 				continue;
 			}
+
 			const sampler = anim.samplers[channel.samplerIndex];
 			if (!sampler || sampler.input.length === 0) {
 				continue;
 			}
+
+			// Non-joint node (rigid animation)
+			if (channel.targetJointIndex < 0) {
+				const nodeIndex = channel.targetNode ? this._animatedNodeIndex.get(channel.targetNode) : undefined;
+				if (nodeIndex !== undefined) {
+					this._activeNodeChannels.push({ channel, sampler, nodeIndex });
+				}
+				continue;
+			}
+
+			// Skip channels targeting invalid joints
+			if (channel.targetJointIndex >= this._skeleton.joints.length) {
+				continue;
+			}
 			this._activeChannels.push({ channel, sampler });
 		}
-		debugLog(`Cached ${this._activeChannels.length} active channels`);
+		debugLog(`Cached ${this._activeChannels.length} active channels, ${this._activeNodeChannels.length} node channels, ${this._activeMorphChannels.length} morph channels`);
 	}
 
 	/**
-	 * Reset all joints to their bind pose transforms.
+	 * Cache a "weights" channel and allocate the target node's weight state on first use.
+	 * Target count comes from the node's mesh (falls back to values per keyframe).
+	 */
+	private _cacheMorphChannel(anim: CachedAnimationData, channel: AnimationChannelData): void {
+		const node = channel.targetNode;
+		const sampler = anim.samplers[channel.samplerIndex];
+		if (!node || !sampler || sampler.input.length === 0) return;
+
+		let state = this._morphWeights.get(node);
+		if (!state) {
+			const primitive = node.getMesh()?.listPrimitives()[0];
+			const valuesPerKey = sampler.interpolation === "CUBICSPLINE" ? 3 : 1;
+			const targetCount = primitive?.listTargets().length
+				?? Math.floor(sampler.output.length / (sampler.input.length * valuesPerKey));
+			if (targetCount === 0) return;
+
+			state = {
+				weights: new Float32Array(targetCount),
+				blendFrom: null,
+				active: false,
+				hasBlendFrom: false
+			};
+			// Node weights override mesh weights per glTF spec
+			const nodeWeights = node.getWeights();
+			const defaults = nodeWeights.length > 0 ? nodeWeights : (node.getMesh()?.getWeights() ?? []);
+			for (let i = 0; i < targetCount && i < defaults.length; i++) {
+				state.weights[i] = defaults[i];
+			}
+			this._morphWeights.set(node, state);
+		}
+
+		state.active = true;
+		this._activeMorphChannels.push({ channel, sampler });
+	}
+
+	/**
+	 * Reset all joints to their bind pose transforms and animated nodes to their rest TRS.
 	 */
 	private _resetToBindPose(): void {
-		const joints = this._skinData.joints;
+		const joints = this._skeleton.joints;
 		for (let i = 0; i < joints.length; i++) {
 			const joint = joints[i];
 			const transform = this._jointTransforms[i];
@@ -789,6 +1955,8 @@ export class AnimationController {
 			mat4.getRotation(transform.rotation as quat, bindMat as mat4);
 			mat4.getScaling(transform.scale as vec3, bindMat as mat4);
 		}
+
+		this._copyJointTransforms(this._nodeRestTransforms, this._nodeTransforms);
 	}
 
 	/**
@@ -797,37 +1965,108 @@ export class AnimationController {
 	 */
 	private _evaluateAnimation(time: number): void {
 		for (const { channel, sampler } of this._activeChannels) {
-			const jointIndex = channel.targetJointIndex;
-			const transform = this._jointTransforms[jointIndex];
-			const value = this._sampleChannel(sampler, time, channel.targetPath);
-
-			if (!value) continue;
-
-			switch (channel.targetPath) {
-				case "translation":
-					transform.translation[0] = value[0];
-					transform.translation[1] = value[1];
-					transform.translation[2] = value[2];
-					break;
-				case "rotation":
-					transform.rotation[0] = value[0];
-					transform.rotation[1] = value[1];
-					transform.rotation[2] = value[2];
-					transform.rotation[3] = value[3];
-					break;
-				case "scale":
-					transform.scale[0] = value[0];
-					transform.scale[1] = value[1];
-					transform.scale[2] = value[2];
-					break;
-				// "weights" (morph targets) not implemented
+			this._applyChannel(this._jointTransforms[channel.targetJointIndex], channel, sampler, time);
+		}
+
+		for (const { channel, sampler, nodeIndex } of this._activeNodeChannels) {
+			this._applyChannel(this._nodeTransforms[nodeIndex], channel, sampler, time);
+		}
+
+		for (const { channel, sampler } of this._activeMorphChannels) {
+			const state = this._morphWeights.get(channel.targetNode!);
+			if (state) {
+				this._sampleWeightsInto(sampler, time, state.weights);
 			}
 		}
 	}
 
+	/**
+	 * Sample a translation/rotation/scale channel and write it into a TRS transform.
+	 */
+	private _applyChannel(
+		transform: JointTransform,
+		channel: AnimationChannelData,
+		sampler: AnimationSamplerData,
+		time: number
+	): void {
+		const value = this._sampleChannel(sampler, time, channel.targetPath);
+		if (!value) return;
+
+		switch (channel.targetPath) {
+			case "translation":
+				transform.translation[0] = value[0];
+				transform.translation[1] = value[1];
+				transform.translation[2] = value[2];
+				break;
+			case "rotation":
+				transform.rotation[0] = value[0];
+				transform.rotation[1] = value[1];
+				transform.rotation[2] = value[2];
+				transform.rotation[3] = value[3];
+				break;
+			case "scale":
+				transform.scale[0] = value[0];
+				transform.scale[1] = value[1];
+				transform.scale[2] = value[2];
+				break;
+		}
+	}
+
+	/**
+	 * Sample a morph "weights" channel at a specific time into out (one value per target).
+	 * Handles LINEAR, STEP and CUBICSPLINE interpolation.
+	 */
+	private _sampleWeightsInto(sampler: AnimationSamplerData, time: number, out: Float32Array): void {
+		const times = sampler.input;
+		const values = sampler.output;
+		const count = out.length;
+		const last = times.length - 1;
+		const isCubic = sampler.interpolation === "CUBICSPLINE";
+		// Cubic spline keyframes store [inTangent, value, outTangent]
+		const stride = isCubic ? count * 3 : count;
+		const valueOffset = isCubic ? count : 0;
+
+		if (values.length < times.length * stride) return;
+
+		// Handle edge cases: before first or after last keyframe
+		if (time <= times[0] || last === 0) {
+			out.set(values.subarray(valueOffset, valueOffset + count));
+			return;
+		}
+		if (time >= times[last]) {
+			const offset = last * stride + valueOffset;
+			out.set(values.subarray(offset, offset + count));
+			return;
+		}
+
+		let i = 0;
+		while (i < last && time > times[i + 1]) {
+			i++;
+		}
+
+		const offset0 = i * stride + valueOffset;
+		if (sampler.interpolation === "STEP") {
+			out.set(values.subarray(offset0, offset0 + count));
+			return;
+		}
+
+		const dt = times[i + 1] - times[i];
+		const factor = (time - times[i]) / dt;
+		const offset1 = offset0 + stride;
+
+		if (isCubic) {
+			hermiteInto(values, offset0, offset0 + count, offset1, offset1 - count, count, factor, dt, out);
+			return;
+		}
+
+		for (let k = 0; k < count; k++) {
+			out[k] = values[offset0 + k] + (values[offset1 + k] - values[offset0 + k]) * factor;
+		}
+	}
+
 	/**
 	 * Sample an animation channel at a specific time.
-	 * Handles LINEAR and STEP interpolation for vec3 and quat values.
+	 * Handles LINEAR, STEP and CUBICSPLINE interpolation for vec3 and quat values.
 	 * @returns The interpolated value, or null if invalid
 	 */
 	private _sampleChannel(
@@ -843,6 +2082,10 @@ export class AnimationController {
 		// Determine value size (3 for translation/scale, 4 for rotation)
 		const valueSize = targetPath === "rotation" ? 4 : 3;
 
+		if (sampler.interpolation === "CUBICSPLINE") {
+			return this._sampleCubicSpline(times, values, time, valueSize);
+		}
+
 		// Handle edge cases: before first or after last keyframe
 		if (time <= times[0]) {
 			return this._extractValueInto(values, 0, valueSize, "A");
@@ -888,6 +2131,47 @@ export class AnimationController {
 		}
 	}
 
+	/**
+	 * Sample a CUBICSPLINE track (Hermite spline, glTF 2.0 Appendix C).
+	 * Each keyframe stores [inTangent, value, outTangent]; tangents are scaled by the keyframe delta.
+	 * Quaternion results are normalized.
+	 * @returns The interpolated value (temp buffer A), or null if invalid
+	 */
+	private _sampleCubicSpline(times: Float32Array, values: Float32Array, time: number, valueSize: number): Float32Array | null {
+		const stride = valueSize * 3;
+		const last = times.length - 1;
+		if (values.length < times.length * stride) return null;
+
+		const out = valueSize === 4 ? this._tempQuatA : this._tempVec3A;
+
+		// Handle edge cases: before first or after last keyframe (value element only)
+		if (time <= times[0] || time >= times[last]) {
+			const offset = (time <= times[0] ? 0 : last) * stride + valueSize;
+			for (let k = 0; k < valueSize; k++) {
+				out[k] = values[offset + k];
+			}
+			return out;
+		}
+
+		let i = 0;
+		while (i < last && time > times[i + 1]) {
+			i++;
+		}
+
+		const dt = times[i + 1] - times[i];
+		const factor = (time - times[i]) / dt;
+		const value0 = i * stride + valueSize;
+		const value1 = value0 + stride;
+
+		// Out-tangent of keyframe i, in-tangent of keyframe i + 1
+		hermiteInto(values, value0, value0 + valueSize, value1, value1 - valueSize, valueSize, factor, dt, out);
+
+		if (valueSize === 4) {
+			quat.normalize(out as quat, out as quat);
+		}
+		return out;
+	}
+
 	/**
 	 * Extract a value from the output array at a given keyframe index into specified buffer.
 	 * @param target The buffer to write into (A or B)
@@ -912,6 +2196,658 @@ export class AnimationController {
 		}
 	}
 
+	// ========================================================================
+	// Internal: Animation Events
+	// ========================================================================
+
+	/**
+	 * Fire the events passed while advancing from a time, unwrapping loops so every event fires once
+	 * per loop however large the step (frame skip, distance LOD).
+	 * Forward playback covers [from, to), reverse covers (to, from]; a loop boundary counts as time 0.
+	 * @param advance Signed time step (deltaTime * playbackRate)
+	 */
+	private _fireAnimationEvents(anim: CachedAnimationData, from: number, advance: number): void {
+		const events = this._events.get(anim.name);
+		if (!events || !this.onEvent || advance === 0) return;
+
+		const duration = anim.duration;
+		let time = from;
+		let remaining = Math.abs(advance);
+
+		if (advance > 0) {
+			while (remaining > 0) {
+				const end = time + remaining;
+				if (end < duration) {
+					this._fireEventsInRange(anim, from, events, time, end, true, false, false);
+					return;
+				}
+				// Reaching the end: a one-shot clip includes events at its last frame
+				if (!this._fireEventsInRange(anim, from, events, time, duration, true, !this.loop, false)) return;
+				if (!this.loop) return;
+				remaining -= duration - time;
+				time = 0;
+			}
+			return;
+		}
+
+		// After wrapping to the end, the end itself (= time 0) was already covered
+		let includeStart = true;
+		while (remaining > 0) {
+			const end = time - remaining;
+			if (end > 0) {
+				this._fireEventsInRange(anim, from, events, end, time, false, includeStart, true);
+				return;
+			}
+			if (!this._fireEventsInRange(anim, from, events, 0, time, true, includeStart, true)) return;
+			if (!this.loop) return;
+			remaining -= time;
+			time = duration;
+			includeStart = false;
+		}
+	}
+
+	/**
+	 * Fire the events between two times, in playback order.
+	 * Returns false, skipping the rest, once a handler changes playback.
+	 */
+	private _fireEventsInRange(
+		anim: CachedAnimationData,
+		from: number,
+		events: readonly AnimationEventData[],
+		low: number,
+		high: number,
+		includeLow: boolean,
+		includeHigh: boolean,
+		reverse: boolean
+	): boolean {
+		const count = events.length;
+		for (let i = 0; i < count; i++) {
+			const event = events[reverse ? count - 1 - i : i];
+			if (event.time < low || event.time > high) continue;
+			if ((event.time === low && !includeLow) || (event.time === high && !includeHigh)) continue;
+			this.onEvent!(event.name, anim.name);
+			if (!this._isPlaybackUnchanged(anim, from)) return false;
+		}
+		return true;
+	}
+
+	/** Whether the clip is still playing from the given time (event handlers may play, seek or stop) */
+	private _isPlaybackUnchanged(anim: CachedAnimationData, time: number): boolean {
+		return this._currentAnimation === anim && this._time === time && this._isPlaying && !this._isPaused;
+	}
+
+	// ========================================================================
+	// Internal: Animation Layers
+	// ========================================================================
+
+	/**
+	 * Find a layer by name or index, optionally creating it (up to MAX_ANIMATION_LAYERS).
+	 * Creating index n also creates any missing layers below it.
+	 */
+	private _getLayer(ref: AnimationLayerRef, create: boolean): AnimationLayer | null {
+		if (typeof ref === "number") {
+			const index = Math.floor(ref);
+			if (index < 0 || index >= MAX_ANIMATION_LAYERS) return null;
+			while (create && this._layers.length <= index) {
+				this._layers.push(this._createLayer(""));
+			}
+			return this._layers[index] ?? null;
+		}
+
+		const layer = this._layers.find(l => l.name === ref);
+		if (layer || !create || this._layers.length >= MAX_ANIMATION_LAYERS) return layer ?? null;
+
+		const created = this._createLayer(ref);
+		this._layers.push(created);
+		return created;
+	}
+
+	private _createLayer(name: string): AnimationLayer {
+		return {
+			name,
+			animation: null,
+			channels: [],
+			time: 0,
+			speed: 1,
+			loop: true,
+			isPlaying: false,
+			weight: 1,
+			weightTarget: 1,
+			weightRate: 0,
+			fade: 1,
+			fadeTarget: 1,
+			fadeRate: 0,
+			mask: null,
+			transforms: this._allocateTransforms(this._skeleton.joints.length),
+			blendFrom: null,
+			blendDuration: 0,
+			blendElapsed: 0
+		};
+	}
+
+	/** Switch a layer's clip and cache its joint channels */
+	private _setLayerAnimation(layer: AnimationLayer, anim: CachedAnimationData, startTime: number): void {
+		layer.animation = anim;
+		layer.time = Math.max(0, Math.min(startTime, anim.duration));
+		layer.isPlaying = true;
+		layer.channels = this._getJointChannels(anim);
+	}
+
+	/** Translation/rotation/scale channels of a clip that target skeleton joints */
+	private _getJointChannels(anim: CachedAnimationData): ActiveChannel[] {
+		const channels: ActiveChannel[] = [];
+		for (const channel of anim.channels) {
+			if (channel.targetPath === "weights") continue;
+			if (channel.targetJointIndex < 0 || channel.targetJointIndex >= this._skeleton.joints.length) continue;
+			const sampler = anim.samplers[channel.samplerIndex];
+			if (!sampler || sampler.input.length === 0) continue;
+			channels.push({ channel, sampler });
+		}
+		return channels;
+	}
+
+	private _clearLayerAnimation(layer: AnimationLayer): void {
+		layer.animation = null;
+		layer.channels = [];
+		layer.isPlaying = false;
+		layer.blendDuration = 0;
+		layer.fade = 1;
+		layer.fadeTarget = 1;
+		layer.fadeRate = 0;
+	}
+
+	/** True if any layer has a clip or any additive clip is playing */
+	private _hasActiveLayers(): boolean {
+		if (this._additives.size > 0) return true;
+		for (const layer of this._layers) {
+			if (layer.animation) return true;
+		}
+		return false;
+	}
+
+	/**
+	 * Advance layers and blend each one over the pose so far, per joint by weight * mask.
+	 * @param deltaTime Seconds to advance layer time, weights and crossfades
+	 */
+	private _applyLayers(deltaTime: number): void {
+		for (const layer of this._layers) {
+			const anim = layer.animation;
+			if (!anim) continue;
+
+			// Advance time (same looping rules as the base animation)
+			if (layer.isPlaying && anim.duration > 0) {
+				layer.time += deltaTime * layer.speed;
+				if (layer.loop) {
+					while (layer.time >= anim.duration) layer.time -= anim.duration;
+					while (layer.time < 0) layer.time += anim.duration;
+				} else if (layer.time >= anim.duration || layer.time < 0) {
+					layer.time = Math.max(0, Math.min(layer.time, anim.duration));
+					layer.isPlaying = false;
+				}
+			}
+
+			layer.weight = approach(layer.weight, layer.weightTarget, layer.weightRate, deltaTime);
+			layer.fade = approach(layer.fade, layer.fadeTarget, layer.fadeRate, deltaTime);
+			if (layer.fade <= 0 && layer.fadeTarget <= 0) {
+				this._clearLayerAnimation(layer);
+				continue;
+			}
+
+			// Layer pose: the pose so far, overwritten by the layer's channels
+			this._copyJointTransforms(this._jointTransforms, layer.transforms);
+			for (const { channel, sampler } of layer.channels) {
+				this._applyChannel(layer.transforms[channel.targetJointIndex], channel, sampler, layer.time);
+			}
+
+			if (layer.blendDuration > 0) {
+				layer.blendElapsed += deltaTime;
+				const t = Math.min(layer.blendElapsed / layer.blendDuration, 1);
+				this._lerpJointTransforms(layer.blendFrom!, layer.transforms, t);
+				if (t >= 1) layer.blendDuration = 0;
+			}
+
+			const weight = layer.weight * layer.fade;
+			if (weight > 0) {
+				this._blendLayerPose(layer, weight);
+			}
+		}
+	}
+
+	/** Blend the pose so far toward a layer's pose on its masked joints */
+	private _blendLayerPose(layer: AnimationLayer, weight: number): void {
+		const mask = layer.mask;
+		for (let i = 0; i < this._jointTransforms.length; i++) {
+			const t = mask ? mask[i] * weight : weight;
+			if (t <= 0) continue;
+
+			const dst = this._jointTransforms[i];
+			const src = layer.transforms[i];
+			vec3.lerp(dst.translation as vec3, dst.translation as vec3, src.translation as vec3, t);
+			vec3.lerp(dst.scale as vec3, dst.scale as vec3, src.scale as vec3, t);
+			quat.slerp(this._tempQuatA as quat, dst.rotation as quat, src.rotation as quat, t);
+			dst.rotation.set(this._tempQuatA);
+		}
+	}
+
+	// ========================================================================
+	// Internal: Additive Animations
+	// ========================================================================
+
+	/** Reference TRS for a clip's joints: bind pose, overwritten by the first keyframes for "first-frame" */
+	private _computeAdditiveReference(channels: ActiveChannel[], reference: AdditiveReference, out: JointTransform[]): void {
+		const joints = this._skeleton.joints;
+		for (let i = 0; i < joints.length; i++) {
+			const bindMat = joints[i].localBindTransform as mat4;
+			mat4.getTranslation(out[i].translation as vec3, bindMat);
+			mat4.getRotation(out[i].rotation as quat, bindMat);
+			mat4.getScaling(out[i].scale as vec3, bindMat);
+		}
+		if (reference === "first-frame") {
+			for (const { channel, sampler } of channels) {
+				this._applyChannel(out[channel.targetJointIndex], channel, sampler, sampler.input[0]);
+			}
+		}
+	}
+
+	/**
+	 * Advance additive clips and add their weighted offsets to the pose so far.
+	 * One-shot clips and faded-out clips are removed.
+	 */
+	private _applyAdditives(deltaTime: number): void {
+		for (const [name, clip] of this._additives) {
+			const duration = clip.animation.duration;
+			clip.time += deltaTime * clip.speed;
+			if (clip.loop && duration > 0) {
+				while (clip.time >= duration) clip.time -= duration;
+				while (clip.time < 0) clip.time += duration;
+			} else if (clip.time > duration || clip.time < 0) {
+				this._additives.delete(name);
+				continue;
+			}
+
+			clip.weight = approach(clip.weight, clip.weightTarget, clip.weightRate, deltaTime);
+			if (clip.stopping && clip.weight <= 0) {
+				this._additives.delete(name);
+				continue;
+			}
+			if (clip.weight <= 0) continue;
+
+			for (const { channel, sampler } of clip.channels) {
+				const value = this._sampleChannel(sampler, clip.time, channel.targetPath);
+				if (!value) continue;
+				additiveValue.set(value);
+				this._addJointOffset(
+					this._jointTransforms[channel.targetJointIndex],
+					clip.reference[channel.targetJointIndex],
+					channel.targetPath,
+					clip.weight
+				);
+			}
+		}
+	}
+
+	/**
+	 * Add the weighted offset of additiveValue from the reference to a joint transform.
+	 * Translation adds the difference, rotation post-multiplies ref^-1 * value, scale multiplies by value / ref.
+	 */
+	private _addJointOffset(transform: JointTransform, reference: JointTransform, path: AnimationTargetPath, weight: number): void {
+		switch (path) {
+			case "translation":
+				for (let i = 0; i < 3; i++) {
+					transform.translation[i] += (additiveValue[i] - reference.translation[i]) * weight;
+				}
+				break;
+			case "rotation":
+				quat.invert(additiveDelta, reference.rotation as quat);
+				quat.multiply(additiveDelta, additiveDelta, additiveValue as quat);
+				quat.slerp(additiveDelta, IDENTITY_QUAT, additiveDelta, weight);
+				quat.multiply(transform.rotation as quat, transform.rotation as quat, additiveDelta);
+				quat.normalize(transform.rotation as quat, transform.rotation as quat);
+				break;
+			case "scale":
+				for (let i = 0; i < 3; i++) {
+					const ratio = reference.scale[i] !== 0 ? additiveValue[i] / reference.scale[i] : 1;
+					transform.scale[i] *= 1 + (ratio - 1) * weight;
+				}
+				break;
+		}
+	}
+
+	// ========================================================================
+	// Internal: Pose Modifiers
+	// ========================================================================
+
+	/**
+	 * Composite animation layers, additive clips, then procedural modifiers, over the evaluated (and crossfaded) base pose.
+	 * The base pose is kept in _basePose so crossfades start from the base animation only.
+	 * @param deltaTime Seconds since the last update
+	 */
+	private _composePose(deltaTime: number): void {
+		this._poseDirty = false;
+		const hasLayers = this._hasActiveLayers();
+		if (!hasLayers && !this.hasPoseModifiers()) {
+			this._basePoseValid = false;
+			return;
+		}
+
+		if (!this._basePose) {
+			this._basePose = this._allocateTransforms(this._skeleton.joints.length);
+		}
+		this._copyJointTransforms(this._jointTransforms, this._basePose);
+		this._basePoseValid = true;
+
+		if (hasLayers) {
+			this._applyLayers(deltaTime);
+			this._applyAdditives(deltaTime);
+		}
+		if (this.hasPoseModifiers()) {
+			this._applyPoseModifiers(deltaTime);
+		}
+	}
+
+	/**
+	 * Apply bone overrides, then foot grounding and IK chains, then look-at constraints, to the pose.
+	 * @param deltaTime Seconds since the last update (look-at smoothing)
+	 */
+	private _applyPoseModifiers(deltaTime: number): void {
+		for (const [jointIndex, override] of this._boneOverrides) {
+			this._applyBoneOverride(this._jointTransforms[jointIndex], override);
+		}
+
+		this._applyGrounding();
+
+		for (const chain of this._ikChains.values()) {
+			if (!chain.enabled || !chain.hasTarget || chain.weight <= 0) continue;
+			if (chain.groundHeight === null) {
+				vec3.transformMat4(chain.solveTarget as vec3, chain.target as vec3, this._worldToModel as mat4);
+			}
+			this._computeJointWorldMatrices();
+			this._solveIkChain(chain);
+		}
+
+		for (const constraint of this._lookAts.values()) {
+			// Chains may share joints, so each constraint sees the result of the previous one
+			this._computeJointWorldMatrices();
+			this._applyLookAt(constraint, deltaTime);
+		}
+	}
+
+	/**
+	 * Compute targets for grounded IK chains and shift the grounding pelvis.
+	 * Offsets are measured from the animation's ground (world Z of the model origin).
+	 */
+	private _applyGrounding(): void {
+		let hasGrounded = false;
+		for (const chain of this._ikChains.values()) {
+			if (chain.enabled && chain.groundHeight !== null && chain.weight > 0) {
+				hasGrounded = true;
+				break;
+			}
+		}
+		if (!hasGrounded) return;
+
+		this._computeJointWorldMatrices();
+		const floorZ = this._modelToWorld[14];
+		let pelvisOffset = Infinity;
+
+		for (const chain of this._ikChains.values()) {
+			if (!chain.enabled || chain.groundHeight === null || chain.weight <= 0) continue;
+			const offset = (chain.groundHeight - floorZ) * chain.weight;
+			pelvisOffset = Math.min(pelvisOffset, offset);
+
+			// Animated end effector in world space, moved by the ground offset
+			this._getJointPosition(chain.end, ikTemp);
+			vec3.transformMat4(ikTemp, ikTemp, this._modelToWorld as mat4);
+			ikTemp[2] += chain.groundHeight - floorZ;
+			vec3.transformMat4(chain.solveTarget as vec3, ikTemp, this._worldToModel as mat4);
+		}
+
+		if (this._groundingPelvis < 0 || pelvisOffset === 0) return;
+
+		// World Z offset -> model space -> pelvis parent space (directions, no translation)
+		const w = this._worldToModel;
+		vec3.set(ikTemp, w[8] * pelvisOffset, w[9] * pelvisOffset, w[10] * pelvisOffset);
+		const parentIndex = this._skeleton.joints[this._groundingPelvis].parentIndex;
+		let parentMatrix: Float32Array | undefined;
+		if (parentIndex >= 0) {
+			parentMatrix = this._jointWorldMatrices.subarray(parentIndex * 16, parentIndex * 16 + 16);
+		} else {
+			parentMatrix = this._skins[this._skeleton.joints[this._groundingPelvis].skinIndex].rootAncestorTransform;
+		}
+		if (parentMatrix && mat4.invert(this._tempMat4B as mat4, parentMatrix as unknown as mat4)) {
+			const inv = this._tempMat4B;
+			const x = ikTemp[0], y = ikTemp[1], z = ikTemp[2];
+			ikTemp[0] = inv[0] * x + inv[4] * y + inv[8] * z;
+			ikTemp[1] = inv[1] * x + inv[5] * y + inv[9] * z;
+			ikTemp[2] = inv[2] * x + inv[6] * y + inv[10] * z;
+		}
+		vec3.add(
+			this._jointTransforms[this._groundingPelvis].translation as vec3,
+			this._jointTransforms[this._groundingPelvis].translation as vec3,
+			ikTemp
+		);
+	}
+
+	/**
+	 * Analytic two-bone IK: bend the middle joint so the chain spans the target distance,
+	 * swing the root toward the target, then twist around the root-target axis toward the pole.
+	 * Requires up-to-date joint world matrices.
+	 */
+	private _solveIkChain(chain: IkChain): void {
+		const a = this._getJointPosition(chain.root, ikA);
+		const b = this._getJointPosition(chain.mid, ikB);
+		const c = this._getJointPosition(chain.end, ikC);
+		const t = vec3.copy(ikT, chain.solveTarget as vec3);
+
+		const lab = vec3.distance(a, b);
+		const lcb = vec3.distance(c, b);
+		if (lab < 1e-6 || lcb < 1e-6) return;
+		const eps = (lab + lcb) * 1e-4;
+		const lat = Math.max(eps, Math.min(vec3.distance(t, a), lab + lcb - eps));
+
+		const rootTransform = this._jointTransforms[chain.root];
+		const midTransform = this._jointTransforms[chain.mid];
+		quat.copy(ikRootRotation, rootTransform.rotation as quat);
+		quat.copy(ikMidRotation, midTransform.rotation as quat);
+
+		// Current and desired interior angles (at the root and at the middle joint)
+		const ac = vec3.normalize(ikTemp, vec3.subtract(ikTemp, c, a));
+		const ab = vec3.normalize(this._tempVec3A as vec3, vec3.subtract(this._tempVec3A as vec3, b, a));
+		const acAb0 = safeAcos(vec3.dot(ac, ab));
+		const baBc0 = safeAcos(
+			vec3.dot(
+				vec3.normalize(this._tempVec3A as vec3, vec3.subtract(this._tempVec3A as vec3, a, b)),
+				vec3.normalize(this._tempVec3B as vec3, vec3.subtract(this._tempVec3B as vec3, c, b))
+			)
+		);
+		const acAb1 = safeAcos((lcb * lcb - lab * lab - lat * lat) / (-2 * lab * lat));
+		const baBc1 = safeAcos((lat * lat - lab * lab - lcb * lcb) / (-2 * lab * lcb));
+
+		// Bend axis: normal of the limb plane (a straight limb uses the pole, or any perpendicular)
+		vec3.cross(ikAxis0, ac, vec3.subtract(this._tempVec3A as vec3, b, a));
+		if (vec3.length(ikAxis0) < 1e-6 && chain.pole) {
+			vec3.transformMat4(this._tempVec3A as vec3, chain.pole as vec3, this._worldToModel as mat4);
+			vec3.cross(ikAxis0, ac, vec3.subtract(this._tempVec3A as vec3, this._tempVec3A as vec3, a));
+		}
+		if (vec3.length(ikAxis0) < 1e-6) {
+			vec3.cross(ikAxis0, ac, Math.abs(ac[0]) < 0.9 ? [1, 0, 0] : [0, 1, 0]);
+		}
+		vec3.normalize(ikAxis0, ikAxis0);
+
+		// Swing axis: from the current end direction to the target direction
+		const at = vec3.normalize(this._tempVec3B as vec3, vec3.subtract(this._tempVec3B as vec3, t, a));
+		const acAt0 = safeAcos(vec3.dot(ac, at));
+		vec3.cross(ikAxis1, ac, at);
+		const hasSwing = vec3.length(ikAxis1) > 1e-6;
+		vec3.normalize(ikAxis1, ikAxis1);
+
+		// Rotations in each joint's local space: local' = local * (angle about W^-1 * axis)
+		const rootWorld = this._getJointRotation(chain.root, this._tempQuatA);
+		const midWorld = this._getJointRotation(chain.mid, this._tempQuatB);
+		const delta = this._tempQuatC as quat;
+		const rotation = rootTransform.rotation as quat;
+
+		// (local * swing * bend: in model space the bend applies first, in the original limb plane)
+		quat.invert(rootWorld, rootWorld);
+		if (hasSwing) {
+			vec3.transformQuat(ikTemp, ikAxis1, rootWorld);
+			quat.setAxisAngle(delta, ikTemp, acAt0);
+			quat.multiply(rotation, rotation, delta);
+		}
+		vec3.transformQuat(ikTemp, ikAxis0, rootWorld);
+		quat.setAxisAngle(delta, ikTemp, acAb1 - acAb0);
+		quat.multiply(rotation, rotation, delta);
+
+		quat.invert(midWorld, midWorld);
+		vec3.transformQuat(ikTemp, ikAxis0, midWorld);
+		quat.setAxisAngle(delta, ikTemp, baBc1 - baBc0);
+		quat.multiply(midTransform.rotation as quat, midTransform.rotation as quat, delta);
+
+		// Twist around the root-target axis so the middle joint points toward the pole
+		if (chain.pole) {
+			this._computeJointWorldMatrices();
+			this._getJointPosition(chain.mid, ikB);
+			const pole = vec3.transformMat4(ikC, chain.pole as vec3, this._worldToModel as mat4);
+			const mid = vec3.subtract(ikB, ikB, a);
+			vec3.subtract(pole, pole, a);
+			vec3.scaleAndAdd(mid, mid, at, -vec3.dot(mid, at));
+			vec3.scaleAndAdd(pole, pole, at, -vec3.dot(pole, at));
+			if (vec3.length(mid) > 1e-6 && vec3.length(pole) > 1e-6) {
+				vec3.normalize(mid, mid);
+				vec3.normalize(pole, pole);
+				quat.rotationTo(delta, mid, pole);
+				const world = this._getJointRotation(chain.root, this._tempQuatA);
+				quat.invert(this._tempQuatB as quat, world);
+				quat.multiply(this._tempQuatB as quat, this._tempQuatB as quat, delta);
+				quat.multiply(this._tempQuatB as quat, this._tempQuatB as quat, world);
+				quat.multiply(rotation, rotation, this._tempQuatB as quat);
+			}
+		}
+
+		// Blend from the animated rotations by weight
+		quat.normalize(rotation, rotation);
+		quat.normalize(midTransform.rotation as quat, midTransform.rotation as quat);
+		if (chain.weight < 1) {
+			quat.slerp(rotation, ikRootRotation, rotation, chain.weight);
+			quat.slerp(midTransform.rotation as quat, ikMidRotation, midTransform.rotation as quat, chain.weight);
+		}
+	}
+
+	/** Model-space position of a joint (from the joint world matrices) */
+	private _getJointPosition(jointIndex: number, out: vec3): vec3 {
+		const offset = jointIndex * 16;
+		return vec3.set(out, this._jointWorldMatrices[offset + 12], this._jointWorldMatrices[offset + 13], this._jointWorldMatrices[offset + 14]);
+	}
+
+	/** Model-space rotation of a joint (from the joint world matrices, scale removed) */
+	private _getJointRotation(jointIndex: number, out: Float32Array): quat {
+		const offset = jointIndex * 16;
+		return mat4.getRotation(out as quat, this._jointWorldMatrices.subarray(offset, offset + 16) as mat4);
+	}
+
+	/** Blend a joint's animated TRS toward its overridden values. */
+	private _applyBoneOverride(transform: JointTransform, override: BoneOverride): void {
+		const { translation, rotation, scale } = override;
+
+		if (translation) {
+			const v = translation.value;
+			const w = translation.weight;
+			for (let k = 0; k < 3; k++) {
+				const target = translation.additive ? transform.translation[k] + v[k] : v[k];
+				transform.translation[k] += (target - transform.translation[k]) * w;
+			}
+		}
+
+		if (rotation) {
+			const target = this._tempQuatB as quat;
+			if (rotation.additive) {
+				quat.multiply(target, transform.rotation as quat, rotation.value as quat);
+			} else {
+				quat.copy(target, rotation.value as quat);
+			}
+			quat.slerp(this._tempQuatA as quat, transform.rotation as quat, target, rotation.weight);
+			quat.normalize(transform.rotation as quat, this._tempQuatA as quat);
+		}
+
+		if (scale) {
+			const v = scale.value;
+			const w = scale.weight;
+			for (let k = 0; k < 3; k++) {
+				const target = scale.additive ? transform.scale[k] * v[k] : v[k];
+				transform.scale[k] += (target - transform.scale[k]) * w;
+			}
+		}
+	}
+
+	/**
+	 * Rotate a look-at chain so the end joint's axis turns toward the target.
+	 * The total rotation (limited to maxAngle) is split evenly across the chain; each joint
+	 * applies its share in model space, so the end axis turns by the whole rotation.
+	 * Requires up-to-date joint world matrices.
+	 */
+	private _applyLookAt(constraint: LookAtConstraint, deltaTime: number): void {
+		const endJoint = constraint.joints[constraint.joints.length - 1];
+		const endOffset = endJoint * 16;
+		const m = this._jointWorldMatrices;
+
+		// Animated aim direction of the end joint (model space)
+		const axis = constraint.axis;
+		const aim = this._tempVec3A as vec3;
+		vec3.set(
+			aim,
+			m[endOffset] * axis[0] + m[endOffset + 4] * axis[1] + m[endOffset + 8] * axis[2],
+			m[endOffset + 1] * axis[0] + m[endOffset + 5] * axis[1] + m[endOffset + 9] * axis[2],
+			m[endOffset + 2] * axis[0] + m[endOffset + 6] * axis[1] + m[endOffset + 10] * axis[2]
+		);
+		vec3.normalize(aim, aim);
+
+		// Direction from the end joint to the target (model space)
+		const desired = this._tempVec3B as vec3;
+		vec3.transformMat4(desired, constraint.target as vec3, this._worldToModel as mat4);
+		desired[0] -= m[endOffset + 12];
+		desired[1] -= m[endOffset + 13];
+		desired[2] -= m[endOffset + 14];
+		if (vec3.length(desired) < 1e-6) return;
+		vec3.normalize(desired, desired);
+
+		// Smooth the look direction (frame-rate independent)
+		const direction = constraint.direction as vec3;
+		if (!constraint.hasDirection) {
+			vec3.copy(direction, aim);
+			constraint.hasDirection = true;
+		}
+		const t = constraint.smoothing > 0 ? 1 - Math.exp(-deltaTime / constraint.smoothing) : 1;
+		vec3.lerp(direction, direction, desired, t);
+		if (vec3.length(direction) < 1e-6) {
+			vec3.copy(direction, desired);
+		}
+		vec3.normalize(direction, direction);
+
+		// Total rotation, limited to maxAngle and scaled by weight
+		// (desired is no longer needed and holds the rotation axis)
+		const delta = quat.rotationTo(this._tempQuatC as quat, aim, direction);
+		const angle = quat.getAxisAngle(desired, delta);
+		if (angle > constraint.maxAngle) {
+			quat.setAxisAngle(delta, desired, constraint.maxAngle);
+		}
+		quat.slerp(delta, IDENTITY_QUAT, delta, constraint.weight / constraint.joints.length);
+
+		// Rotating every joint by the same model-space delta: L' = L * (W^-1 * delta * W)
+		const world = this._tempQuatA as quat;
+		const local = this._tempQuatB as quat;
+		for (const jointIndex of constraint.joints) {
+			const offset = jointIndex * 16;
+			mat4.getRotation(world, m.subarray(offset, offset + 16) as mat4);
+			quat.invert(local, world);
+			quat.multiply(local, local, delta);
+			quat.multiply(local, local, world);
+
+			const rotation = this._jointTransforms[jointIndex].rotation as quat;
+			quat.multiply(rotation, rotation, local);
+			quat.normalize(rotation, rotation);
+		}
+	}
+
 	// ========================================================================
 	// Internal: World Matrix Computation
 	// ========================================================================
@@ -925,7 +2861,7 @@ export class AnimationController {
 		this._jointComputed.fill(0);
 
 		// Compute world matrix for each joint (recursively ensures parents are computed first)
-		for (let i = 0; i < this._skinData.joints.length; i++) {
+		for (let i = 0; i < this._skeleton.joints.length; i++) {
 			this._computeJointWorldMatrix(i);
 		}
 	}
@@ -938,7 +2874,7 @@ export class AnimationController {
 		// Skip if already computed this frame
 		if (this._jointComputed[jointIndex]) return;
 
-		const joint = this._skinData.joints[jointIndex];
+		const joint = this._skeleton.joints[jointIndex];
 		const transform = this._jointTransforms[jointIndex];
 
 		// Get destination subarray for this joint's world matrix
@@ -972,10 +2908,11 @@ export class AnimationController {
 				transform.scale as vec3
 			);
 
-			if (this._skinData.rootAncestorTransform) {
+			const rootAncestorTransform = this._skins[joint.skinIndex].rootAncestorTransform;
+			if (rootAncestorTransform) {
 				mat4.multiply(
 					worldMat as mat4,
-					this._skinData.rootAncestorTransform as unknown as mat4,
+					rootAncestorTransform as unknown as mat4,
 					this._tempMat4A as mat4
 				);
 			} else {
@@ -992,22 +2929,26 @@ export class AnimationController {
 	// ========================================================================
 
 	/**
-	 * Compute bone matrices (world * inverseBindMatrix) for all joints.
+	 * Compute bone matrices (world * inverseBindMatrix) for every joint of every skin.
 	 * These are the final matrices used for skinning.
 	 */
 	private _computeBoneMatrices(): void {
-		const joints = this._skinData.joints;
-		const ibm = this._skinData.inverseBindMatrices;
-
-		for (let i = 0; i < joints.length; i++) {
-			const offset = i * 16;
-			const worldMat = this._jointWorldMatrices.subarray(offset, offset + 16);
-			const invBind = ibm.subarray(offset, offset + 16);
-			const boneMat = this._boneMatrices.subarray(offset, offset + 16);
-
-			// boneMatrix = worldMatrix * inverseBindMatrix
-			// Any ancestor scale/rotation mismatch is handled by the worker post-transform
-			mat4.multiply(boneMat as mat4, worldMat as mat4, invBind as mat4);
+		for (let s = 0; s < this._skins.length; s++) {
+			const ibm = this._skins[s].inverseBindMatrices;
+			const jointMap = this._skeleton.skinJointMaps[s];
+			const boneMatrices = this._boneMatrices[s];
+
+			for (let i = 0; i < jointMap.length; i++) {
+				const offset = i * 16;
+				const worldOffset = jointMap[i] * 16;
+				const worldMat = this._jointWorldMatrices.subarray(worldOffset, worldOffset + 16);
+				const invBind = ibm.subarray(offset, offset + 16);
+				const boneMat = boneMatrices.subarray(offset, offset + 16);
+
+				// boneMatrix = worldMatrix * inverseBindMatrix
+				// Any ancestor scale/rotation mismatch is handled by the worker post-transform
+				mat4.multiply(boneMat as mat4, worldMat as mat4, invBind as mat4);
+			}
 		}
 	}
 
@@ -1024,6 +2965,35 @@ export class AnimationController {
 		}
 	}
 
+	/**
+	 * Get the bind pose to skin for a mesh, with morph targets applied if any weight is active.
+	 * Morphed buffers are pre-allocated per mesh; otherwise returns the original arrays.
+	 */
+	private _getMorphedBindPose(meshIndex: number): { positions: Float32Array; normals: Float32Array | null | undefined } {
+		const meshData = this._meshes[meshIndex];
+		const morph = meshData.morphData;
+		const morphedPositions = this._morphedPositions[meshIndex];
+		if (!morph || !morphedPositions) {
+			return { positions: meshData.originalPositions, normals: meshData.originalNormals };
+		}
+
+		const morphWeights = this.getMorphWeights(morph.node) ?? meshData.morphWeights;
+		if (!morphWeights || !hasActiveMorphWeights(morphWeights)) {
+			return { positions: meshData.originalPositions, normals: meshData.originalNormals };
+		}
+
+		applyMorphDeltas(meshData.originalPositions, morph.positionDeltas, morphWeights, morph.targetCount, morphedPositions);
+
+		let normals = meshData.originalNormals;
+		const morphedNormals = this._morphedNormals[meshIndex];
+		if (normals && morph.normalDeltas && morphedNormals) {
+			applyMorphDeltas(normals, morph.normalDeltas, morphWeights, morph.targetCount, morphedNormals);
+			normals = morphedNormals;
+		}
+
+		return { positions: morphedPositions, normals };
+	}
+
 	/**
 	 * Apply CPU skinning to a single mesh.
 	 * Transforms each vertex by weighted blend of up to 4 bone matrices.
@@ -1031,8 +3001,7 @@ export class AnimationController {
 	 */
 	private _applySkinning(meshIndex: number): void {
 		const meshData = this._meshes[meshIndex];
-		const positions = meshData.originalPositions;
-		const normals = meshData.originalNormals;
+		const { positions, normals } = this._getMorphedBindPose(meshIndex);
 		const skinning = meshData.skinningData;
 		const output = this._skinnedPositions[meshIndex];
 		const normalOutput = this._skinnedNormals[meshIndex];
@@ -1041,6 +3010,9 @@ export class AnimationController {
 		const joints = skinning.joints;
 		const weights = skinning.weights;
 		const hasNormals = normals && normalOutput;
+		// Joint indices are local to the mesh's skin
+		const m = this._boneMatrices[skinning.skinIndex];
+		const skinJointCount = this._skins[skinning.skinIndex].joints.length;
 
 		for (let v = 0; v < vertexCount; v++) {
 			const posOffset = v * 3;
@@ -1070,13 +3042,12 @@ export class AnimationController {
 				const jointIdx = joints[skinOffset + j];
 
 				// Defensive check (review suggestion)
-				if (jointIdx >= this._skinData.joints.length) {
+				if (jointIdx >= skinJointCount) {
 					debugWarn(`Invalid joint index ${jointIdx} for vertex ${v}`);
 					continue;
 				}
 
 				const boneOffset = jointIdx * 16;
-				const m = this._boneMatrices;
 
 				// Transform position by bone matrix and accumulate with weight
 				// result = boneMatrix * position (mat4 * vec3, with w=1)
@@ -0,0 +1,137 @@
+import { vec3, mat4 } from "gl-matrix";
+import type { GltfMesh } from "./GltfMesh.js";
+import type { GltfNode } from "./GltfNode.js";
+
+/**
+ * Physics collider geometry from model meshes (for Rapier3DPhysics or script).
+ * Shapes are in model space; the instance moves them to its origin and applies its scale.
+ *
+ * Nodes named COL_* (triangle mesh) or UCX_* (convex hull) are dedicated collision geometry:
+ * their meshes, and meshes of their descendants, are hidden from rendering at load.
+ */
+
+/** Collider shape: triangle mesh (static geometry) or convex hull of the vertices */
+export type ColliderType = "trimesh" | "convex";
+
+/**
+ * Geometry to build colliders from.
+ * - trimesh: one triangle mesh of all rendered meshes
+ * - convex-mesh: one convex hull per rendered mesh (primitive)
+ * - convex-node: one convex hull per node with rendered meshes
+ * - collision-nodes: one shape per COL_ / UCX_ node
+ * - auto: collision-nodes if the model has any, otherwise trimesh
+ */
+export type ColliderSource = "auto" | "trimesh" | "convex-mesh" | "convex-node" | "collision-nodes";
+
+/** Collider shape data, laid out for Rapier's ColliderDesc.trimesh() / ColliderDesc.convexHull() */
+export interface ColliderData {
+	/** Shape type */
+	type: ColliderType;
+	/** Source node name ("" for the merged trimesh) */
+	node: string;
+	/** Vertex positions (x, y, z per vertex). Convex shapes list unique points; the hull is built by the physics engine */
+	vertices: Float32Array;
+	/** Triangle indices (trimesh only) */
+	indices: Uint32Array | null;
+}
+
+/** Meshes that make up one collider shape */
+export interface ColliderGroup {
+	type: ColliderType;
+	meshes: GltfMesh[];
+	node: string;
+}
+
+/** Node name prefixes marking collision geometry */
+const COLLISION_PREFIXES: [string, ColliderType][] = [
+	["COL_", "trimesh"],
+	["UCX_", "convex"]
+];
+
+/** Collider type for a collision node name, or null if the name has no collision prefix */
+export function getCollisionNodeType(name: string): ColliderType | null {
+	for (const [prefix, type] of COLLISION_PREFIXES) {
+		if (name.startsWith(prefix)) return type;
+	}
+	return null;
+}
+
+/** Nearest collision node at or above a node, or null if the node isn't collision geometry */
+export function findCollisionNode(node: GltfNode | null): GltfNode | null {
+	while (node) {
+		if (getCollisionNodeType(node.name)) return node;
+		node = node.parent;
+	}
+	return null;
+}
+
+/**
+ * Mesh positions in model space.
+ * Baked meshes already are; runtime-transformed meshes use their node's current world matrix.
+ * Skinned meshes use the bind pose and morph targets are ignored.
+ */
+function getModelSpacePositions(mesh: GltfMesh): Float32Array | null {
+	const positions = mesh.originalPositions;
+	if (!positions || !mesh.usesRuntimeTransform || !mesh.parentNode) return positions;
+
+	const matrix = mesh.parentNode.getWorldMatrix() as unknown as mat4;
+	const out = new Float32Array(positions.length);
+	const v = vec3.create();
+	for (let i = 0; i < positions.length; i += 3) {
+		vec3.set(v, positions[i], positions[i + 1], positions[i + 2]);
+		vec3.transformMat4(v, v, matrix);
+		out[i] = v[0];
+		out[i + 1] = v[1];
+		out[i + 2] = v[2];
+	}
+	return out;
+}
+
+/** Whether buildCollider() would return a shape for the meshes (without building it) */
+export function hasColliderGeometry(type: ColliderType, meshes: GltfMesh[]): boolean {
+	return meshes.some(mesh => (mesh.originalPositions?.length ?? 0) > 0 && (type === "convex" || mesh.indices !== null));
+}
+
+/**
+ * Build one collider from a group of meshes.
+ * @returns Collider, or null if the meshes have no geometry
+ */
+export function buildCollider(type: ColliderType, meshes: GltfMesh[], node: string): ColliderData | null {
+	const vertices: number[] = [];
+	const indices: number[] = [];
+	// Convex hulls only need each point once (meshes split vertices along UV and normal seams)
+	const seen = new Set<string>();
+
+	for (const mesh of meshes) {
+		const positions = getModelSpacePositions(mesh);
+		if (!positions) continue;
+
+		if (type === "convex") {
+			for (let i = 0; i < positions.length; i += 3) {
+				const key = `${positions[i]},${positions[i + 1]},${positions[i + 2]}`;
+				if (seen.has(key)) continue;
+				seen.add(key);
+				vertices.push(positions[i], positions[i + 1], positions[i + 2]);
+			}
+			continue;
+		}
+
+		const meshIndices = mesh.indices;
+		if (!meshIndices) continue;
+		const base = vertices.length / 3;
+		for (let i = 0; i < positions.length; i++) {
+			vertices.push(positions[i]);
+		}
+		for (let i = 0; i < meshIndices.length; i++) {
+			indices.push(base + meshIndices[i]);
+		}
+	}
+
+	if (vertices.length === 0) return null;
+	return {
+		type,
+		node,
+		vertices: new Float32Array(vertices),
+		indices: type === "trimesh" ? new Uint32Array(indices) : null
+	};
+}
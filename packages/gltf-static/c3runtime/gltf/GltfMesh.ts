@@ -1,8 +1,9 @@
 import { vec3, mat4, mat3 } from "gl-matrix";
 import type { TransformWorkerPool } from "./TransformWorkerPool.js";
-import type { MeshSkinningData, CachedSkinData } from "./types.js";
+import type { MeshSkinningData, CachedSkinData, MeshMorphData } from "./types.js";
 import type { GltfNode } from "./GltfNode.js";
 import { calculateMeshLighting, getVersion as getLightingVersion } from "./Lighting.js";
+import { applyMorphDeltas, hasActiveMorphWeights } from "./MorphTargets.js";
 
 const LOG_PREFIX = "[GltfMesh]";
 
@@ -10,6 +11,18 @@ function debugLog(...args: unknown[]): void {
 	if (globalThis.gltfDebug) console.log(LOG_PREFIX, ...args);
 }
 
+/**
+ * Wrap a texture-transformed UV into [0,1] (fract) so it stays inside its atlas sub-rect.
+ * Whole tiles end at the far edge (2 -> 1, not 0) so a UV range like [0,2] keeps its extent.
+ */
+function wrapTexCoord(value: number): number {
+	const wrapped = value - Math.floor(value);
+	return wrapped === 0 && value > 0 ? 1 : wrapped;
+}
+
+/** glTF material alpha mode */
+export type MeshAlphaMode = "OPAQUE" | "MASK" | "BLEND";
+
 /**
  * Represents a single mesh primitive with GPU-uploaded data.
  * Does NOT own texture - just holds reference (Model owns textures).
@@ -27,7 +40,9 @@ export class GltfMesh {
 	private _originalNormals: Float32Array | null = null;
 	private _transformedNormals: Float32Array | null = null;
 	private _sourceColors: Float32Array | null = null;
+	private _hasVertexAlpha: boolean = false;  // Any source alpha < 1 (after alpha mode resolve)
 	private _originalTexCoords: Float32Array | null = null;
+	private _hasTextureTransform: boolean = false;  // UVs have a KHR_texture_transform baked in
 	private _vertexCount: number = 0;
 	private _hasNormals: boolean = false;
 
@@ -55,6 +70,13 @@ export class GltfMesh {
 	private _skinningData: MeshSkinningData | null = null;
 	private _skinData: CachedSkinData | null = null;
 
+	// Morph targets (deltas reference shared cached data, weights are per instance)
+	private _morphData: MeshMorphData | null = null;
+	private _morphWeights: Float32Array | null = null;
+	private _morphDirty: boolean = false;
+	private _morphedPositions: Float32Array | null = null;
+	private _morphedNormals: Float32Array | null = null;
+
 	// Debug: track mesh ID for logging
 	private static _nextId: number = 0;
 	private _id: number;
@@ -62,12 +84,29 @@ export class GltfMesh {
 	// Node name from glTF (for identification)
 	private _name: string = "";
 
+	// glTF mesh name (several primitives and nodes can share one mesh)
+	private _meshName: string = "";
+
+	// Custom properties from the glTF mesh (references the cached document, read-only)
+	private _extras: Record<string, unknown> = {};
+
 	// Visibility flag (controls rendering, not processing)
 	private _visible: boolean = true;
 
 	// Parent node in scene graph (for transform inheritance)
 	private _parentNode: GltfNode | null = null;
 
+	// Material render state (from glTF material)
+	private _alphaMode: MeshAlphaMode = "OPAQUE";
+	private _alphaCutoff: number = 0.5;
+	private _doubleSided: boolean = false;
+
+	// Squared camera distance of the mesh center (BLEND sorting, set by updateSortDepth)
+	private _sortDepth: number = 0;
+	// Center of the current vertex bounds, recomputed only after positions change
+	private _boundsCenter: Float32Array = new Float32Array(3);
+	private _boundsCenterDirty: boolean = true;
+
 	constructor() {
 		this._id = GltfMesh._nextId++;
 	}
@@ -87,6 +126,26 @@ export class GltfMesh {
 		this._name = value;
 	}
 
+	/** Get glTF mesh name */
+	get meshName(): string {
+		return this._meshName;
+	}
+
+	/** Set glTF mesh name */
+	set meshName(value: string) {
+		this._meshName = value;
+	}
+
+	/** glTF mesh extras (custom properties; don't modify) */
+	get extras(): Record<string, unknown> {
+		return this._extras;
+	}
+
+	/** Set glTF mesh extras */
+	set extras(value: Record<string, unknown>) {
+		this._extras = value;
+	}
+
 	/** Whether this mesh is visible (rendered) */
 	get visible(): boolean {
 		return this._visible;
@@ -107,6 +166,36 @@ export class GltfMesh {
 		this._parentNode = node;
 	}
 
+	/** Material alpha mode (BLEND meshes are drawn after opaque ones, back to front) */
+	get alphaMode(): MeshAlphaMode {
+		return this._alphaMode;
+	}
+
+	/** Alpha cutoff for MASK mode */
+	get alphaCutoff(): number {
+		return this._alphaCutoff;
+	}
+
+	/** Whether back faces are drawn (culling disabled) */
+	get doubleSided(): boolean {
+		return this._doubleSided;
+	}
+
+	/** Squared distance to the camera computed by the last updateSortDepth() */
+	get sortDepth(): number {
+		return this._sortDepth;
+	}
+
+	/**
+	 * Set material render state. Call before create() so vertex alpha is resolved on upload.
+	 * @param alphaMode OPAQUE ignores alpha, MASK snaps vertex alpha to 0/1 at the cutoff, BLEND keeps it
+	 */
+	setMaterialState(alphaMode: MeshAlphaMode, alphaCutoff: number, doubleSided: boolean): void {
+		this._alphaMode = alphaMode;
+		this._alphaCutoff = alphaCutoff;
+		this._doubleSided = doubleSided;
+	}
+
 	/** Get vertex count */
 	get vertexCount(): number {
 		return this._vertexCount;
@@ -117,6 +206,16 @@ export class GltfMesh {
 		return this._originalPositions;
 	}
 
+	/** Get positions as last uploaded (world space once transformed, null if not created) */
+	get currentPositions(): Float32Array | null {
+		return this._meshData?.positions ?? null;
+	}
+
+	/** Get triangle indices (as uploaded, null if not created) */
+	get indices(): Uint16Array | Uint32Array | null {
+		return this._meshData?.indices ?? null;
+	}
+
 	/** Get original normals */
 	get originalNormals(): Float32Array | null {
 		return this._originalNormals;
@@ -156,6 +255,119 @@ export class GltfMesh {
 		this._skinData = skinData;
 	}
 
+	/** Whether this mesh has morph targets */
+	get hasMorphTargets(): boolean {
+		return this._morphData !== null;
+	}
+
+	/** Get morph target deltas (shared cached data) */
+	get morphData(): MeshMorphData | null {
+		return this._morphData;
+	}
+
+	/** Get live morph weights for this mesh (one per target) */
+	get morphWeights(): Float32Array | null {
+		return this._morphWeights;
+	}
+
+	/**
+	 * Whether positions stay in node-local space and are transformed on the main thread.
+	 * True for non-skinned meshes under animated joints, animated/dynamic nodes or with morph targets.
+	 */
+	get usesRuntimeTransform(): boolean {
+		if (this.isSkinned) return false;
+		return this._morphData !== null || (this._parentNode?.hasAnimatedAncestor() ?? false);
+	}
+
+	/**
+	 * Set morph target data for this mesh. Weights start at the glTF mesh defaults.
+	 * References are to shared cached data - not owned by this mesh.
+	 */
+	setMorphData(morphData: MeshMorphData | null): void {
+		this._morphData = morphData;
+		this._morphWeights = morphData ? new Float32Array(morphData.defaultWeights) : null;
+		this._morphedPositions = null;
+		this._morphedNormals = null;
+		this._morphDirty = morphData !== null;
+	}
+
+	/**
+	 * Find a morph target index by name.
+	 * @returns Target index, or -1 if not found
+	 */
+	getMorphTargetIndex(name: string): number {
+		return this._morphData ? this._morphData.targetNames.indexOf(name) : -1;
+	}
+
+	/**
+	 * Set a single morph target weight.
+	 * @returns true if the target exists
+	 */
+	setMorphWeight(index: number, weight: number): boolean {
+		if (!this._morphWeights || index < 0 || index >= this._morphWeights.length) return false;
+		if (this._morphWeights[index] !== weight) {
+			this._morphWeights[index] = weight;
+			this._morphDirty = true;
+		}
+		return true;
+	}
+
+	/**
+	 * Copy all morph weights (e.g. from an animation "weights" channel).
+	 * Extra values are ignored; missing values keep their current weight.
+	 */
+	setMorphWeights(weights: Float32Array): void {
+		if (!this._morphWeights) return;
+		const count = Math.min(weights.length, this._morphWeights.length);
+		for (let i = 0; i < count; i++) {
+			if (this._morphWeights[i] !== weights[i]) {
+				this._morphWeights[i] = weights[i];
+				this._morphDirty = true;
+			}
+		}
+	}
+
+	/**
+	 * Get base positions for runtime transforms: morphed positions if any weight is active,
+	 * otherwise the original positions. Recomputes the blend only when weights changed.
+	 */
+	private _getBasePositions(): Float32Array | null {
+		if (this._morphDirty) this._applyMorphTargets();
+		return this._morphedPositions ?? this._originalPositions;
+	}
+
+	/** Get base normals for runtime transforms (morphed if any weight is active). */
+	private _getBaseNormals(): Float32Array | null {
+		if (this._morphDirty) this._applyMorphTargets();
+		return this._morphedNormals ?? this._originalNormals;
+	}
+
+	/**
+	 * Blend morph target deltas into the morphed position/normal buffers.
+	 * Clears the buffers (falls back to originals) when all weights are zero.
+	 */
+	private _applyMorphTargets(): void {
+		this._morphDirty = false;
+		const morph = this._morphData;
+		if (!morph || !this._originalPositions || !hasActiveMorphWeights(this._morphWeights)) {
+			this._morphedPositions = null;
+			this._morphedNormals = null;
+			return;
+		}
+
+		if (!this._morphedPositions) {
+			this._morphedPositions = new Float32Array(this._originalPositions.length);
+		}
+		applyMorphDeltas(this._originalPositions, morph.positionDeltas, this._morphWeights!, morph.targetCount, this._morphedPositions);
+
+		if (morph.normalDeltas && this._originalNormals) {
+			if (!this._morphedNormals) {
+				this._morphedNormals = new Float32Array(this._originalNormals.length);
+			}
+			applyMorphDeltas(this._originalNormals, morph.normalDeltas, this._morphWeights!, morph.targetCount, this._morphedNormals);
+		}
+	}
+
 	/**
 	 * Create GPU buffers and upload mesh data.
 	 * Positions are stored for later transform updates.
@@ -203,6 +415,7 @@ export class GltfMesh {
 		// Upload positions (x, y, z per vertex)
 		this._meshData.positions.set(positions);
 		this._meshData.markDataChanged("positions", 0, this._vertexCount);
+		this._boundsCenterDirty = true;
 
 		// Upload UVs (u, v per vertex) - default to 0,0 if not present
 		if (texCoords) {
@@ -243,6 +456,32 @@ export class GltfMesh {
 			}
 		}
 
+		// Resolve vertex alpha for the material alpha mode (the renderer has no alpha test).
+		// A textured MASK mesh keeps its vertex alpha: the cutoff applies to the product, and is baked into
+		// the texture when it is loaded, so snapping here as well would cut twice.
+		if (this._sourceColors && this._alphaMode !== "BLEND") {
+			const colors = this._sourceColors;
+			const opaque = this._alphaMode === "OPAQUE";
+			if (opaque || !texture) {
+				for (let i = 3; i < colors.length; i += 4) {
+					colors[i] = opaque || colors[i] >= this._alphaCutoff ? 1 : 0;
+				}
+			}
+		}
+		this._hasVertexAlpha = false;
+		if (this._sourceColors) {
+			for (let i = 3; i < this._sourceColors.length; i += 4) {
+				if (this._sourceColors[i] < 1) {
+					this._hasVertexAlpha = true;
+					break;
+				}
+			}
+		}
+		if (this._hasVertexAlpha) {
+			this._applyVertexAlpha(this._meshData.colors);
+			this._meshData.markDataChanged("colors", 0, this._vertexCount);
+		}
+
 		this._texture = texture;
 	}
 
@@ -321,7 +560,8 @@ export class GltfMesh {
 
 	/**
 	 * Register this skinned mesh with a worker pool for async CPU skinning.
-	 * Call after create() and setSkinningData(). Transfers positions, normals, joints, weights to worker.
+	 * Call after create(), setSkinningData() and setMorphData(). Transfers positions, normals,
+	 * joints, weights and morph deltas to worker.
 	 */
 	registerSkinnedWithPool(pool: TransformWorkerPool): void {
 		if (this._isRegisteredSkinnedWithPool) return;
@@ -336,8 +576,13 @@ export class GltfMesh {
 			? new Uint16Array(this._skinningData.joints)
 			: new Uint8Array(this._skinningData.joints);
 		const weightsCopy = new Float32Array(this._skinningData.weights);
+		const morphCopy = this._morphData ? {
+			targetCount: this._morphData.targetCount,
+			positionDeltas: new Float32Array(this._morphData.positionDeltas),
+			normalDeltas: this._morphData.normalDeltas ? new Float32Array(this._morphData.normalDeltas) : null
+		} : null;
 
-		pool.registerSkinnedMesh(this._id, positionsCopy, normalsCopy, jointsCopy, weightsCopy, (skinnedPositions, skinnedNormals, skinnedColors) => {
+		pool.registerSkinnedMesh(this._id, positionsCopy, normalsCopy, jointsCopy, weightsCopy, morphCopy, (skinnedPositions, skinnedNormals, skinnedColors) => {
 			this._applyPositions(skinnedPositions);
 			if (skinnedNormals) {
 				this._applyNormals(skinnedNormals);
@@ -359,9 +604,9 @@ export class GltfMesh {
 		if (!this._originalNormals || !this._hasNormals) return;
 		if (this.isSkinned) return; // Skinned meshes use queueSkinning with lightConfig
 
-		// Don't use worker lighting for meshes with animated ancestors
+		// Don't use worker lighting for meshes with animated ancestors or morph targets
 		// Their positions change each frame, but worker has cached positions
-		if (this._parentNode?.hasAnimatedAncestor()) return;
+		if (this.usesRuntimeTransform) return;
 
 		this._workerPool = pool;
 
@@ -403,6 +648,7 @@ export class GltfMesh {
 		if (!this._meshData) return;
 		this._meshData.positions.set(positions);
 		this._meshData.markDataChanged("positions", 0, this._vertexCount);
+		this._boundsCenterDirty = true;
 	}
 
 	/**
@@ -420,9 +666,28 @@ export class GltfMesh {
 	private _applyColors(colors: Float32Array): void {
 		if (!this._meshData) return;
 		this._meshData.colors.set(colors);
+		if (this._hasVertexAlpha) {
+			// Worker lighting writes alpha = 1
+			this._applyVertexAlpha(this._meshData.colors);
+		}
 		this._meshData.markDataChanged("colors", 0, this._vertexCount);
 	}
 
+	/**
+	 * Premultiply colors by source vertex alpha (C3 expects premultiplied colors).
+	 */
+	private _applyVertexAlpha(colors: Float32Array): void {
+		const source = this._sourceColors;
+		if (!source) return;
+		for (let i = 0; i < source.length; i += 4) {
+			const a = source[i + 3];
+			colors[i] *= a;
+			colors[i + 1] *= a;
+			colors[i + 2] *= a;
+			colors[i + 3] = a;
+		}
+	}
+
 	/**
 	 * Apply worker-transformed positions and colors to GPU buffers.
 	 * Called when instance TRS changes and worker returns transformed data.
@@ -484,6 +749,7 @@ export class GltfMesh {
 		}
 
 		this._meshData.markDataChanged("positions", 0, n);
+		this._boundsCenterDirty = true;
 	}
 
 	/**
@@ -496,12 +762,17 @@ export class GltfMesh {
 
 	/**
 	 * Update positions based on parent node's world matrix combined with instance transform.
-	 * Used for static meshes under animated joints.
+	 * Used for static meshes under animated joints and meshes with morph targets.
 	 * @param instanceMatrix C3 instance world matrix; if provided, multiplied with node world matrix.
 	 */
 	updateNodeTransform(instanceMatrix?: Float32Array): void {
 		if (!this._parentNode || !this._meshData || !this._originalPositions || this.isSkinned) return;
 
+		// Morph weight changes need a re-transform even if the matrix is unchanged
+		const morphChanged = this._morphDirty;
+		const basePositions = this._getBasePositions()!;
+		const baseNormals = this._getBaseNormals();
+
 		const nodeWorld = this._parentNode.getWorldMatrix();
 
 		// Combine: instanceMatrix * nodeWorldMatrix when instance matrix is provided
@@ -518,8 +789,8 @@ export class GltfMesh {
 			finalMatrix = nodeWorld;
 		}
 
-		// Skip if matrix hasn't changed
-		if (!this._isMatrixDirty(finalMatrix)) return;
+		// Skip if matrix and morph weights haven't changed
+		if (!morphChanged && !this._isMatrixDirty(finalMatrix)) return;
 
 		// Store copy of matrix for dirty checking
 		if (!this._lastMatrix) {
@@ -529,7 +800,7 @@ export class GltfMesh {
 		this._needsLightingUpdate = true;
 
 		const positions = this._meshData.positions;
-		const original = this._originalPositions;
+		const original = basePositions;
 		const n = this._vertexCount;
 
 		// Pre-extract matrix elements
@@ -550,15 +821,16 @@ export class GltfMesh {
 		}
 
 		this._meshData.markDataChanged("positions", 0, n);
+		this._boundsCenterDirty = true;
 
 		// Also transform normals for correct lighting
-		if (this._originalNormals && this._transformedNormals) {
+		if (baseNormals && this._transformedNormals) {
 			// Extract upper-left 3x3 for normal transformation
 			for (let i = 0; i < n; i++) {
 				const idx = i * 3;
-				const nx = this._originalNormals[idx];
-				const ny = this._originalNormals[idx + 1];
-				const nz = this._originalNormals[idx + 2];
+				const nx = baseNormals[idx];
+				const ny = baseNormals[idx + 1];
+				const nz = baseNormals[idx + 2];
 
 				let tnx = m0 * nx + m4 * ny + m8 * nz;
 				let tny = m1 * nx + m5 * ny + m9 * nz;
@@ -579,6 +851,55 @@ export class GltfMesh {
 		}
 	}
 
+	/**
+	 * Move baked positions and normals back to node-local space so updateNodeTransform() applies.
+	 * Used when a node above this mesh becomes dynamic after load; call before that node moves.
+	 * @param bakedWorldInverse Inverse of the node world matrix baked in at load
+	 */
+	unbakeNodeTransform(bakedWorldInverse: Float32Array): void {
+		if (!this._originalPositions || this.isSkinned) return;
+
+		const m = bakedWorldInverse;
+		const positions = this._originalPositions;
+		for (let i = 0; i < positions.length; i += 3) {
+			const x = positions[i], y = positions[i + 1], z = positions[i + 2];
+			positions[i] = m[0] * x + m[4] * y + m[8] * z + m[12];
+			positions[i + 1] = m[1] * x + m[5] * y + m[9] * z + m[13];
+			positions[i + 2] = m[2] * x + m[6] * y + m[10] * z + m[14];
+		}
+
+		const normals = this._originalNormals;
+		if (normals) {
+			for (let i = 0; i < normals.length; i += 3) {
+				const nx = normals[i], ny = normals[i + 1], nz = normals[i + 2];
+				let tnx = m[0] * nx + m[4] * ny + m[8] * nz;
+				let tny = m[1] * nx + m[5] * ny + m[9] * nz;
+				let tnz = m[2] * nx + m[6] * ny + m[10] * nz;
+				const len = Math.sqrt(tnx * tnx + tny * tny + tnz * tnz);
+				if (len > 0.0001) {
+					tnx /= len;
+					tny /= len;
+					tnz /= len;
+				}
+				normals[i] = tnx;
+				normals[i + 1] = tny;
+				normals[i + 2] = tnz;
+			}
+		}
+
+		// Worker copies hold baked data and static lighting no longer applies: keep only regular transforms
+		const pool = this._workerPool;
+		if (pool && (this._isRegisteredWithPool || this._isRegisteredStaticLightingWithPool)) {
+			pool.unregisterMesh(this._id);
+			this._isRegisteredWithPool = false;
+			this._isRegisteredStaticLightingWithPool = false;
+			this.registerWithPool(pool);
+		}
+
+		this._lastMatrix = null;
+		this._needsLightingUpdate = true;
+	}
+
 	/**
 	 * Update GPU positions from skinned vertex data.
 	 * Used by AnimationController to push skinned positions to GPU.
@@ -595,6 +916,7 @@ export class GltfMesh {
 
 		this._meshData.positions.set(positions);
 		this._meshData.markDataChanged("positions", 0, this._vertexCount);
+		this._boundsCenterDirty = true;
 
 		// Clear last matrix since we're using raw positions now
 		this._lastMatrix = null;
@@ -677,7 +999,7 @@ export class GltfMesh {
 		const currentVersion = getLightingVersion();
 		const rotationChanged = this._hasRotationChanged(modelMatrix);
 		const cameraChanged = this._hasCameraPositionChanged(cameraPosition);
-		const hasAnimatedAncestor = this._parentNode?.hasAnimatedAncestor() ?? false;
+		const usesRuntimeTransform = this.usesRuntimeTransform;
 
 		if (!force && !this._needsLightingUpdate && this._lastLightingVersion === currentVersion && !rotationChanged && !cameraChanged) {
 			return; // Nothing changed, skip
@@ -687,9 +1009,9 @@ export class GltfMesh {
 		this._updateLastRotation(modelMatrix);
 		this._updateLastCameraPosition(cameraPosition);
 
-		// For meshes with animated ancestors: use GPU positions (transformed by updateNodeTransform)
+		// For meshes with animated ancestors or morphs: use GPU positions (transformed by updateNodeTransform)
 		// For other meshes: use _originalPositions (already baked with node world transform)
-		const positions = hasAnimatedAncestor
+		const positions = usesRuntimeTransform
 			? new Float32Array(this._meshData.positions)
 			: this._originalPositions;
 
@@ -835,35 +1157,50 @@ export class GltfMesh {
 		this._texture = tex;
 	}
 
+	/**
+	 * Whether the UVs have a KHR_texture_transform baked in.
+	 * Such UVs can leave [0,1] (tiling), so atlas remapping wraps them into the sub-rect per vertex:
+	 * offsets and scales within a tile are kept, but a triangle spanning several tiles shows one stretched tile
+	 * (the renderer can't repeat a sub-rect).
+	 */
+	get hasTextureTransform(): boolean {
+		return this._hasTextureTransform;
+	}
+
+	set hasTextureTransform(value: boolean) {
+		this._hasTextureTransform = value;
+	}
+
 	/**
 	 * Remap UV coordinates from [0,1] model space to a sub-rect within an atlas texture.
+	 * Texture-transformed UVs are wrapped into [0,1] first (see hasTextureTransform).
 	 * This is a one-shot operation — calling it twice will produce incorrect results.
 	 */
 	remapTexCoords(texRect: DOMRect): void {
 		if (!this._meshData) return;
-		const uvs = this._meshData.texCoords;
-		for (let i = 0; i < this._vertexCount; i++) {
-			const idx = i * 2;
-			uvs[idx]     = texRect.x + uvs[idx]     * texRect.width;
-			uvs[idx + 1] = texRect.y + uvs[idx + 1] * texRect.height;
-		}
-		this._meshData.markDataChanged("texCoords", 0, this._vertexCount);
+		this._remapTexCoordsFrom(this._meshData.texCoords, texRect);
 	}
 
 	/**
-	 * Remap UV coordinates from stored originals to a new atlas sub-rect.
+	 * Remap UV coordinates from stored original model UVs (texture transform included) to a new atlas sub-rect.
 	 * Unlike remapTexCoords(), this can be called repeatedly (non-destructive).
 	 */
 	updateTexRect(texRect: DOMRect): void {
 		if (!this._meshData || !this._originalTexCoords) return;
-		const uvs = this._meshData.texCoords;
-		const orig = this._originalTexCoords;
+		this._remapTexCoordsFrom(this._originalTexCoords, texRect);
+	}
+
+	private _remapTexCoordsFrom(source: Float32Array, texRect: DOMRect): void {
+		const uvs = this._meshData!.texCoords;
+		const wrap = this._hasTextureTransform;
 		for (let i = 0; i < this._vertexCount; i++) {
 			const idx = i * 2;
-			uvs[idx]     = texRect.x + orig[idx]     * texRect.width;
-			uvs[idx + 1] = texRect.y + orig[idx + 1] * texRect.height;
+			const u = wrap ? wrapTexCoord(source[idx]) : source[idx];
+			const v = wrap ? wrapTexCoord(source[idx + 1]) : source[idx + 1];
+			uvs[idx]     = texRect.x + u * texRect.width;
+			uvs[idx + 1] = texRect.y + v * texRect.height;
 		}
-		this._meshData.markDataChanged("texCoords", 0, this._vertexCount);
+		this._meshData!.markDataChanged("texCoords", 0, this._vertexCount);
 	}
 
 	/** Get source vertex colors (from glTF or material baseColorFactor) */
@@ -871,9 +1208,51 @@ export class GltfMesh {
 		return this._sourceColors;
 	}
 
+	/**
+	 * Update sortDepth from the center of the current (world space) vertex bounds.
+	 * The bounds are only rescanned after the positions have changed.
+	 * @param cameraPosition Camera world position [x, y, z]
+	 */
+	updateSortDepth(cameraPosition: Float32Array): number {
+		if (!this._meshData || this._vertexCount === 0) {
+			this._sortDepth = 0;
+			return 0;
+		}
+
+		if (this._boundsCenterDirty) {
+			this._updateBoundsCenter(this._meshData.positions);
+		}
+
+		const center = this._boundsCenter;
+		const dx = center[0] - cameraPosition[0];
+		const dy = center[1] - cameraPosition[1];
+		const dz = center[2] - cameraPosition[2];
+		this._sortDepth = dx * dx + dy * dy + dz * dz;
+		return this._sortDepth;
+	}
+
+	private _updateBoundsCenter(positions: Float32Array): void {
+		let minX = Infinity, minY = Infinity, minZ = Infinity;
+		let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+		for (let i = 0; i < this._vertexCount * 3; i += 3) {
+			const x = positions[i], y = positions[i + 1], z = positions[i + 2];
+			if (x < minX) minX = x;
+			if (x > maxX) maxX = x;
+			if (y < minY) minY = y;
+			if (y > maxY) maxY = y;
+			if (z < minZ) minZ = z;
+			if (z > maxZ) maxZ = z;
+		}
+
+		this._boundsCenter[0] = (minX + maxX) * 0.5;
+		this._boundsCenter[1] = (minY + maxY) * 0.5;
+		this._boundsCenter[2] = (minZ + maxZ) * 0.5;
+		this._boundsCenterDirty = false;
+	}
+
 	/**
 	 * Draw this mesh with its texture.
-	 * Note: Cull mode is set at model level for performance.
+	 * Note: Cull mode is set at model level from doubleSided.
 	 * @param renderer The C3 renderer
 	 * @param lastTexture The last texture that was bound (undefined = first draw, null = no texture)
 	 * @returns The texture used by this mesh (for tracking)
@@ -932,5 +1311,12 @@ export class GltfMesh {
 		// Clear skinning references (not owned, just references to cached data)
 		this._skinningData = null;
 		this._skinData = null;
+
+		// Clear morph state (deltas are cached data, not owned)
+		this._morphData = null;
+		this._morphWeights = null;
+		this._morphedPositions = null;
+		this._morphedNormals = null;
+		this._morphDirty = false;
 	}
 }
@@ -1,22 +1,47 @@
-import { WebIO, Node as GltfNodeDef, Texture, Primitive, Root, Skin, Animation } from "@gltf-transform/core";
+import { WebIO, Node as GltfNodeDef, Accessor, Material, Texture, TextureInfo, Primitive, Root, Skin, Animation } from "@gltf-transform/core";
+import { KHRLightsPunctual, KHRMeshQuantization, KHRTextureTransform, Light as GltfLightDef, Transform as TextureTransform } from "@gltf-transform/extensions";
 import { mat4, quat, vec3 } from "gl-matrix";
-import { GltfMesh } from "./GltfMesh.js";
-import { GltfNode } from "./GltfNode.js";
+import { GltfMesh, MeshAlphaMode } from "./GltfMesh.js";
+import { GltfNode, quatFromEulerDegrees } from "./GltfNode.js";
 import type { AnimationController } from "./AnimationController.js";
 import { TransformWorkerPool, SharedWorkerPool, WorkerLightConfig } from "./TransformWorkerPool.js";
 import {
 	modelCache,
 	CachedModelData,
+	CachedTextureMap,
+	CachedSceneMeshData,
 	CachedSkinData,
+	CachedSkeletonData,
 	CachedAnimationData,
 	MeshSkinningData,
+	MeshMorphData,
 	JointData,
+	SkeletonJointData,
 	AnimationSamplerData,
 	AnimationChannelData,
 	AnimationInterpolation,
-	AnimationTargetPath
+	AnimationTargetPath,
+	AnimationEventData
 } from "./types.js";
 import { isBuiltinModelUrl, resolveBuiltinUrl } from "./BuiltinModels.js";
+import { MESH_COMPRESSION_EXTENSIONS, prepareMeshDecoders } from "./MeshDecoders.js";
+import { ColliderData, ColliderGroup, ColliderSource, buildCollider, findCollisionNode, getCollisionNodeType, hasColliderGeometry } from "./Colliders.js";
+import { MeshBvh, BvhRayHit, buildMeshBvh, refitMeshBvh, raycastMeshBvh } from "./MeshBvh.js";
+import {
+	createDirectionalLight,
+	createSpotLight,
+	createPointLight,
+	removeLight,
+	removeSpotLight,
+	setLightColor,
+	setLightIntensity,
+	setLightDirection,
+	setSpotLightColor,
+	setSpotLightIntensity,
+	setSpotLightPosition,
+	setSpotLightDirection,
+	setSpotLightRange
+} from "./Lighting.js";
 
 // Debug logging - set to false to disable
 const DEBUG = false;
@@ -30,11 +55,97 @@ function debugWarn(...args: unknown[]): void {
 	if (DEBUG) console.warn(LOG_PREFIX, ...args);
 }
 
+// glTF accessor component types (WebGL enums)
+const GL_BYTE = 5120;
+const GL_UNSIGNED_BYTE = 5121;
+const GL_SHORT = 5122;
+const GL_UNSIGNED_SHORT = 5123;
+
+/**
+ * Copy an accessor's data to floats, dequantizing normalized integers (KHR_mesh_quantization).
+ * Non-normalized integers are copied as-is (their scale lives in the node transform).
+ */
+export function readAccessorFloats(accessor: Accessor): Float32Array | null {
+	const array = accessor.getArray();
+	if (!array) return null;
+
+	const out = new Float32Array(array);
+	if (!accessor.getNormalized() || array instanceof Float32Array) return out;
+
+	switch (accessor.getComponentType()) {
+		case GL_UNSIGNED_BYTE:
+			for (let i = 0; i < out.length; i++) out[i] /= 255;
+			break;
+		case GL_UNSIGNED_SHORT:
+			for (let i = 0; i < out.length; i++) out[i] /= 65535;
+			break;
+		case GL_BYTE:
+			for (let i = 0; i < out.length; i++) out[i] = Math.max(out[i] / 127, -1);
+			break;
+		case GL_SHORT:
+			for (let i = 0; i < out.length; i++) out[i] = Math.max(out[i] / 32767, -1);
+			break;
+	}
+	return out;
+}
+
+/**
+ * Read animation events from glTF animation extras, sorted by time. Either form is accepted:
+ * "events": [{ "name": "footstep", "time": 0.25 }, ...] or "events": { "footstep": [0.25, 0.75], "hit": 0.5 }
+ */
+export function readAnimationEvents(extras: Record<string, unknown> | undefined): AnimationEventData[] {
+	const events: AnimationEventData[] = [];
+	const source = extras?.events;
+	if (Array.isArray(source)) {
+		for (const entry of source) {
+			const { name, time } = (entry ?? {}) as { name?: unknown; time?: unknown };
+			if (typeof name === "string" && typeof time === "number") events.push({ name, time });
+		}
+	} else if (source && typeof source === "object") {
+		for (const [name, times] of Object.entries(source)) {
+			for (const time of Array.isArray(times) ? times : [times]) {
+				if (typeof time === "number") events.push({ name, time });
+			}
+		}
+	}
+	return events.sort((a, b) => a.time - b.time);
+}
+
 // glTF primitive modes
 const GLTF_TRIANGLES = 4;
+const GLTF_TRIANGLE_STRIP = 5;
+const GLTF_TRIANGLE_FAN = 6;
+const GLTF_MODE_NAMES = ["POINTS", "LINES", "LINE_LOOP", "LINE_STRIP", "TRIANGLES", "TRIANGLE_STRIP", "TRIANGLE_FAN"];
+
+// glTF sampler filter/wrap values (WebGL enums)
+const GL_NEAREST = 9728;
+const GL_LINEAR = 9729;
+const GL_NEAREST_MIPMAP_NEAREST = 9984;
+const GL_LINEAR_MIPMAP_LINEAR = 9987;
+const GL_CLAMP_TO_EDGE = 33071;
+const GL_MIRRORED_REPEAT = 33648;
+
+const RAD_TO_DEG = 180 / Math.PI;
+
+/** Regular expression for a name pattern with * (any run of characters) and ? (one character) wildcards */
+function wildcardToRegExp(pattern: string): RegExp {
+	const source = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+	return new RegExp(`^${source}$`);
+}
 
-// Track last frame cull mode was set (avoid redundant state changes across models)
-let lastCullModeFrame = -1;
+/** Euler angles in degrees (Rx * Ry * Rz order) from a quaternion */
+function eulerDegreesFromQuat(q: quat): [number, number, number] {
+	const m = mat4.fromQuat(mat4.create(), q);
+	if (Math.abs(m[8]) < 0.99999) {
+		return [
+			Math.atan2(-m[9], m[10]) * RAD_TO_DEG,
+			Math.asin(m[8]) * RAD_TO_DEG,
+			Math.atan2(-m[4], m[0]) * RAD_TO_DEG
+		];
+	}
+	// Gimbal lock: fold Z into X
+	return [Math.atan2(m[6], m[5]) * RAD_TO_DEG, (m[8] > 0 ? 90 : -90), 0];
+}
 
 /** Stats about a loaded model */
 export interface GltfModelStats {
@@ -45,12 +156,252 @@ export interface GltfModelStats {
 	totalIndices: number;
 }
 
+/** Node in the hierarchy dump returned by getNodeHierarchy() */
+export interface GltfNodeInfo {
+	/** Node name (generated "node_<i>" for unnamed nodes) */
+	name: string;
+	/** Indices of the meshes (primitives) attached to this node, into GltfModel.meshes */
+	meshes: number[];
+	/** Combined skeleton joint index, or -1 if the node isn't a joint */
+	jointIndex: number;
+	/** Child nodes in file order */
+	children: GltfNodeInfo[];
+}
+
+/** Closest hit returned by raycast() */
+export interface GltfRaycastHit {
+	/** Distance from the ray origin (world units) */
+	distance: number;
+	/** Hit point in world space */
+	point: [number, number, number];
+	/** Triangle normal in world space, facing the ray origin */
+	normal: [number, number, number];
+	/** Index into GltfModel.meshes */
+	meshIndex: number;
+	/** glTF mesh name */
+	meshName: string;
+	/** Name of the node the mesh is attached to */
+	nodeName: string;
+	/** Triangle index within the mesh primitive */
+	triangleIndex: number;
+}
+
+/** KHR_lights_punctual light attached to a node, plus the Lighting light created for it */
+interface PunctualLight {
+	/** Light type from the file */
+	type: "directional" | "point" | "spot";
+	/** Node carrying the light (world transform gives position/direction) */
+	node: GltfNode;
+	/** Linear RGB color */
+	color: Float32Array;
+	/** Intensity from the file (candela for point/spot, lux for directional) */
+	intensity: number;
+	/** Range in model units (0 = infinite) */
+	range: number;
+	/** Inner/outer cone half-angles in degrees (spot only) */
+	innerConeAngleDeg: number;
+	outerConeAngleDeg: number;
+	/** Lighting light ID (-1 until created) */
+	lightId: number;
+	/** Last world position/direction/range pushed to Lighting (avoids bumping the lighting version every tick) */
+	lastPosition: Float32Array;
+	lastDirection: Float32Array;
+	lastRange: number;
+}
+
 /** Options for model loading and transform behavior */
 export interface GltfModelOptions {
 	/** Use worker pool for transforms. Default: true */
 	useWorkers?: boolean;
 	/** Number of workers in pool. Default: cores - 1 */
 	workerCount?: number;
+	/** Workers decoding meshopt/Draco meshes while loading (0 = main thread). Default: cores - 1, max 4 */
+	decoderWorkers?: number;
+	/** Use nearest filtering without mipmaps for all textures. Default: false */
+	forceNearestSampling?: boolean;
+	/** Downscale textures larger than this on either side (0 = no limit). Default: 0 */
+	maxTextureSize?: number;
+	/** Scene to build, by name or index ("" = the document's default scene). Default: "" */
+	scene?: string | number;
+	/** Node names whose subtrees stay in local space so they can be transformed at runtime. Default: [] */
+	dynamicNodes?: string[];
+}
+
+/**
+ * Local-space bounds for recomputing the bounding box from the current pose (built on first use).
+ * Bounds are 6 floats (min xyz, max xyz); empty bounds have min > max.
+ */
+interface PoseBoundsData {
+	/** Baked meshes - fixed in model space */
+	staticBounds: Float32Array;
+	/** Skinned meshes in bind pose (used when there's no animation controller) */
+	skinnedBounds: Float32Array;
+	/** Per combined joint: skinned vertices in joint space, assigned to their highest-weight joint */
+	jointBounds: Float32Array;
+	/** Runtime-transformed meshes: local positions, transformed by the node world matrix */
+	meshBounds: Map<GltfMesh, Float32Array>;
+}
+
+/** Grow min/max by the axis-aligned box around bounds (6 floats at boundsOffset) transformed by a matrix */
+function expandByTransformedBounds(
+	min: Float32Array,
+	max: Float32Array,
+	matrix: Float32Array,
+	matrixOffset: number,
+	bounds: Float32Array,
+	boundsOffset: number
+): void {
+	for (let i = 0; i < 3; i++) {
+		let lo = matrix[matrixOffset + 12 + i];
+		let hi = lo;
+		for (let j = 0; j < 3; j++) {
+			const m = matrix[matrixOffset + j * 4 + i];
+			const a = m * bounds[boundsOffset + j];
+			const b = m * bounds[boundsOffset + 3 + j];
+			lo += Math.min(a, b);
+			hi += Math.max(a, b);
+		}
+		if (lo < min[i]) min[i] = lo;
+		if (hi > max[i]) max[i] = hi;
+	}
+}
+
+/** Grow bounds (6 floats at offset) by a point */
+function expandBoundsByPoint(bounds: Float32Array, offset: number, x: number, y: number, z: number): void {
+	if (x < bounds[offset]) bounds[offset] = x;
+	if (y < bounds[offset + 1]) bounds[offset + 1] = y;
+	if (z < bounds[offset + 2]) bounds[offset + 2] = z;
+	if (x > bounds[offset + 3]) bounds[offset + 3] = x;
+	if (y > bounds[offset + 4]) bounds[offset + 4] = y;
+	if (z > bounds[offset + 5]) bounds[offset + 5] = z;
+}
+
+/** Empty bounds (count boxes of 6 floats, min = Infinity, max = -Infinity) */
+function createEmptyBounds(count: number): Float32Array {
+	const bounds = new Float32Array(count * 6);
+	for (let i = 0; i < bounds.length; i += 6) {
+		bounds.fill(Infinity, i, i + 3);
+		bounds.fill(-Infinity, i + 3, i + 6);
+	}
+	return bounds;
+}
+
+/** C3 texture options for a glTF texture reference, plus the cache key identifying them */
+interface TextureSampler {
+	key: string;
+	options: TextureCreateOptions;
+}
+
+/**
+ * Whether an encoded image can have alpha: never for JPEG, for PNG by its color type or a tRNS chunk.
+ * Other formats are assumed to have alpha.
+ */
+function imageHasAlpha(image: Uint8Array, mimeType: string): boolean {
+	if (mimeType === "image/jpeg") return false;
+	if (mimeType !== "image/png" || image.length < 33) return true;
+
+	// IHDR color type: 4 = gray + alpha, 6 = RGBA
+	const colorType = image[25];
+	if (colorType === 4 || colorType === 6) return true;
+
+	// Gray, RGB and palette images only have alpha through a tRNS chunk (before the image data)
+	const view = new DataView(image.buffer, image.byteOffset, image.byteLength);
+	for (let offset = 8; offset + 8 <= image.length; offset += 12 + view.getUint32(offset)) {
+		const type = String.fromCharCode(image[offset + 4], image[offset + 5], image[offset + 6], image[offset + 7]);
+		if (type === "tRNS") return true;
+		if (type === "IDAT") return false;
+	}
+	return false;
+}
+
+/**
+ * Texel alpha a MASK material's texture must reach: the cutoff applies to texel alpha x baseColorFactor alpha,
+ * so the constant factor is folded into the texture threshold.
+ */
+function maskAlphaThreshold(material: Material): number {
+	const cutoff = material.getAlphaCutoff();
+	return cutoff <= 0 ? 0 : cutoff / material.getBaseColorFactor()[3];
+}
+
+/**
+ * Whether a material's base color texture needs its alpha baked at load (OPAQUE/MASK and the image has alpha,
+ * or a MASK factor alpha below the cutoff hides every texel).
+ */
+function needsTextureAlphaBake(material: Material, texture: Texture): boolean {
+	const alphaMode = material.getAlphaMode();
+	if (alphaMode === "BLEND") return false;
+	const image = texture.getImage();
+	if (image && imageHasAlpha(image, texture.getMimeType() || "image/png")) return true;
+	return alphaMode === "MASK" && maskAlphaThreshold(material) > 1;
+}
+
+/**
+ * Texture cache key suffix for a material's alpha mode.
+ * Baked OPAQUE and MASK textures can't share a texture with BLEND (unbaked ones do).
+ */
+export function textureAlphaKey(material: Material, texture: Texture): string {
+	if (!needsTextureAlphaBake(material, texture)) return "";
+	return material.getAlphaMode() === "OPAQUE" ? "|opaque" : `|mask:${maskAlphaThreshold(material)}`;
+}
+
+let _pixelReadContext: WebGL2RenderingContext | null | undefined;
+
+/**
+ * Read an image's RGBA bytes (top row first).
+ * WebGL2 reads a bitmap decoded with premultiplyAlpha "none" exactly; the 2D canvas fallback stores premultiplied
+ * alpha, so RGB under alpha 0 reads back as black.
+ */
+function readImagePixels(bitmap: ImageBitmap): ImageData | null {
+	const { width, height } = bitmap;
+	if (_pixelReadContext === undefined || _pixelReadContext?.isContextLost()) {
+		_pixelReadContext = new OffscreenCanvas(1, 1).getContext("webgl2");
+	}
+
+	const gl = _pixelReadContext;
+	if (gl && width <= gl.getParameter(gl.MAX_TEXTURE_SIZE) && height <= gl.getParameter(gl.MAX_TEXTURE_SIZE)) {
+		const texture = gl.createTexture();
+		const framebuffer = gl.createFramebuffer();
+		gl.bindTexture(gl.TEXTURE_2D, texture);
+		gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false);
+		gl.pixelStorei(gl.UNPACK_COLORSPACE_CONVERSION_WEBGL, gl.NONE);
+		gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, bitmap);
+		gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+		gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+
+		let image: ImageData | null = null;
+		if (gl.checkFramebufferStatus(gl.FRAMEBUFFER) === gl.FRAMEBUFFER_COMPLETE) {
+			image = new ImageData(width, height);
+			gl.readPixels(0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, image.data);
+		}
+		gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+		gl.deleteFramebuffer(framebuffer);
+		gl.deleteTexture(texture);
+		if (image) return image;
+	}
+
+	const context = new OffscreenCanvas(width, height).getContext("2d");
+	if (!context) return null;
+	context.drawImage(bitmap, 0, 0);
+	return context.getImageData(0, 0, width, height);
+}
+
+/**
+ * Copy a texture image with its alpha resolved for the material's alpha mode: forced to 1 for OPAQUE,
+ * snapped to 0/1 at the cutoff (with the factor alpha folded in, see maskAlphaThreshold) for MASK.
+ * @param bitmap Image decoded with premultiplyAlpha "none" (RGB under transparent texels is kept for OPAQUE)
+ * @returns A new bitmap, or the original if its pixels can't be read
+ */
+async function bakeTextureAlpha(bitmap: ImageBitmap, material: Material): Promise<ImageBitmap> {
+	const image = readImagePixels(bitmap);
+	if (!image) return bitmap;
+
+	const pixels = image.data;
+	const opaque = material.getAlphaMode() === "OPAQUE";
+	const threshold = maskAlphaThreshold(material) * 255;
+	for (let i = 3; i < pixels.length; i += 4) {
+		pixels[i] = opaque || pixels[i] >= threshold ? 255 : 0;
+	}
+	return createImageBitmap(image);
 }
 
 /**
@@ -61,7 +412,16 @@ export interface GltfModelOptions {
 export class GltfModel {
 	private _textures: ITexture[] = [];
 	private _meshes: GltfMesh[] = [];
+	private _blendQueue: GltfMesh[] = [];  // Reused each draw for BLEND sorting
 	private _isLoaded: boolean = false;
+	private _wasDecompressed: boolean = false;  // File used meshopt/Draco compression
+	private _sceneIndex: number = -1;  // Scene that was built (-1 if the file has no scenes)
+	private _sceneNames: string[] = [];
+
+	// glTF extras (custom properties; reference the cached document, read-only)
+	private _assetExtras: Record<string, unknown> = {};
+	private _sceneExtras: Record<string, unknown> = {};
+	private _materialExtras: Map<string, Record<string, unknown>> = new Map();
 	private _lastExternalTexture: ITexture | null = null;
 
 	// Stats tracking
@@ -86,11 +446,21 @@ export class GltfModel {
 	private _boundingBoxMin: Float32Array = new Float32Array(3);
 	private _boundingBoxMax: Float32Array = new Float32Array(3);
 
+	// Load-time bounding box (restored when pose bounds are turned off)
+	private _restBoundingBoxMin: Float32Array = new Float32Array(3);
+	private _restBoundingBoxMax: Float32Array = new Float32Array(3);
+	private _poseBoundsData: PoseBoundsData | null = null;
+
+	// Raycast BVHs (shared per cached scene) and per-instance bounds refitted to deforming meshes
+	private _meshBvh: Map<string, MeshBvh> = new Map();
+	private _refitBounds: Map<GltfMesh, { bounds: Float32Array; frame: number }> = new Map();
+
 	// Instance TRS matrix for CPU-side vertex transformation
 	private _instanceMatrix: Float32Array = mat4.create() as Float32Array;
 
 	// Skinning and animation data (references to shared cache, NOT owned)
 	private _skins: CachedSkinData[] = [];
+	private _skeleton: CachedSkeletonData | null = null;
 	private _animations: CachedAnimationData[] = [];
 	private _meshSkinningData: Map<number, MeshSkinningData> = new Map();
 
@@ -99,12 +469,46 @@ export class GltfModel {
 
 	// Node hierarchy (preserves parent-child relationships for transform inheritance)
 	private _rootNodes: GltfNode[] = [];
+	private _nodeCount: number = 0;  // All nodes in the hierarchy (names may repeat)
+	private _loadDiagnostics: string[] = [];  // Primitives skipped during load (one message each)
 	private _nodesByName: Map<string, GltfNode> = new Map();
+	// Non-joint nodes driven by animation channels (rigid animation)
+	private _animatedNodes: Map<GltfNodeDef, GltfNode> = new Map();
+	// Nodes transformed at runtime (flagged at load or touched by setNodeTranslation/Rotation/Scale)
+	private _dynamicNodes: Set<GltfNode> = new Set();
+	private readonly _tempTranslation = vec3.create();
+	private readonly _tempRotation = quat.create();
+	private readonly _tempScale = vec3.create();
+
+	// KHR_lights_punctual lights found on nodes (Lighting lights created on demand)
+	private _punctualLights: PunctualLight[] = [];
+	private _punctualLightsCreated: boolean = false;
+	private readonly _tempLightMatrix: Float32Array = new Float32Array(16);
 
 	get isLoaded(): boolean {
 		return this._isLoaded;
 	}
 
+	/** Whether the file used EXT_meshopt_compression or KHR_draco_mesh_compression */
+	get wasDecompressed(): boolean {
+		return this._wasDecompressed;
+	}
+
+	/** Index of the scene that was built (-1 if the file has no scenes) */
+	get sceneIndex(): number {
+		return this._sceneIndex;
+	}
+
+	/** Number of scenes in the file */
+	get sceneCount(): number {
+		return this._sceneNames.length;
+	}
+
+	/** Scene names in file order (unnamed scenes get "scene_<i>") */
+	getSceneNames(): string[] {
+		return [...this._sceneNames];
+	}
+
 	/** Bounding box center of all mesh positions (rotation/scale pivot) */
 	get localCenter(): Float32Array {
 		return this._localCenter;
@@ -130,11 +534,31 @@ export class GltfModel {
 		return this._skins.length > 0;
 	}
 
+	/** Whether this model has non-joint nodes driven by animations (rigid animation) */
+	get hasAnimatedNodes(): boolean {
+		return this._animatedNodes.size > 0;
+	}
+
+	/** Whether any node is transformed at runtime (dynamic nodes list or node actions) */
+	get hasDynamicNodes(): boolean {
+		return this._dynamicNodes.size > 0;
+	}
+
+	/** Whether this model has any meshes with morph targets */
+	get hasMorphTargets(): boolean {
+		return this._meshes.some(mesh => mesh.hasMorphTargets);
+	}
+
 	/** Get all skins (skeletons) in the model */
 	get skins(): readonly CachedSkinData[] {
 		return this._skins;
 	}
 
+	/** Get the joints of all skins combined (null until loaded) */
+	get skeleton(): CachedSkeletonData | null {
+		return this._skeleton;
+	}
+
 	/** Get all animations in the model */
 	get animations(): readonly CachedAnimationData[] {
 		return this._animations;
@@ -149,6 +573,7 @@ export class GltfModel {
 	 * Apply an external texture to all untextured meshes (e.g. built-in models).
 	 * Remaps UVs from [0,1] model space to the atlas sub-rect.
 	 * Safe for regular glTF models — only touches meshes with no existing texture.
+	 * Texture-transformed UVs are wrapped into the sub-rect (see GltfMesh.hasTextureTransform).
 	 */
 	applyExternalTexture(texture: ITexture, texRect: DOMRect): void {
 		for (const mesh of this._meshes) {
@@ -187,12 +612,17 @@ export class GltfModel {
 		return this._skins[skinningData.skinIndex];
 	}
 
+	/** Messages for primitives that could not be loaded (e.g. points/lines), empty if all loaded */
+	get loadDiagnostics(): readonly string[] {
+		return this._loadDiagnostics;
+	}
+
 	/**
 	 * Get statistics about the loaded model.
 	 */
 	getStats(): GltfModelStats {
 		return {
-			nodeCount: 0,  // Flattened - no node hierarchy stored
+			nodeCount: this._nodeCount,
 			meshCount: this._meshes.length,
 			textureCount: this._textures.length,
 			totalVertices: this._totalVertices,
@@ -255,7 +685,7 @@ export class GltfModel {
 	private async _loadFresh(renderer: IRenderer, url: string): Promise<CachedModelData> {
 		debugLog("Fetching and parsing glTF document...");
 		const fetchStart = performance.now();
-		const io = new WebIO();
+		const io = new WebIO().registerExtensions([KHRLightsPunctual, KHRMeshQuantization, KHRTextureTransform, ...MESH_COMPRESSION_EXTENSIONS]);
 
 		// Resolve built-in URLs to data URLs for loading
 		const loadUrl = resolveBuiltinUrl(url);
@@ -263,33 +693,35 @@ export class GltfModel {
 			debugLog("Resolved built-in model:", url, "->", "data URL");
 		}
 
-		const document = await io.read(loadUrl);
+		// Read JSON + resources first so compressed meshes can be decoded before parsing
+		const jsonDoc = await io.readAsJSON(loadUrl);
+		const decompressed = await prepareMeshDecoders(io, jsonDoc, this._options.decoderWorkers);
+		if (decompressed) {
+			debugLog("Mesh compression detected, decoders attached");
+		}
+		const document = await io.readJSON(jsonDoc);
 		const root = document.getRoot();
 		debugLog(`Document parsed in ${(performance.now() - fetchStart).toFixed(0)}ms`);
 
-		// Load all textures
-		debugLog("Loading textures...");
-		const textureStart = performance.now();
-		const loadedTextures: ITexture[] = [];
-		const textureMap = await this._loadTextures(renderer, root, loadedTextures);
-		debugLog(`${loadedTextures.length} textures loaded in ${(performance.now() - textureStart).toFixed(0)}ms`);
+		// GPU textures are created per image + sampler in _loadFromCache (instances may use different overrides)
+		const textureMap: CachedTextureMap = new Map();
 
 		// Extract skins (skeleton data)
 		debugLog("Extracting skin data...");
 		const skinStart = performance.now();
 		const { skins, skinMap } = this._extractSkins(root);
+		const skeleton = this._buildSkeleton(skins);
 		debugLog(`${skins.length} skin(s) extracted in ${(performance.now() - skinStart).toFixed(0)}ms`);
 
 		// Extract animations
 		debugLog("Extracting animation data...");
 		const animStart = performance.now();
-		const animations = this._extractAnimations(root, skins);
+		const animations = this._extractAnimations(root, skeleton);
 		debugLog(`${animations.length} animation(s) extracted in ${(performance.now() - animStart).toFixed(0)}ms`);
 
-		// Extract per-mesh skinning data (JOINTS_0, WEIGHTS_0)
-		// This is done during mesh processing, but we need to pass the skinMap
-		// Store skinMap temporarily on the cached data for use during mesh creation
-		const meshSkinningData = new Map<number, MeshSkinningData>();
+		// Per-mesh skinning data (JOINTS_0, WEIGHTS_0) and morph target deltas are extracted
+		// during mesh processing, per scene (only the scene an instance selects is built)
+		const sceneMeshData = new Map<number, CachedSceneMeshData>();
 
 		return {
 			url,
@@ -297,8 +729,10 @@ export class GltfModel {
 			textureMap,
 			refCount: 1,
 			skins,
-			meshSkinningData,
-			animations
+			skeleton,
+			sceneMeshData,
+			animations,
+			decompressed
 		};
 	}
 
@@ -316,11 +750,26 @@ export class GltfModel {
 		this._totalIndices = 0;
 
 		try {
+			const root = cached.document.getRoot();
+
+			// Create any textures this instance's sampler overrides need that aren't cached yet
+			debugLog("Loading textures...");
+			const textureStart = performance.now();
+			const textures = await this._loadTextures(renderer, root, cached.textureMap);
+			debugLog(`${textures.length} textures ready in ${(performance.now() - textureStart).toFixed(0)}ms`);
+
 			debugLog("Processing nodes and meshes...");
 			const meshStart = performance.now();
-			const root = cached.document.getRoot();
 			const sceneList = root.listScenes();
-			debugLog(`Found ${sceneList.length} scene(s)`);
+			const sceneIndex = this._resolveSceneIndex(root);
+			debugLog(`Found ${sceneList.length} scene(s), building scene ${sceneIndex}`);
+
+			// Mesh indices are per scene, so skinning/morph data is cached per scene
+			let sceneMeshData = cached.sceneMeshData.get(sceneIndex);
+			if (!sceneMeshData) {
+				sceneMeshData = { meshSkinningData: new Map(), meshMorphData: new Map(), meshBvh: new Map() };
+				cached.sceneMeshData.set(sceneIndex, sceneMeshData);
+			}
 
 			// Rebuild skinMap from document (maps glTF Skin objects to indices in cached.skins)
 			const skinMap = new Map<Skin, number>();
@@ -329,11 +778,16 @@ export class GltfModel {
 				skinMap.set(skinList[i], i);
 			}
 
-			// Build global nodeToJointIndex map (across all skins)
-			const globalNodeToJointIndex = new Map<GltfNodeDef, number>();
-			for (const skin of cached.skins) {
-				for (const joint of skin.joints) {
-					globalNodeToJointIndex.set(joint.node, joint.index);
+			// Combined joint indices (across all skins)
+			const globalNodeToJointIndex = cached.skeleton.nodeToJointIndex;
+
+			// Non-joint nodes with translation/rotation/scale channels (rigid animation)
+			const animatedNodeDefs = new Set<GltfNodeDef>();
+			for (const anim of cached.animations) {
+				for (const channel of anim.channels) {
+					if (channel.targetJointIndex < 0 && channel.targetNode && channel.targetPath !== "weights") {
+						animatedNodeDefs.add(channel.targetNode);
+					}
 				}
 			}
 
@@ -344,42 +798,67 @@ export class GltfModel {
 			// Clear node hierarchy storage
 			this._rootNodes = [];
 			this._nodesByName.clear();
-
-			for (const scene of sceneList) {
-				const children = scene.listChildren();
-				debugLog(`Scene has ${children.length} root node(s)`);
-				for (const nodeDef of children) {
-					const rootNode = this._processNode(
-						renderer,
-						nodeDef,
-						cached.textureMap,
-						null,  // No parent for root nodes
-						loadedMeshes,
-						skinMap,
-						cached.meshSkinningData,
-						meshIndexCounter,
-						nodeIndexCounter,
-						globalNodeToJointIndex
-					);
-					this._rootNodes.push(rootNode);
-				}
+			this._animatedNodes.clear();
+			this._dynamicNodes.clear();
+			this._punctualLights = [];
+			this._loadDiagnostics = [];
+
+			const children = sceneIndex >= 0 ? sceneList[sceneIndex].listChildren() : [];
+			debugLog(`Scene has ${children.length} root node(s)`);
+			for (const nodeDef of children) {
+				const rootNode = this._processNode(
+					renderer,
+					nodeDef,
+					cached.textureMap,
+					null,  // No parent for root nodes
+					loadedMeshes,
+					skinMap,
+					sceneMeshData.meshSkinningData,
+					sceneMeshData.meshMorphData,
+					meshIndexCounter,
+					nodeIndexCounter,
+					globalNodeToJointIndex,
+					animatedNodeDefs
+				);
+				this._rootNodes.push(rootNode);
 			}
+			this._nodeCount = nodeIndexCounter.value;
 			debugLog(`Meshes processed in ${(performance.now() - meshStart).toFixed(0)}ms`);
 
 			// Success - store resources (textures are referenced from cache, not owned)
-			this._textures = [...cached.textureMap.values()];
+			this._textures = textures;
 			this._meshes = loadedMeshes;
 			this._computeLocalCenter();
 
+			// Collision geometry (COL_* / UCX_* nodes) is for physics only
+			for (const mesh of loadedMeshes) {
+				if (findCollisionNode(mesh.parentNode)) mesh.visible = false;
+			}
+
 			// Store references to cached skinning/animation data
 			this._skins = cached.skins;
+			this._skeleton = cached.skeleton;
 			this._animations = cached.animations;
-			this._meshSkinningData = cached.meshSkinningData;
+			this._meshSkinningData = sceneMeshData.meshSkinningData;
+			this._wasDecompressed = cached.decompressed;
+			this._sceneIndex = sceneIndex;
+			this._sceneNames = sceneList.map((scene, i) => scene.getName() || `scene_${i}`);
+
+			// Node and mesh extras are stored during traversal
+			this._assetExtras = (root.getAsset().extras as Record<string, unknown> | undefined) ?? {};
+			this._sceneExtras = sceneIndex >= 0 ? sceneList[sceneIndex].getExtras() : {};
+			this._materialExtras.clear();
+			for (const material of root.listMaterials()) {
+				const name = material.getName();
+				if (name && !this._materialExtras.has(name)) {
+					this._materialExtras.set(name, material.getExtras());
+				}
+			}
 
 			// Wire up skinning data to meshes
 			let skinnedMeshCount = 0;
 			for (let i = 0; i < loadedMeshes.length; i++) {
-				const skinningData = cached.meshSkinningData.get(i);
+				const skinningData = sceneMeshData.meshSkinningData.get(i);
 				if (skinningData) {
 					const skinData = cached.skins[skinningData.skinIndex];
 					loadedMeshes[i].setSkinningData(skinningData, skinData);
@@ -390,6 +869,27 @@ export class GltfModel {
 				debugLog(`Wired up skinning data for ${skinnedMeshCount} mesh(es)`);
 			}
 
+			// Wire up morph targets to meshes (before worker registration, which copies deltas)
+			let morphMeshCount = 0;
+			for (let i = 0; i < loadedMeshes.length; i++) {
+				const morphData = sceneMeshData.meshMorphData.get(i);
+				if (morphData) {
+					loadedMeshes[i].setMorphData(morphData);
+					morphMeshCount++;
+				}
+			}
+			if (morphMeshCount > 0) {
+				debugLog(`Wired up morph targets for ${morphMeshCount} mesh(es)`);
+			}
+
+			// Raycast BVHs (after skinning/morph wiring, which decides the space positions are in)
+			const bvhStart = performance.now();
+			this._meshBvh = sceneMeshData.meshBvh;
+			for (let i = 0; i < loadedMeshes.length; i++) {
+				this._getMeshBvh(loadedMeshes[i], i);
+			}
+			debugLog(`Raycast BVHs ready in ${(performance.now() - bvhStart).toFixed(0)}ms`);
+
 			this._isLoaded = true;
 
 			// Setup worker pool if beneficial
@@ -415,6 +915,30 @@ export class GltfModel {
 		}
 	}
 
+	/**
+	 * Resolve the scene option to a scene index.
+	 * Matches a scene name first, then a numeric index; anything else falls back to the default scene.
+	 * @returns Scene index, or -1 if the document has no scenes
+	 */
+	private _resolveSceneIndex(root: Root): number {
+		const sceneList = root.listScenes();
+		if (sceneList.length === 0) return -1;
+
+		const scene = this._options.scene ?? "";
+		if (scene !== "") {
+			const byName = sceneList.findIndex(s => s.getName() === String(scene));
+			if (byName >= 0) return byName;
+
+			const index = Number(scene);
+			if (Number.isInteger(index) && index >= 0 && index < sceneList.length) return index;
+
+			debugWarn(`Scene "${scene}" not found, using default scene`);
+		}
+
+		const defaultScene = root.getDefaultScene();
+		return defaultScene ? Math.max(0, sceneList.indexOf(defaultScene)) : 0;
+	}
+
 	/**
 	 * Compute bounding box center across all mesh positions.
 	 * Used as the pivot origin for rotation and scale.
@@ -451,6 +975,8 @@ export class GltfModel {
 		this._boundingBoxMax[0] = maxX;
 		this._boundingBoxMax[1] = maxY;
 		this._boundingBoxMax[2] = maxZ;
+		this._restBoundingBoxMin.set(this._boundingBoxMin);
+		this._restBoundingBoxMax.set(this._boundingBoxMax);
 
 		debugLog("Local center:", this._localCenter);
 		debugLog("Bounding box:", { min: this._boundingBoxMin, max: this._boundingBoxMax });
@@ -541,26 +1067,32 @@ export class GltfModel {
 	}
 
 	/**
-	 * Queue worker-based skinning for all skinned meshes using the given bone matrices.
+	 * Queue worker-based skinning for the skinned meshes bound to one skin.
 	 * Call this after AnimationController.update() to offload skinning to workers.
-	 * @param boneMatrices Bone matrices from AnimationController.getBoneMatrices()
+	 * @param boneMatrices Bone matrices from AnimationController.getBoneMatrices(skinIndex)
 	 * @param lightConfig Optional lighting configuration to compute vertex colors in worker
+	 * @param skinIndex Skin the bone matrices belong to (default: 0)
 	 */
-	queueSkinning(boneMatrices: Float32Array, lightConfig?: WorkerLightConfig): void {
+	queueSkinning(boneMatrices: Float32Array, lightConfig?: WorkerLightConfig, skinIndex: number = 0): void {
 		if (!this._workerPool || !this._useWorkers) return;
 
-		// Collect IDs of all skinned meshes registered with pool
+		// Collect IDs of this skin's meshes registered with pool (and their morph weights)
 		const meshIds: number[] = [];
+		let morphWeights: Map<number, Float32Array> | undefined;
 		for (const mesh of this._meshes) {
-			if (mesh.isSkinned && mesh.isRegisteredSkinnedWithPool) {
+			if (mesh.isSkinned && mesh.isRegisteredSkinnedWithPool && mesh.skinningData?.skinIndex === skinIndex) {
 				meshIds.push(mesh.id);
+				if (mesh.morphWeights) {
+					if (!morphWeights) morphWeights = new Map();
+					morphWeights.set(mesh.id, mesh.morphWeights);
+				}
 			}
 		}
 
 		if (meshIds.length === 0) return;
 
-		// Queue skinning with shared bone matrices and optional lighting
-		this._workerPool.queueSkinning(meshIds, boneMatrices, lightConfig);
+		// Queue skinning with shared bone matrices, morph weights and optional lighting
+		this._workerPool.queueSkinning(meshIds, boneMatrices, lightConfig, morphWeights);
 
 		// Schedule flush for end of frame
 		SharedWorkerPool.scheduleFlush();
@@ -602,7 +1134,8 @@ export class GltfModel {
 		if (requests.length > 0) {
 			pool.queueStaticTransformAndLighting(requests, (meshId, positions, colors) => {
 				const mesh = this._meshes.find(m => m.id === meshId);
-				if (mesh) {
+				// Skip results for meshes moved to runtime transforms while the request was in flight
+				if (mesh?.isRegisteredStaticLightingWithPool) {
 					mesh.applyTransformedData(positions, colors);
 				}
 			});
@@ -709,67 +1242,172 @@ export class GltfModel {
 	}
 
 	/**
-	 * Load all textures, return map for lookup.
+	 * Create GPU textures for every material base color texture, one per image + sampler + alpha bake.
+	 * Textures already in the cache map (same image, sampler and alpha bake) are reused.
+	 * @returns Textures used by this model
 	 */
 	private async _loadTextures(
 		renderer: IRenderer,
 		root: Root,
-		loadedTextures: ITexture[]
-	): Promise<Map<Texture, ITexture>> {
-		const map = new Map<Texture, ITexture>();
-		const textureList = root.listTextures();
-		debugLog(`Found ${textureList.length} texture(s) in document`);
-
-		let textureIndex = 0;
-		for (const texture of textureList) {
-			const imageData = texture.getImage();
-			if (imageData) {
-				const mimeType = texture.getMimeType() || "image/png";
-				const blob = new Blob([imageData], { type: mimeType });
-				const bitmap = await createImageBitmap(blob);
-
-				debugLog(`Texture ${textureIndex}: ${bitmap.width}x${bitmap.height} (${mimeType}, ${imageData.byteLength} bytes)`);
-
-				try {
-					const c3Texture = await renderer.createStaticTexture(bitmap, {
-						sampling: "bilinear",
-						mipMap: true,
-						wrapX: "repeat",
-						wrapY: "repeat"
-					});
+		textureMap: CachedTextureMap
+	): Promise<ITexture[]> {
+		const used = new Set<ITexture>();
+		// Images to bake are decoded without premultiplied alpha, others as the renderer expects
+		const bitmaps = new Map<Texture, ImageBitmap | null>();
+		const straightBitmaps = new Map<Texture, ImageBitmap | null>();
 
-					loadedTextures.push(c3Texture);
-					map.set(texture, c3Texture);
-				} finally {
-					// Always close bitmap to free memory
-					bitmap.close();
+		try {
+			for (const material of root.listMaterials()) {
+				const texture = material.getBaseColorTexture();
+				if (!texture) continue;
+
+				const sampler = this._getTextureSampler(material.getBaseColorTextureInfo());
+				const key = sampler.key + textureAlphaKey(material, texture);
+				let samplers = textureMap.get(texture);
+				if (!samplers) {
+					samplers = new Map();
+					textureMap.set(texture, samplers);
 				}
-			} else {
-				debugWarn(`Texture ${textureIndex}: No image data`);
+
+				let c3Texture = samplers.get(key);
+				if (!c3Texture) {
+					// Decode each image once, even if several samplers use it
+					const bake = needsTextureAlphaBake(material, texture);
+					const decoded = bake ? straightBitmaps : bitmaps;
+					let bitmap = decoded.get(texture);
+					if (bitmap === undefined) {
+						bitmap = await this._decodeTextureImage(texture, sampler.options.sampling === "nearest", bake);
+						decoded.set(texture, bitmap);
+					}
+					if (!bitmap) continue;
+
+					const source = bake ? await bakeTextureAlpha(bitmap, material) : bitmap;
+					let created: ITexture;
+					try {
+						created = await renderer.createStaticTexture(source, sampler.options);
+					} finally {
+						if (source !== bitmap) source.close();
+					}
+
+					// Another instance may have created the same texture while we were decoding
+					c3Texture = samplers.get(key);
+					if (c3Texture) {
+						renderer.deleteTexture(created);
+					} else {
+						c3Texture = created;
+						samplers.set(key, c3Texture);
+						debugLog(`Texture "${texture.getName()}" created with sampler ${key}`);
+					}
+				}
+				used.add(c3Texture);
+			}
+		} finally {
+			// Always close bitmaps to free memory
+			for (const bitmap of [...bitmaps.values(), ...straightBitmaps.values()]) {
+				bitmap?.close();
 			}
-			textureIndex++;
 		}
 
-		return map;
+		return [...used];
+	}
+
+	/**
+	 * Decode a glTF texture image, downscaled to the maxTextureSize option.
+	 * @param pixelated Use nearest resampling when downscaling (matches nearest sampling)
+	 * @param straightAlpha Keep RGB unpremultiplied (for bakeTextureAlpha)
+	 * @returns The bitmap, or null if the texture has no image data
+	 */
+	private async _decodeTextureImage(texture: Texture, pixelated: boolean, straightAlpha: boolean): Promise<ImageBitmap | null> {
+		const imageData = texture.getImage();
+		if (!imageData) {
+			debugWarn(`Texture "${texture.getName()}": No image data`);
+			return null;
+		}
+
+		const mimeType = texture.getMimeType() || "image/png";
+		const blob = new Blob([imageData], { type: mimeType });
+		const premultiplyAlpha: PremultiplyAlpha = straightAlpha ? "none" : "default";
+		let bitmap = await createImageBitmap(blob, { premultiplyAlpha });
+		debugLog(`Texture "${texture.getName()}": ${bitmap.width}x${bitmap.height} (${mimeType}, ${imageData.byteLength} bytes)`);
+
+		const maxSize = this._options.maxTextureSize || 0;
+		const largest = Math.max(bitmap.width, bitmap.height);
+		if (maxSize > 0 && largest > maxSize) {
+			const scale = maxSize / largest;
+			const resizeWidth = Math.max(1, Math.round(bitmap.width * scale));
+			const resizeHeight = Math.max(1, Math.round(bitmap.height * scale));
+			const resized = await createImageBitmap(bitmap, {
+				resizeWidth,
+				resizeHeight,
+				resizeQuality: pixelated ? "pixelated" : "high",
+				premultiplyAlpha
+			});
+			bitmap.close();
+			bitmap = resized;
+			debugLog(`  Downscaled to ${resizeWidth}x${resizeHeight}`);
+		}
+
+		return bitmap;
+	}
+
+	/**
+	 * Map a glTF sampler (filters and wrap modes on the texture reference) onto C3 texture options.
+	 * Defaults follow the glTF spec (repeat, filtering left to the implementation: mipmapped bilinear).
+	 */
+	private _getTextureSampler(info: TextureInfo | null): TextureSampler {
+		const magFilter = info?.getMagFilter() ?? null;
+		const minFilter = info?.getMinFilter() ?? null;
+
+		let sampling: TextureSamplingMode;
+		let mipMap: boolean;
+		if (this._options.forceNearestSampling) {
+			sampling = "nearest";
+			mipMap = false;
+		} else {
+			const nearest = magFilter === GL_NEAREST
+				|| (magFilter === null && (minFilter === GL_NEAREST || minFilter === GL_NEAREST_MIPMAP_NEAREST));
+			sampling = nearest ? "nearest" : minFilter === GL_LINEAR_MIPMAP_LINEAR ? "trilinear" : "bilinear";
+			mipMap = minFilter !== GL_NEAREST && minFilter !== GL_LINEAR;
+		}
+
+		const wrapX = this._getWrapMode(info?.getWrapS());
+		const wrapY = this._getWrapMode(info?.getWrapT());
+		const maxSize = this._options.maxTextureSize || 0;
+
+		return {
+			key: `${sampling}|${mipMap ? "mip" : "nomip"}|${wrapX}|${wrapY}|${maxSize}`,
+			options: { sampling, mipMap, wrapX, wrapY }
+		};
+	}
+
+	private _getWrapMode(wrap: number | undefined): TextureWrapMode {
+		switch (wrap) {
+			case GL_CLAMP_TO_EDGE: return "clamp-to-edge";
+			case GL_MIRRORED_REPEAT: return "mirror-repeat";
+			default: return "repeat";
+		}
 	}
 
 	/**
 	 * Process a glTF node recursively, building node tree and adding meshes to flat array.
 	 * @param parentNode Parent GltfNode (null for root nodes)
 	 * @param globalNodeToJointIndex Map from glTF node to joint index (across all skins)
+	 * @param animatedNodeDefs Non-joint nodes targeted by animation channels
 	 * @returns The created GltfNode
 	 */
 	private _processNode(
 		renderer: IRenderer,
 		nodeDef: GltfNodeDef,
-		textureMap: Map<Texture, ITexture>,
+		textureMap: CachedTextureMap,
 		parentNode: GltfNode | null,
 		loadedMeshes: GltfMesh[],
 		skinMap: Map<Skin, number>,
 		meshSkinningData: Map<number, MeshSkinningData>,
+		meshMorphData: Map<number, MeshMorphData>,
 		meshIndexCounter: { value: number },
 		nodeIndexCounter: { value: number },
 		globalNodeToJointIndex: Map<GltfNodeDef, number>,
+		animatedNodeDefs: Set<GltfNodeDef>,
 		depth: number = 0
 	): GltfNode {
 		// Generate node name with fallback for unnamed nodes
@@ -783,6 +1421,7 @@ export class GltfModel {
 		// Create node with LOCAL matrix (not world - world is computed on demand)
 		const localMatrix = this._getLocalMatrix(nodeDef);
 		const node = new GltfNode(nodeName, localMatrix);
+		node.extras = nodeDef.getExtras();
 
 		// Link to parent
 		if (parentNode) {
@@ -792,11 +1431,29 @@ export class GltfModel {
 		// Store in lookup map
 		this._nodesByName.set(nodeName, node);
 
+		// Dynamic nodes keep their subtree in local space (set before meshes below are created)
+		if (this._options.dynamicNodes?.includes(nodeName)) {
+			node.dynamic = true;
+			this._dynamicNodes.add(node);
+			debugLog(`${indent}  Node is dynamic`);
+		}
+
 		// Check if this node is a joint
 		const jointIndex = globalNodeToJointIndex.get(nodeDef);
 		if (jointIndex !== undefined) {
 			node.jointIndex = jointIndex;
 			debugLog(`${indent}  Node is joint (index ${jointIndex})`);
+		} else if (animatedNodeDefs.has(nodeDef)) {
+			node.animated = true;
+			this._animatedNodes.set(nodeDef, node);
+			debugLog(`${indent}  Node is animated (rigid)`);
+		}
+
+		// Collect KHR_lights_punctual light (created in Lighting later via createPunctualLights)
+		const lightDef = nodeDef.getExtension<GltfLightDef>("KHR_lights_punctual");
+		if (lightDef) {
+			this._addPunctualLight(lightDef, node);
+			debugLog(`${indent}  Node has ${lightDef.getType()} light`);
 		}
 
 		// Store node world transform for bone attachment queries (computed from hierarchy)
@@ -816,9 +1473,11 @@ export class GltfModel {
 			debugLog(`${indent}  Mesh has ${primitives.length} primitive(s)`);
 
 			for (const primitive of primitives) {
-				// Only process triangle primitives (mode 4 or undefined which defaults to triangles)
+				// Only process triangle primitives (strips and fans are converted to lists in _createMesh)
 				const mode = primitive.getMode();
-				if (mode !== GLTF_TRIANGLES && mode !== undefined) {
+				if (mode !== GLTF_TRIANGLES && mode !== GLTF_TRIANGLE_STRIP && mode !== GLTF_TRIANGLE_FAN && mode !== undefined) {
+					const modeName = GLTF_MODE_NAMES[mode] ?? `mode ${mode}`;
+					this._loadDiagnostics.push(`Skipped ${modeName} primitive on node "${nodeName}" (only triangles are rendered)`);
 					debugWarn(`${indent}  Skipping non-triangle primitive (mode: ${mode})`);
 					continue;
 				}
@@ -833,10 +1492,14 @@ export class GltfModel {
 					node
 				);
 
-				if (gltfMesh) {
+				if (!gltfMesh) {
+					this._loadDiagnostics.push(`Skipped primitive on node "${nodeName}" (missing POSITION data)`);
+				} else {
 					// Set node name and parent node for identification and transform inheritance
 					gltfMesh.name = nodeName;
 					gltfMesh.parentNode = node;
+					gltfMesh.meshName = mesh.getName();
+					gltfMesh.extras = mesh.getExtras();
 					loadedMeshes.push(gltfMesh);
 
 					// Extract skinning data if this node has a skin
@@ -848,6 +1511,15 @@ export class GltfModel {
 						}
 					}
 
+					// Extract morph targets once per cached model (deltas are shared across instances)
+					if (!meshMorphData.has(currentMeshIndex)) {
+						const morphData = this._extractMeshMorphData(primitive, nodeDef, gltfMesh.vertexCount);
+						if (morphData) {
+							meshMorphData.set(currentMeshIndex, morphData);
+							debugLog(`${indent}    Mesh ${currentMeshIndex}: ${morphData.targetCount} morph target(s) extracted`);
+						}
+					}
+
 					meshIndexCounter.value++;
 				}
 			}
@@ -861,8 +1533,8 @@ export class GltfModel {
 		for (const child of children) {
 			this._processNode(
 				renderer, child, textureMap, node, loadedMeshes,
-				skinMap, meshSkinningData, meshIndexCounter, nodeIndexCounter,
-				globalNodeToJointIndex, depth + 1
+				skinMap, meshSkinningData, meshMorphData, meshIndexCounter, nodeIndexCounter,
+				globalNodeToJointIndex, animatedNodeDefs, depth + 1
 			);
 		}
 
@@ -871,57 +1543,59 @@ export class GltfModel {
 
 	/**
 	 * Create GltfMesh from primitive.
-	 * For meshes with animated ancestors: keep positions in local space (runtime transforms)
-	 * For meshes without animated ancestors: bake node world matrix into positions
+	 * For meshes with animated ancestors or morph targets: keep positions in local space (runtime transforms)
+	 * For other meshes: bake node world matrix into positions
 	 * @param skinIndex If present, this mesh is skinned
 	 * @param parentNode The parent GltfNode for this mesh
 	 */
 	private _createMesh(
 		renderer: IRenderer,
 		primitive: Primitive,
-		textureMap: Map<Texture, ITexture>,
+		textureMap: CachedTextureMap,
 		skinIndex?: number,
 		parentNode?: GltfNode
 	): GltfMesh | null {
+		// Base color texture reference (selects the UV set and its KHR_texture_transform)
+		const material = primitive.getMaterial();
+		const baseColorInfo = material?.getBaseColorTexture() ? material.getBaseColorTextureInfo() : null;
+		const uvTransform = baseColorInfo?.getExtension<TextureTransform>("KHR_texture_transform") ?? null;
+		const texCoordSet = uvTransform?.getTexCoord() ?? baseColorInfo?.getTexCoord() ?? 0;
+
 		// Extract raw data
 		const posAccessor = primitive.getAttribute("POSITION");
-		const uvAccessor = primitive.getAttribute("TEXCOORD_0");
+		const uvAccessor = primitive.getAttribute(`TEXCOORD_${texCoordSet}`) ?? primitive.getAttribute("TEXCOORD_0");
 		const normalAccessor = primitive.getAttribute("NORMAL");
 		const indicesAccessor = primitive.getIndices();
 
-		if (!posAccessor || !indicesAccessor) {
-			debugWarn("Primitive missing POSITION or indices, skipping");
+		if (!posAccessor) {
+			debugWarn("Primitive missing POSITION, skipping");
 			return null;
 		}
 
-		const posArray = posAccessor.getArray();
-		const indicesArray = indicesAccessor.getArray();
+		// Attributes are read as (dequantized) float copies
+		const posArray = readAccessorFloats(posAccessor);
+		// Indexless primitives draw vertices in order
+		const indicesArray = indicesAccessor ? indicesAccessor.getArray() : this._createSequentialIndices(posAccessor.getCount());
 
 		if (!posArray || !indicesArray) {
 			debugWarn("Primitive has null array data, skipping");
 			return null;
 		}
 
-		// Ensure we have Float32Array for positions
-		let positions: Float32Array;
-		if (posArray instanceof Float32Array) {
-			positions = posArray;
-		} else {
-			positions = new Float32Array(posArray);
-		}
+		let positions: Float32Array = posArray;
 
 		// Get normals if available
-		const normalArray = normalAccessor?.getArray();
-		let normals: Float32Array | null = null;
-		if (normalArray) {
-			normals = new Float32Array(normalArray);
-		}
+		let normals: Float32Array | null = normalAccessor ? readAccessorFloats(normalAccessor) : null;
 
 		// Get UVs if available
-		const uvArray = uvAccessor?.getArray();
-		let texCoords: Float32Array | null = null;
-		if (uvArray) {
-			texCoords = new Float32Array(uvArray);
+		const texCoords: Float32Array | null = uvAccessor ? readAccessorFloats(uvAccessor) : null;
+		if (texCoords) {
+
+			// Bake KHR_texture_transform (external texture rects are applied on top, see GltfMesh.hasTextureTransform)
+			if (uvTransform) {
+				this._applyTextureTransform(texCoords, uvTransform);
+				debugLog(`    Texture transform: offset [${uvTransform.getOffset().join(", ")}], rotation ${uvTransform.getRotation()}, scale [${uvTransform.getScale().join(", ")}]`);
+			}
 
 			// Debug: log UV range
 			let minU = Infinity, maxU = -Infinity, minV = Infinity, maxV = -Infinity;
@@ -938,11 +1612,8 @@ export class GltfModel {
 		const colorAccessor = primitive.getAttribute("COLOR_0");
 		let sourceColors: Float32Array | null = null;
 		if (colorAccessor) {
-			const colorArray = colorAccessor.getArray();
-			if (colorArray) {
-				sourceColors = colorArray instanceof Float32Array
-					? new Float32Array(colorArray)
-					: new Float32Array(colorArray);
+			sourceColors = readAccessorFloats(colorAccessor);
+			if (sourceColors) {
 				debugLog(`    Vertex colors: ${colorAccessor.getCount()} verts, ${colorAccessor.getElementSize()} components`);
 			}
 		}
@@ -957,6 +1628,13 @@ export class GltfModel {
 			indices = new Uint16Array(indicesArray);
 		}
 
+		// Convert strips and fans to triangle lists
+		const mode = primitive.getMode();
+		if (mode === GLTF_TRIANGLE_STRIP || mode === GLTF_TRIANGLE_FAN) {
+			indices = this._triangulateIndices(indices, mode);
+			debugLog(`    Converted ${GLTF_MODE_NAMES[mode]} to ${indices.length / 3} triangles`);
+		}
+
 		const vertexCount = positions.length / 3;
 		const indexCount = indices.length;
 		const triangleCount = indexCount / 3;
@@ -967,8 +1645,10 @@ export class GltfModel {
 
 		debugLog(`    Primitive: ${vertexCount} verts, ${triangleCount} tris, UVs: ${texCoords ? "yes" : "no"}, normals: ${normals ? "yes" : "computed"}, skinned: ${skinIndex !== undefined}`);
 
-		// Determine if this mesh needs runtime transforms (has animated ancestor)
+		// Determine if this mesh needs runtime transforms (has animated or dynamic ancestor)
 		const hasAnimatedAncestor = parentNode?.hasAnimatedAncestor() ?? false;
+		// Morph deltas are in local space, so morphed meshes also keep local positions
+		const hasMorphTargets = primitive.listTargets().length > 0;
 
 		if (skinIndex !== undefined) {
 			// Skinned mesh: keep bind pose positions (skinning applies transforms at runtime)
@@ -977,13 +1657,13 @@ export class GltfModel {
 				normals = new Float32Array(normals);
 			}
 			debugLog(`    Skinned mesh: keeping bind pose positions`);
-		} else if (hasAnimatedAncestor) {
-			// Static mesh with animated ancestor: keep local positions (node hierarchy applies at runtime)
+		} else if (hasAnimatedAncestor || hasMorphTargets) {
+			// Static mesh with animated ancestor or morphs: keep local positions (node hierarchy applies at runtime)
 			positions = new Float32Array(positions);
 			if (normals) {
 				normals = new Float32Array(normals);
 			}
-			debugLog(`    Static mesh with animated ancestor: keeping local positions`);
+			debugLog(`    Static mesh with ${hasMorphTargets ? "morph targets" : "animated ancestor"}: keeping local positions`);
 		} else {
 			// Static mesh without animated ancestor: bake node world transform
 			const worldMatrix = parentNode?.getWorldMatrix();
@@ -1003,11 +1683,11 @@ export class GltfModel {
 
 		// Get texture from material
 		let texture: ITexture | null = null;
-		const material = primitive.getMaterial();
 		if (material) {
 			const baseColorTex = material.getBaseColorTexture();
 			if (baseColorTex) {
-				texture = textureMap.get(baseColorTex) || null;
+				const sampler = this._getTextureSampler(baseColorInfo);
+				texture = textureMap.get(baseColorTex)?.get(sampler.key + textureAlphaKey(material, baseColorTex)) || null;
 				if (texture) {
 					debugLog(`    Texture assigned from material`);
 				} else {
@@ -1018,14 +1698,16 @@ export class GltfModel {
 			// Fallback: use material baseColorFactor if no vertex colors
 			if (!sourceColors) {
 				const baseColorFactor = material.getBaseColorFactor();
-				if (baseColorFactor && (baseColorFactor[0] !== 1 || baseColorFactor[1] !== 1 || baseColorFactor[2] !== 1 || baseColorFactor[3] !== 1)) {
+				// A textured MASK material has its factor alpha folded into the texture cutoff (see maskAlphaThreshold)
+				const alpha = texture && material.getAlphaMode() === "MASK" ? 1 : baseColorFactor[3];
+				if (baseColorFactor && (baseColorFactor[0] !== 1 || baseColorFactor[1] !== 1 || baseColorFactor[2] !== 1 || alpha !== 1)) {
 					// Expand single color to per-vertex array
 					sourceColors = new Float32Array(vertexCount * 4);
 					for (let i = 0; i < vertexCount; i++) {
 						sourceColors[i * 4] = baseColorFactor[0];
 						sourceColors[i * 4 + 1] = baseColorFactor[1];
 						sourceColors[i * 4 + 2] = baseColorFactor[2];
-						sourceColors[i * 4 + 3] = baseColorFactor[3];
+						sourceColors[i * 4 + 3] = alpha;
 					}
 					debugLog(`    Using material baseColorFactor as vertex color: [${baseColorFactor.map(v => v.toFixed(2)).join(', ')}]`);
 				}
@@ -1034,10 +1716,73 @@ export class GltfModel {
 
 		// Create and return mesh
 		const mesh = new GltfMesh();
+		mesh.hasTextureTransform = uvTransform !== null && texCoords !== null;
+		if (material) {
+			mesh.setMaterialState(material.getAlphaMode() as MeshAlphaMode, material.getAlphaCutoff(), material.getDoubleSided());
+			debugLog(`    Alpha mode: ${mesh.alphaMode}${mesh.alphaMode === "MASK" ? ` (cutoff ${mesh.alphaCutoff})` : ""}, double-sided: ${mesh.doubleSided}`);
+		}
 		mesh.create(renderer, positions, texCoords, indices, texture, normals, sourceColors);
 		return mesh;
 	}
 
+	/**
+	 * Generate 0..count-1 indices for an indexless primitive.
+	 */
+	private _createSequentialIndices(count: number): Uint16Array | Uint32Array {
+		const indices = count > 65535 ? new Uint32Array(count) : new Uint16Array(count);
+		for (let i = 0; i < count; i++) {
+			indices[i] = i;
+		}
+		return indices;
+	}
+
+	/**
+	 * Convert TRIANGLE_STRIP or TRIANGLE_FAN indices to a triangle list.
+	 * Keeps glTF winding (odd strip triangles are flipped) and drops degenerate triangles (strip restarts).
+	 */
+	private _triangulateIndices(indices: Uint16Array | Uint32Array, mode: number): Uint16Array | Uint32Array {
+		const triangleCount = Math.max(0, indices.length - 2);
+		const out = indices instanceof Uint32Array
+			? new Uint32Array(triangleCount * 3)
+			: new Uint16Array(triangleCount * 3);
+
+		let o = 0;
+		for (let i = 0; i < triangleCount; i++) {
+			let a: number, b: number, c: number;
+			if (mode === GLTF_TRIANGLE_FAN) {
+				a = indices[i + 1]; b = indices[i + 2]; c = indices[0];
+			} else if (i % 2 === 0) {
+				a = indices[i]; b = indices[i + 1]; c = indices[i + 2];
+			} else {
+				a = indices[i]; b = indices[i + 2]; c = indices[i + 1];
+			}
+			if (a === b || b === c || a === c) continue;
+			out[o++] = a;
+			out[o++] = b;
+			out[o++] = c;
+		}
+
+		return o < out.length ? out.slice(0, o) : out;
+	}
+
+	/**
+	 * Apply a KHR_texture_transform in place: uv' = offset + rotate(scale * uv).
+	 */
+	private _applyTextureTransform(texCoords: Float32Array, transform: TextureTransform): void {
+		const [offsetU, offsetV] = transform.getOffset();
+		const [scaleU, scaleV] = transform.getScale();
+		const rotation = transform.getRotation();
+		const cos = Math.cos(rotation);
+		const sin = Math.sin(rotation);
+
+		for (let i = 0; i < texCoords.length; i += 2) {
+			const u = texCoords[i] * scaleU;
+			const v = texCoords[i + 1] * scaleV;
+			texCoords[i] = cos * u + sin * v + offsetU;
+			texCoords[i + 1] = -sin * u + cos * v + offsetV;
+		}
+	}
+
 	/**
 	 * Transform normals by the upper-left 3x3 of a matrix.
 	 */
@@ -1155,6 +1900,55 @@ export class GltfModel {
 		return { skins, skinMap };
 	}
 
+	/**
+	 * Merge the joints of all skins into one skeleton.
+	 * Joints shared by several skins get a single entry (first skin wins), and parents are
+	 * resolved across skins so a second rig parented under the first follows it.
+	 */
+	private _buildSkeleton(skins: CachedSkinData[]): CachedSkeletonData {
+		const joints: SkeletonJointData[] = [];
+		const nodeToJointIndex = new Map<GltfNodeDef, number>();
+		const skinJointMaps: Uint16Array[] = [];
+
+		for (let s = 0; s < skins.length; s++) {
+			const skinJoints = skins[s].joints;
+			const jointMap = new Uint16Array(skinJoints.length);
+			for (let i = 0; i < skinJoints.length; i++) {
+				const joint = skinJoints[i];
+				let index = nodeToJointIndex.get(joint.node);
+				if (index === undefined) {
+					index = joints.length;
+					nodeToJointIndex.set(joint.node, index);
+					joints.push({
+						index,
+						name: joint.name,
+						parentIndex: -1,
+						node: joint.node,
+						localBindTransform: joint.localBindTransform,
+						skinIndex: s
+					});
+				}
+				jointMap[i] = index;
+			}
+			skinJointMaps.push(jointMap);
+		}
+
+		// Resolve parents in combined index space
+		for (const joint of joints) {
+			const parent = joint.node.getParentNode();
+			const parentIndex = parent ? nodeToJointIndex.get(parent) : undefined;
+			if (parentIndex !== undefined) {
+				joint.parentIndex = parentIndex;
+			}
+		}
+
+		if (skins.length > 1) {
+			debugLog(`Combined skeleton: ${joints.length} joints from ${skins.length} skins`);
+		}
+
+		return { joints, nodeToJointIndex, skinJointMaps };
+	}
+
 	/**
 	 * Extract data from a single glTF Skin.
 	 */
@@ -1271,22 +2065,14 @@ export class GltfModel {
 	/**
 	 * Extract all animations from the document root.
 	 */
-	private _extractAnimations(root: Root, skins: CachedSkinData[]): CachedAnimationData[] {
+	private _extractAnimations(root: Root, skeleton: CachedSkeletonData): CachedAnimationData[] {
 		const animations: CachedAnimationData[] = [];
 		const animList = root.listAnimations();
 
 		debugLog(`Found ${animList.length} animation(s) in document`);
 
-		// Build a combined node-to-joint map from all skins
-		const globalNodeToJoint = new Map<GltfNodeDef, number>();
-		for (const skin of skins) {
-			for (const [node, jointIdx] of skin.nodeToJointIndex) {
-				globalNodeToJoint.set(node, jointIdx);
-			}
-		}
-
 		for (const anim of animList) {
-			const animData = this._extractSingleAnimation(anim, globalNodeToJoint);
+			const animData = this._extractSingleAnimation(anim, skeleton.nodeToJointIndex);
 			animations.push(animData);
 			debugLog(`Animation "${animData.name}": ${animData.duration.toFixed(2)}s, ${animData.channels.length} channels, ${animData.samplers.length} samplers`);
 		}
@@ -1332,15 +2118,13 @@ export class GltfModel {
 			}
 
 			const inputArray = inputAccessor.getArray();
-			const outputArray = outputAccessor.getArray();
 
 			const input = inputArray instanceof Float32Array
 				? inputArray
 				: new Float32Array(inputArray || []);
 
-			const output = outputArray instanceof Float32Array
-				? outputArray
-				: new Float32Array(outputArray || []);
+			// Rotation and weights outputs may be normalized integers
+			const output = readAccessorFloats(outputAccessor) ?? new Float32Array(0);
 
 			// Track max time for duration
 			if (input.length > 0) {
@@ -1381,7 +2165,8 @@ export class GltfModel {
 
 			channels.push({
 				targetJointIndex,
-				targetNode: targetJointIndex === -1 ? targetNode : null,
+				// "weights" channels always need the node (they target its mesh, even on joints)
+				targetNode: targetJointIndex === -1 || targetPath === "weights" ? targetNode : null,
 				targetPath,
 				samplerIndex
 			});
@@ -1391,7 +2176,8 @@ export class GltfModel {
 			name,
 			duration,
 			samplers,
-			channels
+			channels,
+			events: readAnimationEvents(anim.getExtras())
 		};
 	}
 
@@ -1438,10 +2224,20 @@ export class GltfModel {
 			}
 		}
 
-		// Convert weights to Float32Array
-		const weights = weightsArray instanceof Float32Array
-			? weightsArray
-			: new Float32Array(weightsArray);
+		// Convert weights to Float32Array (normalized uint8/uint16 weights are dequantized)
+		const weights = readAccessorFloats(weightsAccessor)!;
+		if (weightsAccessor.getNormalized()) {
+			// Quantization rounding leaves sums slightly off 1.0
+			for (let i = 0; i < weights.length; i += 4) {
+				const sum = weights[i] + weights[i + 1] + weights[i + 2] + weights[i + 3];
+				if (sum > 0) {
+					weights[i] /= sum;
+					weights[i + 1] /= sum;
+					weights[i + 2] /= sum;
+					weights[i + 3] /= sum;
+				}
+			}
+		}
 
 		const vertexCount = weights.length / 4;
 		debugLog(`    Skinning: ${vertexCount} vertices, skin index ${skinIndex}`);
@@ -1453,6 +2249,74 @@ export class GltfModel {
 		};
 	}
 
+	// ========================================================================
+	// Morph Target Extraction
+	// ========================================================================
+
+	/**
+	 * Extract morph target deltas (POSITION, NORMAL) from a primitive.
+	 * Targets are packed back to back; missing attributes are zero deltas.
+	 * Returns null if the primitive has no morph targets.
+	 */
+	private _extractMeshMorphData(
+		primitive: Primitive,
+		nodeDef: GltfNodeDef,
+		vertexCount: number
+	): MeshMorphData | null {
+		const targets = primitive.listTargets();
+		if (targets.length === 0) return null;
+
+		const targetCount = targets.length;
+		const floatCount = vertexCount * 3;
+		const positionDeltas = new Float32Array(targetCount * floatCount);
+		const normalDeltas = new Float32Array(targetCount * floatCount);
+		let hasNormalDeltas = false;
+
+		for (let t = 0; t < targetCount; t++) {
+			const posAccessor = targets[t].getAttribute("POSITION");
+			const posArray = posAccessor ? readAccessorFloats(posAccessor) : null;
+			if (posArray && posArray.length === floatCount) {
+				positionDeltas.set(posArray, t * floatCount);
+			} else if (posArray) {
+				debugWarn(`Morph target ${t}: POSITION length mismatch (${posArray.length} vs ${floatCount})`);
+			}
+
+			const normalAccessor = targets[t].getAttribute("NORMAL");
+			const normalArray = normalAccessor ? readAccessorFloats(normalAccessor) : null;
+			if (normalArray && normalArray.length === floatCount) {
+				normalDeltas.set(normalArray, t * floatCount);
+				hasNormalDeltas = true;
+			}
+		}
+
+		// Target names: glTF convention is mesh.extras.targetNames
+		const mesh = nodeDef.getMesh();
+		const extras = mesh?.getExtras() as { targetNames?: unknown } | undefined;
+		const extraNames = Array.isArray(extras?.targetNames) ? extras!.targetNames as unknown[] : [];
+		const targetNames: string[] = [];
+		for (let t = 0; t < targetCount; t++) {
+			const name = extraNames[t];
+			targetNames.push(typeof name === "string" && name ? name : `target_${t}`);
+		}
+
+		// Default weights (node weights override mesh weights per glTF spec)
+		const defaultWeights = new Float32Array(targetCount);
+		const nodeWeights = nodeDef.getWeights();
+		const sourceWeights = nodeWeights.length > 0 ? nodeWeights : (mesh?.getWeights() ?? []);
+		for (let t = 0; t < targetCount && t < sourceWeights.length; t++) {
+			defaultWeights[t] = sourceWeights[t];
+		}
+
+		return {
+			node: nodeDef,
+			targetCount,
+			positionDeltas,
+			normalDeltas: hasNormalDeltas ? normalDeltas : null,
+			targetNames,
+			defaultWeights
+		};
+	}
+
 	/**
 	 * Update all mesh transforms synchronously (fallback mode).
 	 */
@@ -1521,22 +2385,54 @@ export class GltfModel {
 
 	/**
 	 * Draw all meshes.
+	 * OPAQUE and MASK meshes are drawn first in load order, then BLEND meshes back to front.
 	 * @param renderer The C3 renderer
-	 * @param frameId Current frame number (used to set cull mode once per frame)
+	 * @param cameraPosition Camera world position for BLEND sorting (load order if omitted)
 	 */
-	draw(renderer: IRenderer, frameId: number = 0): void {
-		// Set cull mode once per frame (not per model)
-		if (frameId !== lastCullModeFrame) {
-			renderer.setCullFaceMode("back");
-			lastCullModeFrame = frameId;
-		}
-
+	draw(renderer: IRenderer, cameraPosition?: Float32Array | null): void {
 		// Track last texture to avoid redundant state changes
 		// undefined = first draw (forces state setup), null = no texture
 		let lastTexture: ITexture | null | undefined = undefined;
+		const blendMeshes = this._blendQueue;
+		blendMeshes.length = 0;
+
 		for (const mesh of this._meshes) {
+			if (mesh.alphaMode === "BLEND") {
+				if (mesh.visible) blendMeshes.push(mesh);
+				continue;
+			}
+			this._setCullMode(renderer, mesh.doubleSided);
 			lastTexture = mesh.draw(renderer, lastTexture);
 		}
+
+		if (blendMeshes.length > 0) {
+			if (cameraPosition) {
+				for (const mesh of blendMeshes) {
+					mesh.updateSortDepth(cameraPosition);
+				}
+				blendMeshes.sort((a, b) => b.sortDepth - a.sortDepth);
+			}
+			for (const mesh of blendMeshes) {
+				this._setCullMode(renderer, mesh.doubleSided);
+				lastTexture = mesh.draw(renderer, lastTexture);
+			}
+			blendMeshes.length = 0;
+		}
+
+		// Leave back-face culling on for whatever draws next
+		this._setCullMode(renderer, false);
+	}
+
+	/** Whether any mesh uses the BLEND alpha mode (draw() wants a camera position) */
+	get hasBlendMeshes(): boolean {
+		return this._meshes.some(mesh => mesh.alphaMode === "BLEND");
+	}
+
+	private _setCullMode(renderer: IRenderer, doubleSided: boolean): void {
+		const mode = doubleSided ? "none" : "back";
+		if (renderer.getCullFaceMode() !== mode) {
+			renderer.setCullFaceMode(mode);
+		}
 	}
 
 	// ==================== Mesh Visibility API ====================
@@ -1628,11 +2524,18 @@ export class GltfModel {
 
 	/**
 	 * Get the world matrix for a named node (non-skinned models).
+	 * Nodes under animated or dynamic nodes return their current world matrix.
 	 * For skinned models, use AnimationController.getJointWorldMatrix() instead.
 	 * @param name Node name
 	 * @returns World matrix (16 floats) or null if not found
 	 */
 	getNodeWorldMatrix(name: string): Float32Array | null {
+		if (this._animatedNodes.size > 0 || this._dynamicNodes.size > 0) {
+			const node = this._nodesByName.get(name);
+			if (node?.hasAnimatedAncestor() && node.jointIndex < 0) {
+				return node.getWorldMatrix();
+			}
+		}
 		return this._nodeTransforms.get(name) ?? null;
 	}
 
@@ -1653,7 +2556,572 @@ export class GltfModel {
 		return this._nodeTransforms.has(name);
 	}
 
-	/**
+	// ==================== Node Hierarchy API ====================
+
+	/** Number of nodes in the hierarchy (including unnamed and duplicate-named nodes) */
+	get nodeCount(): number {
+		return this._nodeCount;
+	}
+
+	/**
+	 * Get the parent node name of a named node.
+	 * @returns Parent name, "" for root nodes, or null if the node doesn't exist
+	 */
+	getNodeParentName(name: string): string | null {
+		const node = this._nodesByName.get(name);
+		if (!node) return null;
+		return node.parent?.name ?? "";
+	}
+
+	/**
+	 * Get the child node names of a named node, in file order.
+	 * @returns Child names, or null if the node doesn't exist
+	 */
+	getNodeChildNames(name: string): string[] | null {
+		const node = this._nodesByName.get(name);
+		if (!node) return null;
+		return node.children.map(child => child.name);
+	}
+
+	/**
+	 * Find node names matching a pattern with * and ? wildcards (e.g. "spawn_enemy_*"), in file order.
+	 * @returns Matching node names (empty for an empty pattern)
+	 */
+	findNodeNames(pattern: string): string[] {
+		if (!pattern) return [];
+		const regex = wildcardToRegExp(pattern);
+		return Array.from(this._nodesByName.keys()).filter(name => regex.test(name));
+	}
+
+	/**
+	 * Get the node hierarchy with the meshes attached to each node.
+	 * @returns Root nodes of the loaded scene
+	 */
+	getNodeHierarchy(): GltfNodeInfo[] {
+		const meshIndices = new Map<GltfNode, number[]>();
+		this._meshes.forEach((mesh, index) => {
+			if (!mesh.parentNode) return;
+			const indices = meshIndices.get(mesh.parentNode);
+			if (indices) {
+				indices.push(index);
+			} else {
+				meshIndices.set(mesh.parentNode, [index]);
+			}
+		});
+
+		const describe = (node: GltfNode): GltfNodeInfo => ({
+			name: node.name,
+			meshes: meshIndices.get(node) ?? [],
+			jointIndex: node.jointIndex,
+			children: node.children.map(describe)
+		});
+		return this._rootNodes.map(describe);
+	}
+
+	// ==================== Extras API ====================
+
+	/** Extras of the glTF asset object */
+	get assetExtras(): Record<string, unknown> {
+		return this._assetExtras;
+	}
+
+	/** Extras of the loaded scene */
+	get sceneExtras(): Record<string, unknown> {
+		return this._sceneExtras;
+	}
+
+	/**
+	 * Get the extras of a named node.
+	 * @returns Extras object, or null if the node doesn't exist
+	 */
+	getNodeExtras(name: string): Record<string, unknown> | null {
+		return this._nodesByName.get(name)?.extras ?? null;
+	}
+
+	/**
+	 * Get the glTF mesh extras of a mesh by node name (the names used for mesh visibility).
+	 * @returns Extras object, or null if no mesh has the name
+	 */
+	getMeshExtras(name: string): Record<string, unknown> | null {
+		return this._meshes.find(mesh => mesh.name === name)?.extras ?? null;
+	}
+
+	/**
+	 * Get the extras of a named material (first material with the name).
+	 * @returns Extras object, or null if the material doesn't exist
+	 */
+	getMaterialExtras(name: string): Record<string, unknown> | null {
+		return this._materialExtras.get(name) ?? null;
+	}
+
+	// ==================== Collider API ====================
+
+	/**
+	 * Get the names of collision nodes (COL_* triangle mesh, UCX_* convex hull) that have meshes.
+	 * @returns Node names in file order
+	 */
+	getCollisionNodeNames(): string[] {
+		const names = new Set<string>();
+		for (const mesh of this._meshes) {
+			const collisionNode = findCollisionNode(mesh.parentNode);
+			if (collisionNode) names.add(collisionNode.name);
+		}
+		return Array.from(names);
+	}
+
+	/**
+	 * Build physics collider shapes from the model geometry (model space).
+	 * Rendered meshes are used for trimesh/convex sources; collision node meshes only for collision-nodes.
+	 * @param source Geometry to build from (see ColliderSource)
+	 * @returns Collider shapes (empty for an unknown source or a model without geometry)
+	 */
+	getColliders(source: ColliderSource = "auto"): ColliderData[] {
+		return this._getColliderGroups(source)
+			.map(group => buildCollider(group.type, group.meshes, group.node))
+			.filter((collider): collider is ColliderData => collider !== null);
+	}
+
+	/**
+	 * Number of shapes getColliders() returns for a source, without building their geometry.
+	 */
+	getColliderCount(source: ColliderSource = "auto"): number {
+		return this._getColliderGroups(source).filter(group => hasColliderGeometry(group.type, group.meshes)).length;
+	}
+
+	/** Group the meshes into one entry per collider shape for a source */
+	private _getColliderGroups(source: ColliderSource): ColliderGroup[] {
+		const renderMeshes: GltfMesh[] = [];
+		const collisionGroups = new Map<GltfNode, GltfMesh[]>();
+		for (const mesh of this._meshes) {
+			const collisionNode = findCollisionNode(mesh.parentNode);
+			if (!collisionNode) {
+				renderMeshes.push(mesh);
+			} else if (collisionGroups.has(collisionNode)) {
+				collisionGroups.get(collisionNode)!.push(mesh);
+			} else {
+				collisionGroups.set(collisionNode, [mesh]);
+			}
+		}
+
+		if (source === "auto") {
+			source = collisionGroups.size > 0 ? "collision-nodes" : "trimesh";
+		}
+
+		const groups: ColliderGroup[] = [];
+		switch (source) {
+			case "trimesh":
+				groups.push({ type: "trimesh", meshes: renderMeshes, node: "" });
+				break;
+			case "convex-mesh":
+				for (const mesh of renderMeshes) {
+					groups.push({ type: "convex", meshes: [mesh], node: mesh.name });
+				}
+				break;
+			case "convex-node": {
+				const nodeGroups = new Map<GltfNode | null, GltfMesh[]>();
+				for (const mesh of renderMeshes) {
+					const group = nodeGroups.get(mesh.parentNode);
+					if (group) {
+						group.push(mesh);
+					} else {
+						nodeGroups.set(mesh.parentNode, [mesh]);
+					}
+				}
+				for (const meshes of nodeGroups.values()) {
+					groups.push({ type: "convex", meshes, node: meshes[0].name });
+				}
+				break;
+			}
+			case "collision-nodes":
+				for (const [node, meshes] of collisionGroups) {
+					groups.push({ type: getCollisionNodeType(node.name)!, meshes, node: node.name });
+				}
+				break;
+		}
+		return groups;
+	}
+
+	// ==================== Raycast API ====================
+
+	/**
+	 * Find the closest hit of a world-space ray against the visible meshes (both faces).
+	 * Rigid meshes are tested in the space of their original positions with the shared BVH.
+	 * Skinned and morphed meshes use their current world positions (the pose last uploaded) with refitted bounds.
+	 * @param origin Ray origin (world space)
+	 * @param direction Ray direction (world space; normalize it so distances are in world units)
+	 * @param instanceMatrix Instance TRS matrix the meshes are transformed with
+	 * @param maxDistance Ignore hits further than this
+	 * @param poseFrame Refitted bounds are reused while this doesn't change (-1 = always refit)
+	 * @returns Closest hit, or null if the ray misses
+	 */
+	raycast(
+		origin: ArrayLike<number>,
+		direction: ArrayLike<number>,
+		instanceMatrix: Float32Array,
+		maxDistance: number = Infinity,
+		poseFrame: number = -1
+	): GltfRaycastHit | null {
+		if (!this._isLoaded) return null;
+
+		const rayOrigin = vec3.fromValues(origin[0], origin[1], origin[2]);
+		const rayEnd = vec3.fromValues(origin[0] + direction[0], origin[1] + direction[1], origin[2] + direction[2]);
+		const toWorld = mat4.create();
+		const toLocal = mat4.create();
+		const localOrigin = vec3.create();
+		const localDirection = vec3.create();
+
+		let bestDistance = maxDistance;
+		let bestMesh = -1;
+		let bestTriangle = -1;
+		const bestToWorld = mat4.create();
+
+		for (let i = 0; i < this._meshes.length; i++) {
+			const mesh = this._meshes[i];
+			const indices = mesh.indices;
+			if (!mesh.visible || !indices) continue;
+			const bvh = this._getMeshBvh(mesh, i);
+			if (!bvh) continue;
+
+			let hit: BvhRayHit | null;
+			if (mesh.isSkinned || mesh.hasMorphTargets) {
+				const positions = mesh.currentPositions!;
+				const bounds = this._getRefitBounds(mesh, bvh, positions, indices, poseFrame);
+				hit = raycastMeshBvh(bvh, bounds, positions, indices, rayOrigin, direction, bestDistance);
+				mat4.identity(toWorld);
+			} else {
+				if (mesh.usesRuntimeTransform && mesh.parentNode) {
+					mat4.multiply(toWorld, instanceMatrix as unknown as mat4, mesh.parentNode.getWorldMatrix() as unknown as mat4);
+				} else {
+					mat4.copy(toWorld, instanceMatrix as unknown as mat4);
+				}
+				if (!mat4.invert(toLocal, toWorld)) continue;  // Zero scale
+
+				// Direction stays unnormalized so the hit parameter is the world distance
+				vec3.transformMat4(localOrigin, rayOrigin, toLocal);
+				vec3.transformMat4(localDirection, rayEnd, toLocal);
+				vec3.subtract(localDirection, localDirection, localOrigin);
+				hit = raycastMeshBvh(bvh, bvh.bounds, mesh.originalPositions!, indices, localOrigin, localDirection, bestDistance);
+			}
+
+			if (hit) {
+				bestDistance = hit.t;
+				bestMesh = i;
+				bestTriangle = hit.triangle;
+				mat4.copy(bestToWorld, toWorld);
+			}
+		}
+
+		if (bestMesh < 0) return null;
+
+		// Triangle normal in world space, flipped to face the ray origin
+		const mesh = this._meshes[bestMesh];
+		const positions = (mesh.isSkinned || mesh.hasMorphTargets) ? mesh.currentPositions! : mesh.originalPositions!;
+		const indices = mesh.indices!;
+		const corners = [0, 1, 2].map(k => {
+			const v = indices[bestTriangle * 3 + k] * 3;
+			return vec3.transformMat4(vec3.create(), vec3.fromValues(positions[v], positions[v + 1], positions[v + 2]), bestToWorld);
+		});
+		const normal = vec3.cross(
+			vec3.create(),
+			vec3.subtract(vec3.create(), corners[1], corners[0]),
+			vec3.subtract(vec3.create(), corners[2], corners[0])
+		);
+		vec3.normalize(normal, normal);
+		if (vec3.dot(normal, vec3.subtract(vec3.create(), rayEnd, rayOrigin)) > 0) {
+			vec3.negate(normal, normal);
+		}
+
+		return {
+			distance: bestDistance,
+			point: [
+				origin[0] + direction[0] * bestDistance,
+				origin[1] + direction[1] * bestDistance,
+				origin[2] + direction[2] * bestDistance
+			],
+			normal: [normal[0], normal[1], normal[2]],
+			meshIndex: bestMesh,
+			meshName: mesh.meshName,
+			nodeName: mesh.name,
+			triangleIndex: bestTriangle
+		};
+	}
+
+	/**
+	 * Get the raycast BVH for a mesh, building it on first use.
+	 * BVHs are shared per cached scene, keyed by the space the mesh positions are in.
+	 */
+	private _getMeshBvh(mesh: GltfMesh, meshIndex: number): MeshBvh | null {
+		const positions = mesh.originalPositions;
+		const indices = mesh.indices;
+		if (!positions || !indices) return null;
+
+		const key = mesh.usesRuntimeTransform ? `${meshIndex}:local` : `${meshIndex}`;
+		let bvh = this._meshBvh.get(key);
+		if (!bvh) {
+			bvh = buildMeshBvh(positions, indices);
+			this._meshBvh.set(key, bvh);
+		}
+		return bvh;
+	}
+
+	/** BVH bounds refitted to a deforming mesh's current positions (once per pose frame) */
+	private _getRefitBounds(
+		mesh: GltfMesh,
+		bvh: MeshBvh,
+		positions: Float32Array,
+		indices: Uint16Array | Uint32Array,
+		poseFrame: number
+	): Float32Array {
+		let refit = this._refitBounds.get(mesh);
+		if (!refit) {
+			refit = { bounds: new Float32Array(bvh.bounds.length), frame: -1 };
+			this._refitBounds.set(mesh, refit);
+		}
+		if (poseFrame < 0 || refit.frame !== poseFrame) {
+			refitMeshBvh(bvh, positions, indices, refit.bounds);
+			refit.frame = poseFrame;
+		}
+		return refit.bounds;
+	}
+
+	// ==================== Pose Bounds API ====================
+
+	/**
+	 * Recompute the bounding box from the current pose (skinned joints, animated and dynamic nodes).
+	 * Skinned vertices follow their highest-weight joint and morph targets are ignored, so the box is approximate.
+	 * The local center (rotation pivot) is unchanged.
+	 * Call after updateJointNodes(), updateAnimatedNodes() and node edits.
+	 * @param animController Controller holding the current joint pose (null = bind pose)
+	 */
+	updatePoseBounds(animController: AnimationController | null): void {
+		if (!this._isLoaded) return;
+
+		this._poseBoundsData ??= this._computePoseBoundsData();
+		const data = this._poseBoundsData;
+		const min = this._boundingBoxMin;
+		const max = this._boundingBoxMax;
+		min.set(data.staticBounds.subarray(0, 3));
+		max.set(data.staticBounds.subarray(3, 6));
+
+		if (animController) {
+			const jointMatrices = animController.getJointWorldMatrices();
+			const jointBounds = data.jointBounds;
+			const jointCount = Math.min(jointBounds.length / 6, jointMatrices.length / 16);
+			for (let j = 0; j < jointCount; j++) {
+				if (jointBounds[j * 6] > jointBounds[j * 6 + 3]) continue;  // No vertices follow this joint
+				expandByTransformedBounds(min, max, jointMatrices, j * 16, jointBounds, j * 6);
+			}
+		} else {
+			for (let i = 0; i < 3; i++) {
+				min[i] = Math.min(min[i], data.skinnedBounds[i]);
+				max[i] = Math.max(max[i], data.skinnedBounds[i + 3]);
+			}
+		}
+
+		for (const [mesh, bounds] of data.meshBounds) {
+			expandByTransformedBounds(min, max, mesh.parentNode!.getWorldMatrix(), 0, bounds, 0);
+		}
+
+		// No geometry: keep the load-time box
+		if (min[0] > max[0]) {
+			this.resetPoseBounds();
+		}
+	}
+
+	/** Restore the load-time (bind pose) bounding box */
+	resetPoseBounds(): void {
+		this._boundingBoxMin.set(this._restBoundingBoxMin);
+		this._boundingBoxMax.set(this._restBoundingBoxMax);
+	}
+
+	/** Build the local-space bounds used by updatePoseBounds() */
+	private _computePoseBoundsData(): PoseBoundsData {
+		const staticBounds = createEmptyBounds(1);
+		const skinnedBounds = createEmptyBounds(1);
+		const jointBounds = createEmptyBounds(this._skeleton?.joints.length ?? 0);
+		const meshBounds = new Map<GltfMesh, Float32Array>();
+
+		for (const mesh of this._meshes) {
+			const positions = mesh.originalPositions;
+			if (!positions || positions.length === 0) continue;
+
+			const skinningData = mesh.skinningData;
+			if (mesh.isSkinned && skinningData && this._skeleton) {
+				// Bind pose vertex -> joint space of its highest-weight joint
+				const jointMap = this._skeleton.skinJointMaps[skinningData.skinIndex];
+				const inverseBindMatrices = this._skins[skinningData.skinIndex].inverseBindMatrices;
+				const { joints, weights } = skinningData;
+				for (let v = 0; v < positions.length / 3; v++) {
+					const x = positions[v * 3];
+					const y = positions[v * 3 + 1];
+					const z = positions[v * 3 + 2];
+					expandBoundsByPoint(skinnedBounds, 0, x, y, z);
+
+					let best = v * 4;
+					for (let k = v * 4 + 1; k < v * 4 + 4; k++) {
+						if (weights[k] > weights[best]) best = k;
+					}
+					const skinJoint = joints[best];
+					const m = inverseBindMatrices;
+					const o = skinJoint * 16;
+					expandBoundsByPoint(
+						jointBounds,
+						jointMap[skinJoint] * 6,
+						m[o] * x + m[o + 4] * y + m[o + 8] * z + m[o + 12],
+						m[o + 1] * x + m[o + 5] * y + m[o + 9] * z + m[o + 13],
+						m[o + 2] * x + m[o + 6] * y + m[o + 10] * z + m[o + 14]
+					);
+				}
+			} else if (mesh.usesRuntimeTransform && mesh.parentNode) {
+				const bounds = createEmptyBounds(1);
+				for (let i = 0; i < positions.length; i += 3) {
+					expandBoundsByPoint(bounds, 0, positions[i], positions[i + 1], positions[i + 2]);
+				}
+				meshBounds.set(mesh, bounds);
+			} else {
+				for (let i = 0; i < positions.length; i += 3) {
+					expandBoundsByPoint(staticBounds, 0, positions[i], positions[i + 1], positions[i + 2]);
+				}
+			}
+		}
+
+		debugLog(`Pose bounds: ${jointBounds.length / 6} joint(s), ${meshBounds.size} runtime mesh(es)`);
+		return { staticBounds, skinnedBounds, jointBounds, meshBounds };
+	}
+
+	// ==================== Node Articulation API ====================
+
+	/**
+	 * Set the local translation of a named node (keeps its rotation and scale).
+	 * The node becomes dynamic and is no longer driven by animation until reset.
+	 * @returns false if the node doesn't exist or is a skeleton joint
+	 */
+	setNodeTranslation(name: string, x: number, y: number, z: number): boolean {
+		return this._editNodeLocalTransform(name, (t) => vec3.set(t, x, y, z));
+	}
+
+	/**
+	 * Set the local rotation of a named node from euler angles in degrees (keeps translation and scale).
+	 * @returns false if the node doesn't exist or is a skeleton joint
+	 */
+	setNodeRotation(name: string, x: number, y: number, z: number): boolean {
+		return this._editNodeLocalTransform(name, (_t, r) => quatFromEulerDegrees(r, x, y, z));
+	}
+
+	/**
+	 * Set the local scale of a named node (keeps translation and rotation).
+	 * @returns false if the node doesn't exist or is a skeleton joint
+	 */
+	setNodeScale(name: string, x: number, y: number, z: number): boolean {
+		return this._editNodeLocalTransform(name, (_t, _r, sc) => vec3.set(sc, x, y, z));
+	}
+
+	/**
+	 * Restore a node's local transform from the file. Animated nodes resume following their animation.
+	 * The subtree stays in local space (cheap to move again).
+	 * @returns false if the node doesn't exist or is a skeleton joint
+	 */
+	resetNode(name: string): boolean {
+		const node = this._nodesByName.get(name);
+		if (!node || node.jointIndex >= 0) return false;
+		node.overridden = false;
+		node.resetLocalMatrix();
+		return true;
+	}
+
+	/** Restore every node changed from events (see resetNode) */
+	resetAllNodes(): void {
+		for (const node of this._dynamicNodes) {
+			node.overridden = false;
+			node.resetLocalMatrix();
+		}
+	}
+
+	/**
+	 * Get the local translation of a named node.
+	 * @returns [x, y, z] or null if not found
+	 */
+	getNodeTranslation(name: string): [number, number, number] | null {
+		const node = this._nodesByName.get(name);
+		if (!node) return null;
+		const t = mat4.getTranslation(this._tempTranslation, node.localMatrix as unknown as mat4);
+		return [t[0], t[1], t[2]];
+	}
+
+	/**
+	 * Get the local rotation of a named node as euler angles in degrees.
+	 * @returns [x, y, z] or null if not found
+	 */
+	getNodeRotation(name: string): [number, number, number] | null {
+		const node = this._nodesByName.get(name);
+		if (!node) return null;
+		return eulerDegreesFromQuat(mat4.getRotation(this._tempRotation, node.localMatrix as unknown as mat4));
+	}
+
+	/**
+	 * Get the local scale of a named node.
+	 * @returns [x, y, z] or null if not found
+	 */
+	getNodeScale(name: string): [number, number, number] | null {
+		const node = this._nodesByName.get(name);
+		if (!node) return null;
+		const sc = mat4.getScaling(this._tempScale, node.localMatrix as unknown as mat4);
+		return [sc[0], sc[1], sc[2]];
+	}
+
+	/**
+	 * Decompose a node's local matrix, let edit() change one component, and recompose.
+	 * Skeleton joints are driven by the animation controller and can't be edited here.
+	 */
+	private _editNodeLocalTransform(name: string, edit: (translation: vec3, rotation: quat, scale: vec3) => void): boolean {
+		const node = this._nodesByName.get(name);
+		if (!node) return false;
+		if (node.jointIndex >= 0) {
+			debugWarn(`Node "${name}" is a skeleton joint, node transforms don't apply`);
+			return false;
+		}
+
+		this._makeNodeDynamic(node);
+
+		const m = node.localMatrix as unknown as mat4;
+		const t = mat4.getTranslation(this._tempTranslation, m);
+		const r = mat4.getRotation(this._tempRotation, m);
+		const sc = mat4.getScaling(this._tempScale, m);
+		edit(t, r, sc);
+		quat.normalize(r, r);
+		mat4.fromRotationTranslationScale(m, r, t, sc);
+
+		node.overridden = true;
+		node.invalidate();
+		return true;
+	}
+
+	/**
+	 * Flag a node as dynamic. Meshes below it that had the node world transform baked in
+	 * at load are moved back to local space so updateStaticMeshTransforms() applies the node.
+	 */
+	private _makeNodeDynamic(node: GltfNode): void {
+		if (node.dynamic) return;
+
+		// Meshes already in local space (under animated nodes, morphs) need nothing
+		const bakedMeshes = this._meshes.filter(mesh =>
+			mesh.parentNode?.isDescendantOf(node) && !mesh.isSkinned && !mesh.usesRuntimeTransform
+		);
+
+		// Unbake using the world matrices that were baked (the node hasn't moved yet)
+		const inverseWorld = mat4.create();
+		for (const mesh of bakedMeshes) {
+			mat4.invert(inverseWorld, mesh.parentNode!.getWorldMatrix() as unknown as mat4);
+			mesh.unbakeNodeTransform(inverseWorld as Float32Array);
+		}
+
+		node.dynamic = true;
+		this._dynamicNodes.add(node);
+		this._poseBoundsData = null;  // Unbaked meshes moved to local space
+		debugLog(`Node "${node.name}" is now dynamic (${bakedMeshes.length} mesh(es) moved to local space)`);
+	}
+
+	/**
 	 * Sync joint nodes with animation controller's computed local transforms.
 	 * Call this after AnimationController.update() to update node hierarchy.
 	 * @param animController The animation controller with updated joint transforms
@@ -1670,26 +3138,257 @@ export class GltfModel {
 	}
 
 	/**
-	 * Update static mesh positions and lighting for non-skinned meshes under animated joints.
-	 * Call this after updateJointNodes(). Skinned meshes are skipped (handled via bone matrices).
-	 * Meshes with animated ancestors also get main-thread lighting (worker pool excludes them).
+	 * Sync animated non-joint nodes with the animation controller's node transforms.
+	 * Call this after AnimationController.update(); meshes under these nodes pick up
+	 * the new world matrices in updateStaticMeshTransforms().
+	 * @param animController The animation controller with updated node transforms
+	 */
+	updateAnimatedNodes(animController: AnimationController): void {
+		if (this._animatedNodes.size === 0) return;
+		const nodeDefs = animController.getAnimatedNodes();
+		for (let i = 0; i < nodeDefs.length; i++) {
+			const node = this._animatedNodes.get(nodeDefs[i]);
+			if (!node || node.overridden) continue;
+			const localTransform = animController.getNodeLocalTransform(i);
+			if (localTransform) {
+				node.setLocalMatrix(localTransform);
+			}
+		}
+	}
+
+	/**
+	 * Sync mesh morph weights with the animation controller's "weights" channels.
+	 * Meshes whose node isn't driven by the current animation keep their weights (manual control).
+	 * Call this after AnimationController.update(), before skinning/static transforms.
+	 * @param animController The animation controller with evaluated morph weights
+	 */
+	updateMorphWeights(animController: AnimationController): void {
+		if (!animController.hasMorphAnimation()) return;
+		for (const mesh of this._meshes) {
+			const morphData = mesh.morphData;
+			if (!morphData) continue;
+			const weights = animController.getMorphWeights(morphData.node);
+			if (weights) {
+				mesh.setMorphWeights(weights);
+			}
+		}
+	}
+
+	/**
+	 * Update static mesh positions and lighting for non-skinned meshes under animated joints/nodes,
+	 * dynamic nodes or with morph targets. Call this after updateJointNodes(), updateAnimatedNodes()
+	 * and updateMorphWeights().
+	 * Skinned meshes and meshes with baked node transforms are skipped (bone matrices / worker pool).
+	 * Runtime-transformed meshes also get main-thread lighting (worker pool excludes them).
 	 */
 	updateStaticMeshTransforms(instanceMatrix?: Float32Array, cameraPosition?: Float32Array | null): void {
 		for (const mesh of this._meshes) {
-			if (!mesh.isSkinned && mesh.parentNode) {
-				const hasAnimAncestor = mesh.parentNode.hasAnimatedAncestor();
-				mesh.updateNodeTransform(hasAnimAncestor ? instanceMatrix : undefined);
-				if (hasAnimAncestor) mesh.applyLighting(null, false, cameraPosition);
+			if (!mesh.isSkinned && mesh.parentNode && mesh.usesRuntimeTransform) {
+				mesh.updateNodeTransform(instanceMatrix);
+				mesh.applyLighting(null, false, cameraPosition);
 			}
 		}
 	}
 
+	// ==================== Morph Target API ====================
+
+	/**
+	 * Set a morph target weight by target name on every mesh that has it.
+	 * Overridden each tick while the current animation has a "weights" channel for that mesh.
+	 * @param targetName Morph target name (from mesh extras.targetNames, or "target_<i>")
+	 * @param weight Weight (usually 0-1)
+	 * @returns Number of meshes affected
+	 */
+	setMorphWeightByName(targetName: string, weight: number): number {
+		let count = 0;
+		for (const mesh of this._meshes) {
+			const index = mesh.getMorphTargetIndex(targetName);
+			if (index >= 0 && mesh.setMorphWeight(index, weight)) {
+				count++;
+			}
+		}
+		return count;
+	}
+
+	/**
+	 * Get a morph target weight by target name (first mesh that has it).
+	 * @param targetName Morph target name
+	 * @returns Weight, or undefined if no mesh has the target
+	 */
+	getMorphWeightByName(targetName: string): number | undefined {
+		for (const mesh of this._meshes) {
+			const index = mesh.getMorphTargetIndex(targetName);
+			if (index >= 0) {
+				return mesh.morphWeights![index];
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Get all unique morph target names in the model.
+	 * @returns Array of target names
+	 */
+	getMorphTargetNames(): string[] {
+		const names = new Set<string>();
+		for (const mesh of this._meshes) {
+			const morphData = mesh.morphData;
+			if (!morphData) continue;
+			for (const name of morphData.targetNames) {
+				names.add(name);
+			}
+		}
+		return Array.from(names);
+	}
+
+	// ==================== Punctual Light API (KHR_lights_punctual) ====================
+
+	/** Number of KHR_lights_punctual lights in the model */
+	get punctualLightCount(): number {
+		return this._punctualLights.length;
+	}
+
+	/**
+	 * Create Lighting lights for all KHR_lights_punctual lights in the model.
+	 * Position and direction come from each node's world transform under the instance matrix.
+	 * Does nothing if already created.
+	 * @param instanceMatrix Instance TRS matrix (model space -> world)
+	 * @param intensityScale Multiplier applied to the file's intensities
+	 * @returns Number of lights created
+	 */
+	createPunctualLights(instanceMatrix: Float32Array, intensityScale: number = 1): number {
+		if (this._punctualLightsCreated) return 0;
+		this._punctualLightsCreated = true;
+
+		for (const light of this._punctualLights) {
+			const intensity = light.intensity * intensityScale;
+			const [r, g, b] = light.color;
+			switch (light.type) {
+				case "directional":
+					light.lightId = createDirectionalLight(0, 1, 0);
+					setLightColor(light.lightId, r, g, b);
+					setLightIntensity(light.lightId, intensity);
+					break;
+				case "point":
+					light.lightId = createPointLight(0, 0, 0, 0);
+					setSpotLightColor(light.lightId, r, g, b);
+					setSpotLightIntensity(light.lightId, intensity);
+					break;
+				case "spot":
+					light.lightId = createSpotLight(0, 0, 0, 0, -1, 0, light.innerConeAngleDeg, light.outerConeAngleDeg);
+					setSpotLightColor(light.lightId, r, g, b);
+					setSpotLightIntensity(light.lightId, intensity);
+					break;
+			}
+			// Force the first transform update
+			light.lastPosition.fill(NaN);
+			light.lastDirection.fill(NaN);
+			light.lastRange = NaN;
+		}
+
+		this.updatePunctualLights(instanceMatrix);
+		debugLog(`Created ${this._punctualLights.length} punctual light(s)`);
+		return this._punctualLights.length;
+	}
+
+	/**
+	 * Move created punctual lights to follow their nodes under the instance matrix.
+	 * Only pushes changes to Lighting when a position, direction or range actually changed.
+	 * @param instanceMatrix Instance TRS matrix (model space -> world)
+	 */
+	updatePunctualLights(instanceMatrix: Float32Array): void {
+		if (!this._punctualLightsCreated) return;
+
+		const m = this._tempLightMatrix;
+		for (const light of this._punctualLights) {
+			if (light.lightId < 0) continue;
+
+			mat4.multiply(m as mat4, instanceMatrix as unknown as mat4, light.node.getWorldMatrix() as unknown as mat4);
+
+			// Lights point down local -Z; Lighting's directional lights store the direction TO the light (+Z)
+			const sign = light.type === "directional" ? 1 : -1;
+			const dx = m[8] * sign, dy = m[9] * sign, dz = m[10] * sign;
+			const directionChanged = dx !== light.lastDirection[0] || dy !== light.lastDirection[1] || dz !== light.lastDirection[2];
+
+			if (light.type === "directional") {
+				if (directionChanged) setLightDirection(light.lightId, dx, dy, dz);
+			} else {
+				const x = m[12], y = m[13], z = m[14];
+				if (x !== light.lastPosition[0] || y !== light.lastPosition[1] || z !== light.lastPosition[2]) {
+					setSpotLightPosition(light.lightId, x, y, z);
+					light.lastPosition[0] = x;
+					light.lastPosition[1] = y;
+					light.lastPosition[2] = z;
+				}
+				if (directionChanged && light.type === "spot") {
+					setSpotLightDirection(light.lightId, dx, dy, dz);
+				}
+
+				// Range scales with the node/instance (largest axis scale)
+				const scale = Math.max(
+					Math.hypot(m[0], m[1], m[2]),
+					Math.hypot(m[4], m[5], m[6]),
+					Math.hypot(m[8], m[9], m[10])
+				);
+				const range = light.range * scale;
+				if (range !== light.lastRange) {
+					setSpotLightRange(light.lightId, range);
+					light.lastRange = range;
+				}
+			}
+
+			light.lastDirection[0] = dx;
+			light.lastDirection[1] = dy;
+			light.lastDirection[2] = dz;
+		}
+	}
+
+	/**
+	 * Remove all Lighting lights created by createPunctualLights().
+	 */
+	removePunctualLights(): void {
+		for (const light of this._punctualLights) {
+			if (light.lightId < 0) continue;
+			if (light.type === "directional") {
+				removeLight(light.lightId);
+			} else {
+				removeSpotLight(light.lightId);
+			}
+			light.lightId = -1;
+		}
+		this._punctualLightsCreated = false;
+	}
+
+	/**
+	 * Record a KHR_lights_punctual light found on a node.
+	 */
+	private _addPunctualLight(lightDef: GltfLightDef, node: GltfNode): void {
+		const type = lightDef.getType() as PunctualLight["type"];
+		this._punctualLights.push({
+			type,
+			node,
+			color: new Float32Array(lightDef.getColor()),
+			intensity: lightDef.getIntensity(),
+			range: lightDef.getRange() ?? 0,
+			innerConeAngleDeg: lightDef.getInnerConeAngle() * RAD_TO_DEG,
+			outerConeAngleDeg: lightDef.getOuterConeAngle() * RAD_TO_DEG,
+			lightId: -1,
+			lastPosition: new Float32Array(3),
+			lastDirection: new Float32Array(3),
+			lastRange: 0
+		});
+	}
+
 	/**
 	 * Release all resources.
 	 * Meshes are released directly, textures are released via cache (shared).
 	 * Skinning/animation data is shared via cache and not directly deleted.
 	 */
 	release(renderer: IRenderer): void {
+		// Remove lights imported from KHR_lights_punctual
+		this.removePunctualLights();
+		this._punctualLights = [];
+
 		// Release all meshes first (they will unregister from pool)
 		for (const mesh of this._meshes) {
 			mesh.release();
@@ -1706,11 +3405,18 @@ export class GltfModel {
 
 		// Clear references to shared skinning/animation data (cache owns this data)
 		this._skins = [];
+		this._skeleton = null;
 		this._animations = [];
 		this._meshSkinningData = new Map();
 		this._nodeTransforms.clear();
 		this._rootNodes = [];
+		this._nodeCount = 0;
 		this._nodesByName.clear();
+		this._animatedNodes.clear();
+		this._dynamicNodes.clear();
+		this._poseBoundsData = null;
+		this._meshBvh = new Map();
+		this._refitBounds.clear();
 
 		// Don't delete textures directly - release via cache
 		this._textures = [];
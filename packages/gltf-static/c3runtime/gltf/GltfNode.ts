@@ -1,4 +1,29 @@
-import { mat4 } from "gl-matrix";
+import { mat4, quat } from "gl-matrix";
+
+const DEG_TO_RAD = Math.PI / 180;
+
+/**
+ * Quaternion for euler angles in degrees, matching the editor rotation order Rx * Ry * Rz
+ * (Z applied first to vertex, then Y, then X).
+ * This is intrinsic XYZ / extrinsic ZYX order.
+ * Note: quat.fromEuler uses intrinsic ZYX which gives Rz*Ry*Rx — wrong order.
+ */
+export function quatFromEulerDegrees(out: quat, x: number, y: number, z: number): quat {
+	const rx = x * DEG_TO_RAD * 0.5;
+	const ry = y * DEG_TO_RAD * 0.5;
+	const rz = z * DEG_TO_RAD * 0.5;
+
+	const sx = Math.sin(rx), cx = Math.cos(rx);
+	const sy = Math.sin(ry), cy = Math.cos(ry);
+	const sz = Math.sin(rz), cz = Math.cos(rz);
+
+	// Quaternion for Rx * Ry * Rz (intrinsic XYZ)
+	out[0] = sx * cy * cz + cx * sy * sz; // x
+	out[1] = cx * sy * cz - sx * cy * sz; // y
+	out[2] = cx * cy * sz + sx * sy * cz; // z
+	out[3] = cx * cy * cz - sx * sy * sz; // w
+	return out;
+}
 
 /**
  * Represents a node in the glTF scene graph.
@@ -9,7 +34,12 @@ export class GltfNode {
 	parent: GltfNode | null = null;
 	children: GltfNode[] = [];
 	localMatrix: Float32Array;
+	readonly restMatrix: Float32Array;  // Local matrix from the file (for resets)
 	jointIndex: number = -1;  // -1 if not a joint
+	animated: boolean = false;  // true if targeted by non-joint animation channels (rigid animation)
+	dynamic: boolean = false;  // true if transformed at runtime (from events or the dynamic nodes list)
+	overridden: boolean = false;  // true while the local matrix is set from events (animation doesn't overwrite it)
+	extras: Record<string, unknown> = {};  // Custom properties from glTF (references the cached document, read-only)
 
 	private _worldMatrix: Float32Array;
 	private _dirty: boolean = true;
@@ -17,6 +47,7 @@ export class GltfNode {
 	constructor(name: string, localMatrix: mat4 | Float32Array) {
 		this.name = name;
 		this.localMatrix = new Float32Array(localMatrix as Float32Array);
+		this.restMatrix = new Float32Array(this.localMatrix);
 		this._worldMatrix = new Float32Array(16);
 	}
 
@@ -57,11 +88,26 @@ export class GltfNode {
 		this.children.push(child);
 	}
 
-	/** Check if this node or any ancestor is a joint (animated) */
+	/** Restore the local matrix from the file and mark dirty */
+	resetLocalMatrix(): void {
+		this.setLocalMatrix(this.restMatrix);
+	}
+
+	/** Check if this node is the given node or one of its descendants */
+	isDescendantOf(ancestor: GltfNode): boolean {
+		let node: GltfNode | null = this;
+		while (node) {
+			if (node === ancestor) return true;
+			node = node.parent;
+		}
+		return false;
+	}
+
+	/** Check if this node or any ancestor is a joint, an animated node or a dynamic node */
 	hasAnimatedAncestor(): boolean {
 		let node: GltfNode | null = this;
 		while (node) {
-			if (node.jointIndex >= 0) return true;
+			if (node.jointIndex >= 0 || node.animated || node.dynamic) return true;
 			node = node.parent;
 		}
 		return false;
@@ -1096,11 +1096,12 @@ export function calculateMeshLighting(
 			}
 		}
 
-		// Write output (clamped, alpha = 1)
-		outColors[off4] = r > 2 ? 2 : r;
-		outColors[off4 + 1] = g > 2 ? 2 : g;
-		outColors[off4 + 2] = b > 2 ? 2 : b;
-		outColors[off4 + 3] = 1;
+		// Write output (clamped, premultiplied by source alpha)
+		const a = sourceColors ? sourceColors[off4 + 3] : 1;
+		outColors[off4] = (r > 2 ? 2 : r) * a;
+		outColors[off4 + 1] = (g > 2 ? 2 : g) * a;
+		outColors[off4 + 2] = (b > 2 ? 2 : b) * a;
+		outColors[off4 + 3] = a;
 	}
 }
 
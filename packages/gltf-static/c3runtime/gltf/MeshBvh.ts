@@ -0,0 +1,259 @@
+/**
+ * Triangle bounding volume hierarchy for CPU raycasts.
+ * Built once per mesh and shared through the model cache; deforming meshes (skinned, morph targets)
+ * keep the shared tree layout and refit the node bounds to their current positions.
+ *
+ * Nodes are stored depth-first: the left child of an inner node is the next node,
+ * the right child is at offsets[node].
+ */
+
+/** Maximum triangles per leaf */
+const LEAF_SIZE = 8;
+
+/** Flattened BVH over the triangles of one mesh (shared, immutable after build) */
+export interface MeshBvh {
+	/** Node bounds, 6 floats per node (min xyz, max xyz) for the positions the tree was built from */
+	bounds: Float32Array;
+	/** Leaf: first entry in triangles. Inner node: index of the right child */
+	offsets: Uint32Array;
+	/** Leaf: triangle count. Inner node: 0 */
+	counts: Uint32Array;
+	/** Triangle indices (into the index buffer, / 3) grouped by leaf */
+	triangles: Uint32Array;
+	/** Number of nodes */
+	nodeCount: number;
+}
+
+/** Closest triangle hit along a ray */
+export interface BvhRayHit {
+	/** Ray parameter (distance when the direction is normalized) */
+	t: number;
+	/** Triangle index (index buffer offset / 3) */
+	triangle: number;
+}
+
+/** Bounds of a range of triangles, written to out at outOffset */
+function computeTriangleBounds(
+	positions: Float32Array,
+	indices: Uint16Array | Uint32Array,
+	triangles: Uint32Array,
+	start: number,
+	end: number,
+	out: Float32Array,
+	outOffset: number
+): void {
+	let minX = Infinity, minY = Infinity, minZ = Infinity;
+	let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+	for (let i = start; i < end; i++) {
+		const tri = triangles[i] * 3;
+		for (let k = 0; k < 3; k++) {
+			const v = indices[tri + k] * 3;
+			const x = positions[v], y = positions[v + 1], z = positions[v + 2];
+			if (x < minX) minX = x;
+			if (x > maxX) maxX = x;
+			if (y < minY) minY = y;
+			if (y > maxY) maxY = y;
+			if (z < minZ) minZ = z;
+			if (z > maxZ) maxZ = z;
+		}
+	}
+	out[outOffset] = minX;
+	out[outOffset + 1] = minY;
+	out[outOffset + 2] = minZ;
+	out[outOffset + 3] = maxX;
+	out[outOffset + 4] = maxY;
+	out[outOffset + 5] = maxZ;
+}
+
+/**
+ * Build a BVH by splitting triangle centroids at the median of the longest axis.
+ * @param positions Vertex positions (x, y, z per vertex)
+ * @param indices Triangle list indices
+ */
+export function buildMeshBvh(positions: Float32Array, indices: Uint16Array | Uint32Array): MeshBvh {
+	const triangleCount = Math.floor(indices.length / 3);
+	const triangles = new Uint32Array(triangleCount);
+	const centroids = new Float32Array(triangleCount * 3);
+	for (let i = 0; i < triangleCount; i++) {
+		triangles[i] = i;
+		for (let k = 0; k < 3; k++) {
+			const v = indices[i * 3 + k] * 3;
+			centroids[i * 3] += positions[v] / 3;
+			centroids[i * 3 + 1] += positions[v + 1] / 3;
+			centroids[i * 3 + 2] += positions[v + 2] / 3;
+		}
+	}
+
+	// A binary tree with leaves of at least one triangle has fewer than 2 * triangleCount nodes
+	const maxNodes = Math.max(1, triangleCount * 2);
+	const bounds = new Float32Array(maxNodes * 6);
+	const offsets = new Uint32Array(maxNodes);
+	const counts = new Uint32Array(maxNodes);
+	let nodeCount = 0;
+
+	const buildNode = (start: number, end: number): number => {
+		const node = nodeCount++;
+		computeTriangleBounds(positions, indices, triangles, start, end, bounds, node * 6);
+
+		if (end - start <= LEAF_SIZE) {
+			offsets[node] = start;
+			counts[node] = end - start;
+			return node;
+		}
+
+		// Longest axis of the centroid bounds
+		const minC = [Infinity, Infinity, Infinity];
+		const maxC = [-Infinity, -Infinity, -Infinity];
+		for (let i = start; i < end; i++) {
+			const c = triangles[i] * 3;
+			for (let a = 0; a < 3; a++) {
+				minC[a] = Math.min(minC[a], centroids[c + a]);
+				maxC[a] = Math.max(maxC[a], centroids[c + a]);
+			}
+		}
+		const extents = [maxC[0] - minC[0], maxC[1] - minC[1], maxC[2] - minC[2]];
+		const axis = extents[0] >= extents[1] && extents[0] >= extents[2] ? 0 : (extents[1] >= extents[2] ? 1 : 2);
+
+		triangles.subarray(start, end).sort((a, b) => centroids[a * 3 + axis] - centroids[b * 3 + axis]);
+		const mid = (start + end) >> 1;
+
+		buildNode(start, mid);
+		offsets[node] = buildNode(mid, end);
+		counts[node] = 0;
+		return node;
+	};
+
+	if (triangleCount > 0) {
+		buildNode(0, triangleCount);
+	}
+
+	return {
+		bounds: bounds.slice(0, nodeCount * 6),
+		offsets: offsets.slice(0, nodeCount),
+		counts: counts.slice(0, nodeCount),
+		triangles,
+		nodeCount
+	};
+}
+
+/**
+ * Recompute node bounds for moved vertices, keeping the tree layout.
+ * Children always follow their parent, so nodes are processed back to front.
+ * @param outBounds Receives the bounds (6 floats per node)
+ */
+export function refitMeshBvh(bvh: MeshBvh, positions: Float32Array, indices: Uint16Array | Uint32Array, outBounds: Float32Array): void {
+	for (let node = bvh.nodeCount - 1; node >= 0; node--) {
+		const o = node * 6;
+		if (bvh.counts[node] > 0) {
+			const start = bvh.offsets[node];
+			computeTriangleBounds(positions, indices, bvh.triangles, start, start + bvh.counts[node], outBounds, o);
+			continue;
+		}
+		const left = (node + 1) * 6;
+		const right = bvh.offsets[node] * 6;
+		for (let a = 0; a < 3; a++) {
+			outBounds[o + a] = Math.min(outBounds[left + a], outBounds[right + a]);
+			outBounds[o + 3 + a] = Math.max(outBounds[left + 3 + a], outBounds[right + 3 + a]);
+		}
+	}
+}
+
+/** Ray parameter where the ray enters a node's box, or Infinity if it misses within maxT */
+function intersectBounds(
+	bounds: Float32Array,
+	o: number,
+	ox: number, oy: number, oz: number,
+	invX: number, invY: number, invZ: number,
+	maxT: number
+): number {
+	let t1 = (bounds[o] - ox) * invX;
+	let t2 = (bounds[o + 3] - ox) * invX;
+	let tMin = Math.min(t1, t2);
+	let tMax = Math.max(t1, t2);
+
+	t1 = (bounds[o + 1] - oy) * invY;
+	t2 = (bounds[o + 4] - oy) * invY;
+	tMin = Math.max(tMin, Math.min(t1, t2));
+	tMax = Math.min(tMax, Math.max(t1, t2));
+
+	t1 = (bounds[o + 2] - oz) * invZ;
+	t2 = (bounds[o + 5] - oz) * invZ;
+	tMin = Math.max(tMin, Math.min(t1, t2));
+	tMax = Math.min(tMax, Math.max(t1, t2));
+
+	// NaN (ray on a slab plane with zero direction) counts as a hit to stay conservative
+	if (tMax < Math.max(tMin, 0) || tMin > maxT) return Infinity;
+	return tMin;
+}
+
+/**
+ * Find the closest triangle hit (both faces) along a ray.
+ * @param bounds Node bounds to test against (bvh.bounds, or refitted bounds for moved vertices)
+ * @param maxT Ignore hits further than this ray parameter
+ * @returns Closest hit, or null if the ray misses
+ */
+export function raycastMeshBvh(
+	bvh: MeshBvh,
+	bounds: Float32Array,
+	positions: Float32Array,
+	indices: Uint16Array | Uint32Array,
+	origin: ArrayLike<number>,
+	direction: ArrayLike<number>,
+	maxT: number = Infinity
+): BvhRayHit | null {
+	if (bvh.nodeCount === 0) return null;
+
+	const ox = origin[0], oy = origin[1], oz = origin[2];
+	const dx = direction[0], dy = direction[1], dz = direction[2];
+	const invX = 1 / dx, invY = 1 / dy, invZ = 1 / dz;
+
+	let bestT = maxT;
+	let bestTriangle = -1;
+	const stack: number[] = [0];
+
+	while (stack.length > 0) {
+		const node = stack.pop()!;
+		if (intersectBounds(bounds, node * 6, ox, oy, oz, invX, invY, invZ, bestT) === Infinity) continue;
+
+		const count = bvh.counts[node];
+		if (count === 0) {
+			stack.push(bvh.offsets[node], node + 1);
+			continue;
+		}
+
+		// Möller-Trumbore
+		const start = bvh.offsets[node];
+		for (let i = start; i < start + count; i++) {
+			const tri = bvh.triangles[i];
+			const i0 = indices[tri * 3] * 3;
+			const i1 = indices[tri * 3 + 1] * 3;
+			const i2 = indices[tri * 3 + 2] * 3;
+			const e1x = positions[i1] - positions[i0], e1y = positions[i1 + 1] - positions[i0 + 1], e1z = positions[i1 + 2] - positions[i0 + 2];
+			const e2x = positions[i2] - positions[i0], e2y = positions[i2 + 1] - positions[i0 + 1], e2z = positions[i2 + 2] - positions[i0 + 2];
+			const px = dy * e2z - dz * e2y;
+			const py = dz * e2x - dx * e2z;
+			const pz = dx * e2y - dy * e2x;
+			const det = e1x * px + e1y * py + e1z * pz;
+			if (Math.abs(det) < 1e-12) continue;
+
+			const invDet = 1 / det;
+			const sx = ox - positions[i0], sy = oy - positions[i0 + 1], sz = oz - positions[i0 + 2];
+			const u = (sx * px + sy * py + sz * pz) * invDet;
+			if (u < 0 || u > 1) continue;
+
+			const qx = sy * e1z - sz * e1y;
+			const qy = sz * e1x - sx * e1z;
+			const qz = sx * e1y - sy * e1x;
+			const v = (dx * qx + dy * qy + dz * qz) * invDet;
+			if (v < 0 || u + v > 1) continue;
+
+			const t = (e2x * qx + e2y * qy + e2z * qz) * invDet;
+			if (t >= 0 && t < bestT) {
+				bestT = t;
+				bestTriangle = tri;
+			}
+		}
+	}
+
+	return bestTriangle >= 0 ? { t: bestT, triangle: bestTriangle } : null;
+}
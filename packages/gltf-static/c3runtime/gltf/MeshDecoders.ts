@@ -0,0 +1,370 @@
+import { WebIO, JSONDocument, GLB_BUFFER } from "@gltf-transform/core";
+import { EXTMeshoptCompression, KHRDracoMeshCompression } from "@gltf-transform/extensions";
+import { MeshoptDecoder } from "meshoptimizer/decoder";
+import * as draco3d from "draco3dgltf";
+import dracoDecoderWasm from "draco3dgltf/draco_decoder_gltf.wasm";
+import dracoDecoderSource from "draco3dgltf/draco_decoder_gltf_nodejs.js?source";
+
+/**
+ * Mesh decompression (EXT_meshopt_compression, KHR_draco_mesh_compression).
+ * Both decoders are bundled: meshoptimizer inlines its wasm, the Draco wasm and glue are inlined by the build.
+ *
+ * Compressed data is decoded in decoder workers before the document is parsed, and the views/accessors
+ * are rewritten to point at the decoded data. The workers only live while models are decoding.
+ * With 0 decoder workers (or if a worker fails), glTF-Transform decodes synchronously during io.readJSON().
+ */
+
+// Debug logging - set to false to disable
+const DEBUG = false;
+const LOG_PREFIX = "[MeshDecoders]";
+
+function debugLog(...args: unknown[]): void {
+	if (DEBUG) console.log(LOG_PREFIX, ...args);
+}
+
+const EXT_MESHOPT = "EXT_meshopt_compression";
+const KHR_DRACO = "KHR_draco_mesh_compression";
+
+/** Upper bound for decoder workers (they only run during loading, alongside the transform pool) */
+export const MAX_DECODER_WORKERS = 4;
+
+/** Extensions to register on every WebIO (decoders are only attached when a file needs them) */
+export const MESH_COMPRESSION_EXTENSIONS = [EXTMeshoptCompression, KHRDracoMeshCompression];
+
+/** EXT_meshopt_compression bufferView extension data */
+interface MeshoptViewDef {
+	buffer: number;
+	byteOffset?: number;
+	byteLength: number;
+	byteStride: number;
+	count: number;
+	mode: string;
+	filter?: string;
+}
+
+/** KHR_draco_mesh_compression primitive extension data */
+interface DracoPrimitiveDef {
+	bufferView: number;
+	attributes: Record<string, number>;
+}
+
+/** One Draco-compressed buffer view and the accessors decoded from it */
+interface DracoDecodeRequest {
+	data: Uint8Array;
+	attributes: { accessor: number; uniqueId: number; componentType: number }[];
+	indices: number[];
+}
+
+interface DracoDecodeResult {
+	attributes: ArrayBufferView[];
+	indices: Uint16Array | Uint32Array | null;
+}
+
+/**
+ * Draco worker: the Emscripten glue defines DracoDecoderModule, the wasm binary arrives in the init message.
+ * Attributes are decoded to their accessor component type (as glTF-Transform does), indices to 16 or 32 bits.
+ */
+const DRACO_WORKER_CODE = `
+${dracoDecoderSource}
+
+const COMPONENT_ARRAYS = { 5120: Int8Array, 5121: Uint8Array, 5122: Int16Array, 5123: Uint16Array, 5125: Uint32Array, 5126: Float32Array };
+const DATA_TYPES = { 5120: "DT_INT8", 5121: "DT_UINT8", 5122: "DT_INT16", 5123: "DT_UINT16", 5125: "DT_UINT32", 5126: "DT_FLOAT32" };
+let decoderModule = null;
+
+self.onmessage = (e) => {
+	const msg = e.data;
+	if (msg.type === "init") {
+		decoderModule = DracoDecoderModule({ wasmBinary: msg.wasm });
+		return;
+	}
+	decoderModule.then((draco) => {
+		try {
+			const result = decode(draco, msg);
+			const transfer = result.attributes.map(a => a.buffer);
+			if (result.indices) transfer.push(result.indices.buffer);
+			self.postMessage({ id: msg.id, result }, transfer);
+		} catch (err) {
+			self.postMessage({ id: msg.id, error: String(err) });
+		}
+	});
+};
+
+function decode(draco, msg) {
+	const decoder = new draco.Decoder();
+	const buffer = new draco.DecoderBuffer();
+	const mesh = new draco.Mesh();
+	try {
+		buffer.Init(msg.data, msg.data.length);
+		if (decoder.GetEncodedGeometryType(buffer) !== draco.TRIANGULAR_MESH) {
+			throw new Error("Unknown geometry type");
+		}
+		const status = decoder.DecodeBufferToMesh(buffer, mesh);
+		if (!status.ok() || mesh.ptr === 0) {
+			throw new Error("Decoding failure: " + status.error_msg());
+		}
+		return {
+			attributes: msg.attributes.map(a => decodeAttribute(draco, decoder, mesh, a)),
+			indices: msg.indices.length > 0 ? decodeIndices(draco, decoder, mesh) : null
+		};
+	} finally {
+		draco.destroy(mesh);
+		draco.destroy(buffer);
+		draco.destroy(decoder);
+	}
+}
+
+function decodeAttribute(draco, decoder, mesh, request) {
+	const attribute = decoder.GetAttributeByUniqueId(mesh, request.uniqueId);
+	const ArrayType = COMPONENT_ARRAYS[request.componentType];
+	const count = mesh.num_points() * attribute.num_components();
+	const byteLength = count * ArrayType.BYTES_PER_ELEMENT;
+	const ptr = draco._malloc(byteLength);
+	decoder.GetAttributeDataArrayForAllPoints(mesh, attribute, draco[DATA_TYPES[request.componentType]], byteLength, ptr);
+	const array = new ArrayType(draco.HEAPF32.buffer, ptr, count).slice();
+	draco._free(ptr);
+	return array;
+}
+
+function decodeIndices(draco, decoder, mesh) {
+	const count = mesh.num_faces() * 3;
+	const ArrayType = mesh.num_points() <= 65534 ? Uint16Array : Uint32Array;
+	const byteLength = count * ArrayType.BYTES_PER_ELEMENT;
+	const ptr = draco._malloc(byteLength);
+	if (ArrayType === Uint16Array) {
+		decoder.GetTrianglesUInt16Array(mesh, byteLength, ptr);
+	} else {
+		decoder.GetTrianglesUInt32Array(mesh, byteLength, ptr);
+	}
+	const indices = new ArrayType(draco.HEAPU8.buffer, ptr, count).slice();
+	draco._free(ptr);
+	return indices;
+}
+`;
+
+const GL_UNSIGNED_SHORT = 5123;
+const GL_UNSIGNED_INT = 5125;
+
+let _dracoDecoder: Promise<draco3d.DecoderModule> | null = null;
+
+// Decoder workers, shared by concurrent loads and stopped when the last one finishes
+let _activeDecodes = 0;
+let _meshoptWorkerCount = 0;
+let _dracoWorkers: Worker[] = [];
+let _dracoWorkerUrl: string | null = null;
+let _dracoRequestId = 0;
+const _dracoRequests = new Map<number, { resolve: (result: DracoDecodeResult) => void; reject: (err: Error) => void }>();
+
+/**
+ * Decode compressed data and attach decoders so io.readJSON() can parse the document.
+ * @param workerCount Decoder workers (0 = decode on the main thread). Default: cores - 1, up to MAX_DECODER_WORKERS
+ * @returns True if the document needed decompression
+ */
+export async function prepareMeshDecoders(io: WebIO, jsonDoc: JSONDocument, workerCount?: number): Promise<boolean> {
+	const used = jsonDoc.json.extensionsUsed ?? [];
+	const hasMeshopt = used.includes(EXT_MESHOPT);
+	const hasDraco = used.includes(KHR_DRACO);
+	if (!hasMeshopt && !hasDraco) return false;
+
+	const workers = typeof Worker === "undefined"
+		? 0
+		: Math.min(workerCount ?? Math.max(1, (navigator.hardwareConcurrency || 4) - 1), MAX_DECODER_WORKERS);
+
+	const dependencies: Record<string, unknown> = {};
+	_activeDecodes++;
+	try {
+		if (hasMeshopt) {
+			await _decodeMeshoptBufferViews(jsonDoc, workers);
+			// Fallback for anything left encoded (decoded synchronously by glTF-Transform)
+			dependencies["meshopt.decoder"] = MeshoptDecoder;
+		}
+		if (hasDraco && !(workers > 0 && await _decodeDracoPrimitives(jsonDoc, workers))) {
+			_dracoDecoder ??= draco3d.createDecoderModule({ wasmBinary: dracoDecoderWasm });
+			dependencies["draco3d.decoder"] = await _dracoDecoder;
+		}
+	} finally {
+		if (--_activeDecodes === 0) {
+			_stopDecoderWorkers();
+		}
+	}
+	io.registerDependencies(dependencies);
+
+	return true;
+}
+
+/**
+ * Decode every EXT_meshopt_compression buffer view (in worker threads if workerCount > 0) and
+ * rewrite the view to point at the decoded data (as an extra buffer resource).
+ */
+async function _decodeMeshoptBufferViews(jsonDoc: JSONDocument, workerCount: number): Promise<void> {
+	await MeshoptDecoder.ready;
+	if (workerCount > _meshoptWorkerCount) {
+		MeshoptDecoder.useWorkers(workerCount);
+		_meshoptWorkerCount = workerCount;
+	}
+
+	const json = jsonDoc.json;
+	const viewDefs = json.bufferViews ?? [];
+	const bufferDefs = json.buffers ?? [];
+	const pending: Promise<void>[] = [];
+
+	viewDefs.forEach((viewDef, index) => {
+		const meshoptDef = viewDef.extensions?.[EXT_MESHOPT] as MeshoptViewDef | undefined;
+		if (!meshoptDef) return;
+
+		const bufferDef = bufferDefs[meshoptDef.buffer];
+		const resource = bufferDef.uri ? jsonDoc.resources[bufferDef.uri] : jsonDoc.resources[GLB_BUFFER];
+		const source = new Uint8Array(resource.buffer, resource.byteOffset + (meshoptDef.byteOffset ?? 0), meshoptDef.byteLength);
+
+		pending.push(
+			MeshoptDecoder.decodeGltfBufferAsync(meshoptDef.count, meshoptDef.byteStride, source, meshoptDef.mode, meshoptDef.filter)
+				.then((decoded) => {
+					const uri = `__meshopt_decoded_${index}`;
+					jsonDoc.resources[uri] = decoded as Uint8Array<ArrayBuffer>;
+					viewDef.buffer = bufferDefs.push({ uri, byteLength: decoded.byteLength }) - 1;
+					viewDef.byteOffset = 0;
+					viewDef.byteLength = decoded.byteLength;
+					delete viewDef.extensions![EXT_MESHOPT];
+				})
+		);
+	});
+
+	await Promise.all(pending);
+	json.buffers = bufferDefs;
+	debugLog(`Decoded ${pending.length} meshopt buffer view(s)${workerCount > 0 ? " in workers" : ""}`);
+}
+
+/**
+ * Decode every KHR_draco_mesh_compression primitive in worker threads and point its accessors
+ * at the decoded data, then drop the extension so glTF-Transform doesn't need the decoder.
+ * @returns False if a worker failed (primitives that weren't rewritten keep the extension)
+ */
+async function _decodeDracoPrimitives(jsonDoc: JSONDocument, workerCount: number): Promise<boolean> {
+	const json = jsonDoc.json;
+	const viewDefs = json.bufferViews ?? [];
+	const bufferDefs = json.buffers ?? [];
+	const accessorDefs = json.accessors ?? [];
+
+	// Primitives can share a compressed view (and accessors): decode each view once
+	const requests = new Map<number, DracoDecodeRequest>();
+	const primitives = new Map<number, Record<string, unknown>[]>();
+	for (const meshDef of json.meshes ?? []) {
+		for (const primDef of meshDef.primitives) {
+			const dracoDef = primDef.extensions?.[KHR_DRACO] as DracoPrimitiveDef | undefined;
+			if (!dracoDef) continue;
+
+			let request = requests.get(dracoDef.bufferView);
+			if (!request) {
+				const viewDef = viewDefs[dracoDef.bufferView];
+				const bufferDef = bufferDefs[viewDef.buffer];
+				const resource = bufferDef.uri ? jsonDoc.resources[bufferDef.uri] : jsonDoc.resources[GLB_BUFFER];
+				const start = resource.byteOffset + (viewDef.byteOffset ?? 0);
+				// Copied: the worker takes ownership of the data
+				const data = new Uint8Array(resource.buffer.slice(start, start + viewDef.byteLength));
+				request = { data, attributes: [], indices: [] };
+				requests.set(dracoDef.bufferView, request);
+				primitives.set(dracoDef.bufferView, []);
+			}
+			primitives.get(dracoDef.bufferView)!.push(primDef.extensions!);
+
+			for (const semantic in dracoDef.attributes) {
+				const accessor = primDef.attributes[semantic];
+				if (request.attributes.some(a => a.accessor === accessor)) continue;
+				request.attributes.push({ accessor, uniqueId: dracoDef.attributes[semantic], componentType: accessorDefs[accessor].componentType });
+			}
+			if (primDef.indices !== undefined && !request.indices.includes(primDef.indices)) {
+				request.indices.push(primDef.indices);
+			}
+		}
+	}
+
+	const setAccessorData = (accessor: number, array: ArrayBufferView): void => {
+		const uri = `__draco_decoded_${accessor}`;
+		jsonDoc.resources[uri] = new Uint8Array(array.buffer as ArrayBuffer, array.byteOffset, array.byteLength);
+		const buffer = bufferDefs.push({ uri, byteLength: array.byteLength }) - 1;
+		const accessorDef = accessorDefs[accessor];
+		accessorDef.bufferView = viewDefs.push({ buffer, byteLength: array.byteLength }) - 1;
+		delete accessorDef.byteOffset;
+	};
+
+	let failed = false;
+	await Promise.all([...requests].map(async ([bufferView, request]) => {
+		try {
+			const result = await _decodeDracoInWorker(request, workerCount);
+			request.attributes.forEach((attribute, i) => setAccessorData(attribute.accessor, result.attributes[i]));
+			if (result.indices) {
+				for (const accessor of request.indices) {
+					accessorDefs[accessor].componentType = result.indices instanceof Uint16Array ? GL_UNSIGNED_SHORT : GL_UNSIGNED_INT;
+					setAccessorData(accessor, result.indices);
+				}
+			}
+			for (const extensions of primitives.get(bufferView)!) {
+				delete extensions[KHR_DRACO];
+			}
+		} catch (err) {
+			console.warn(`${LOG_PREFIX} Draco worker failed, decoding on the main thread:`, err);
+			failed = true;
+		}
+	}));
+
+	json.buffers = bufferDefs;
+	json.bufferViews = viewDefs;
+	if (failed) return false;
+
+	json.extensionsUsed = json.extensionsUsed?.filter(name => name !== KHR_DRACO);
+	json.extensionsRequired = json.extensionsRequired?.filter(name => name !== KHR_DRACO);
+	debugLog(`Decoded ${requests.size} Draco buffer view(s) in workers`);
+	return true;
+}
+
+/** Decode one compressed view on the next Draco worker (started on demand, up to workerCount) */
+function _decodeDracoInWorker(request: DracoDecodeRequest, workerCount: number): Promise<DracoDecodeResult> {
+	if (_dracoWorkers.length < workerCount) {
+		_dracoWorkerUrl ??= URL.createObjectURL(new Blob([DRACO_WORKER_CODE], { type: "application/javascript" }));
+		const worker = new Worker(_dracoWorkerUrl);
+		worker.onmessage = (e) => {
+			const { id, result, error } = e.data;
+			const pending = _dracoRequests.get(id);
+			if (!pending) return;
+			_dracoRequests.delete(id);
+			if (error) {
+				pending.reject(new Error(error));
+			} else {
+				pending.resolve(result);
+			}
+		};
+		worker.onerror = (e) => {
+			console.error(`${LOG_PREFIX} Draco worker error:`, e);
+			// The worker can't answer anymore: fail everything so the load falls back to the main thread
+			for (const pending of _dracoRequests.values()) {
+				pending.reject(new Error(e.message));
+			}
+			_dracoRequests.clear();
+		};
+		worker.postMessage({ type: "init", wasm: dracoDecoderWasm });
+		_dracoWorkers.push(worker);
+	}
+
+	const id = ++_dracoRequestId;
+	const worker = _dracoWorkers[id % _dracoWorkers.length];
+	return new Promise((resolve, reject) => {
+		_dracoRequests.set(id, { resolve, reject });
+		worker.postMessage({ id, data: request.data, attributes: request.attributes, indices: request.indices }, [request.data.buffer]);
+	});
+}
+
+/** Stop the decoder workers once no model is decoding (they are started again by the next load) */
+function _stopDecoderWorkers(): void {
+	if (_meshoptWorkerCount > 0) {
+		MeshoptDecoder.useWorkers(0);
+		_meshoptWorkerCount = 0;
+	}
+	for (const worker of _dracoWorkers) {
+		worker.terminate();
+	}
+	_dracoWorkers = [];
+	if (_dracoWorkerUrl) {
+		URL.revokeObjectURL(_dracoWorkerUrl);
+		_dracoWorkerUrl = null;
+	}
+	debugLog("Decoder workers stopped");
+}
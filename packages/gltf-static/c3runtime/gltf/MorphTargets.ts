@@ -0,0 +1,47 @@
+/**
+ * Morph target blending shared by GltfMesh (static meshes) and AnimationController (CPU skinning).
+ * The worker has its own copy of this loop in WORKER_CODE.
+ */
+
+/** Weights at or below this magnitude are treated as zero */
+export const MORPH_WEIGHT_EPSILON = 1e-5;
+
+/**
+ * Check if any weight is large enough to affect the mesh.
+ */
+export function hasActiveMorphWeights(weights: Float32Array | null | undefined): boolean {
+	if (!weights) return false;
+	for (let i = 0; i < weights.length; i++) {
+		if (Math.abs(weights[i]) > MORPH_WEIGHT_EPSILON) return true;
+	}
+	return false;
+}
+
+/**
+ * Write base + Σ(weight_t * delta_t) into out.
+ * @param base Base attribute (3 floats per vertex)
+ * @param deltas Packed deltas for all targets (targetCount * base.length floats)
+ * @param weights Per-target weights
+ * @param targetCount Number of targets packed into deltas
+ * @param out Output buffer (same length as base, may not alias deltas)
+ */
+export function applyMorphDeltas(
+	base: Float32Array,
+	deltas: Float32Array,
+	weights: Float32Array,
+	targetCount: number,
+	out: Float32Array
+): void {
+	const floatCount = base.length;
+	out.set(base);
+
+	for (let t = 0; t < targetCount; t++) {
+		const weight = weights[t];
+		if (Math.abs(weight) <= MORPH_WEIGHT_EPSILON) continue;
+
+		const deltaOffset = t * floatCount;
+		for (let i = 0; i < floatCount; i++) {
+			out[i] += deltas[deltaOffset + i] * weight;
+		}
+	}
+}
@@ -303,6 +303,33 @@ function calculateLighting(positions, normals, outColors, posOffset, normalOffse
 	}
 }
 
+// Blend morph target deltas into out: out = base + sum(weight_t * delta_t)
+// deltas: all targets packed back to back (targetCount * floatCount floats)
+// Returns false (out untouched) if no weight is active, so the caller can skin from base directly
+function applyMorphInto(base, deltas, weights, targetCount, out) {
+	const floatCount = base.length;
+	let active = false;
+	for (let t = 0; t < targetCount; t++) {
+		const weight = weights[t];
+		if (weight > 1e-5 || weight < -1e-5) {
+			active = true;
+			break;
+		}
+	}
+	if (!active) return false;
+
+	out.set(base);
+	for (let t = 0; t < targetCount; t++) {
+		const weight = weights[t];
+		if (weight <= 1e-5 && weight >= -1e-5) continue;
+		const deltaOffset = t * floatCount;
+		for (let i = 0; i < floatCount; i++) {
+			out[i] += deltas[deltaOffset + i] * weight;
+		}
+	}
+	return true;
+}
+
 // Apply CPU skinning to positions and normals
 // boneMatrices: flattened array of 4x4 matrices (16 floats per bone)
 // joints: per-vertex joint indices (4 per vertex)
@@ -399,13 +426,18 @@ self.onmessage = (e) => {
 		case "REGISTER_SKIN": {
 			// Register a skinned mesh with bind pose positions, normals, and skinning data
 			const vertexCount = msg.positions.length / 3;
+			const morph = msg.morph || null;
 			skinnedMeshCache.set(msg.meshId, {
 				positions: msg.positions,  // transferred
 				normals: msg.normals || null,  // transferred (optional)
 				joints: msg.joints,        // transferred
 				weights: msg.weights,      // transferred
 				vertexCount,
-				floatCount: msg.positions.length
+				floatCount: msg.positions.length,
+				// Morph targets (optional): deltas transferred, scratch buffers reused every batch
+				morph,
+				morphedPositions: morph ? new Float32Array(msg.positions.length) : null,
+				morphedNormals: (morph && morph.normalDeltas && msg.normals) ? new Float32Array(msg.positions.length) : null
 			});
 			break;
 		}
@@ -456,6 +488,7 @@ self.onmessage = (e) => {
 			// Process skinning for multiple meshes sharing the same bone matrices
 			const boneMatrices = msg.boneMatrices;
 			const requestedMeshIds = msg.meshIds;
+			const morphWeights = msg.morphWeights || null; // Optional: per-mesh weights aligned with meshIds
 			const lightConfig = msg.lightConfig; // Optional: { ambient, lights, modelRotation }
 
 			// Calculate total size and check if any mesh has normals
@@ -463,13 +496,14 @@ self.onmessage = (e) => {
 			let totalVertices = 0;
 			let hasAnyNormals = false;
 			const meshEntries = [];
-			for (const meshId of requestedMeshIds) {
+			for (let m = 0; m < requestedMeshIds.length; m++) {
+				const meshId = requestedMeshIds[m];
 				const entry = skinnedMeshCache.get(meshId);
 				if (!entry) continue;
 				totalFloats += entry.floatCount;
 				totalVertices += entry.vertexCount;
 				if (entry.normals) hasAnyNormals = true;
-				meshEntries.push({ meshId, entry });
+				meshEntries.push({ meshId, entry, morphWeights: morphWeights ? morphWeights[m] : null });
 			}
 
 			if (meshEntries.length === 0) {
@@ -489,9 +523,23 @@ self.onmessage = (e) => {
 			for (let i = 0; i < meshEntries.length; i++) {
 				const { meshId, entry } = meshEntries[i];
 
+				// Apply morph targets to the bind pose before skinning
+				let srcPositions = entry.positions;
+				let srcNormals = entry.normals;
+				const weights = meshEntries[i].morphWeights;
+				if (entry.morph && weights) {
+					const morph = entry.morph;
+					if (applyMorphInto(entry.positions, morph.positionDeltas, weights, morph.targetCount, entry.morphedPositions)) {
+						srcPositions = entry.morphedPositions;
+						if (entry.morphedNormals && applyMorphInto(entry.normals, morph.normalDeltas, weights, morph.targetCount, entry.morphedNormals)) {
+							srcNormals = entry.morphedNormals;
+						}
+					}
+				}
+
 				// Apply skinning to positions and normals
 				skinMeshInto(
-					entry.positions, entry.normals,
+					srcPositions, srcNormals,
 					packedPositions, packedNormals,
 					offset, boneMatrices, entry.joints, entry.weights, entry.vertexCount
 				);
@@ -627,6 +675,13 @@ type TransformCallback = (positions: Float32Array) => void;
 type SkinningCallback = (positions: Float32Array, normals: Float32Array | null, colors: Float32Array | null) => void;
 type StaticTransformCallback = (positions: Float32Array, colors: Float32Array | null) => void;
 
+/** Morph target deltas registered with a skinned mesh (see MeshMorphData) */
+export interface WorkerMorphData {
+	targetCount: number;
+	positionDeltas: Float32Array;
+	normalDeltas: Float32Array | null;
+}
+
 /** Light configuration for worker-based lighting calculation */
 export interface WorkerLightConfig {
 	ambient: Float32Array | number[];
@@ -690,6 +745,7 @@ interface PendingRequest {
 interface PendingSkinRequest {
 	meshIds: number[];
 	boneMatrices: Float32Array;
+	morphWeights: (Float32Array | null)[] | null;
 	lightConfig?: WorkerLightConfig;
 }
 
@@ -795,6 +851,7 @@ export class TransformWorkerPool {
 	 * @param normals Original bind pose normals (will be transferred, optional)
 	 * @param joints Per-vertex joint indices, 4 per vertex (will be transferred)
 	 * @param weights Per-vertex weights, 4 per vertex (will be transferred)
+	 * @param morph Morph target deltas, applied before skinning (will be transferred, optional)
 	 * @param callback Called with skinned positions and normals after flush()
 	 */
 	registerSkinnedMesh(
@@ -803,6 +860,7 @@ export class TransformWorkerPool {
 		normals: Float32Array | null,
 		joints: Uint8Array | Uint16Array,
 		weights: Float32Array,
+		morph: WorkerMorphData | null,
 		callback: SkinningCallback
 	): void {
 		if (this._disposed) return;
@@ -824,9 +882,17 @@ export class TransformWorkerPool {
 		if (weights.buffer.byteLength > 0 && !transferList.includes(weights.buffer)) {
 			transferList.push(weights.buffer);
 		}
+		if (morph) {
+			if (morph.positionDeltas.buffer.byteLength > 0 && !transferList.includes(morph.positionDeltas.buffer)) {
+				transferList.push(morph.positionDeltas.buffer);
+			}
+			if (morph.normalDeltas && morph.normalDeltas.buffer.byteLength > 0 && !transferList.includes(morph.normalDeltas.buffer)) {
+				transferList.push(morph.normalDeltas.buffer);
+			}
+		}
 
 		this._workers[workerIndex].postMessage(
-			{ type: "REGISTER_SKIN", meshId, positions, normals, joints, weights },
+			{ type: "REGISTER_SKIN", meshId, positions, normals, joints, weights, morph },
 			transferList
 		);
 	}
@@ -869,8 +935,14 @@ export class TransformWorkerPool {
 	 * @param meshIds Array of mesh IDs to skin
 	 * @param boneMatrices Bone matrices (16 floats per joint, flattened)
 	 * @param lightConfig Optional lighting configuration to compute vertex colors in worker
+	 * @param morphWeights Optional morph weights by mesh ID (meshes registered with morph deltas)
 	 */
-	queueSkinning(meshIds: number[], boneMatrices: Float32Array, lightConfig?: WorkerLightConfig): void {
+	queueSkinning(
+		meshIds: number[],
+		boneMatrices: Float32Array,
+		lightConfig?: WorkerLightConfig,
+		morphWeights?: Map<number, Float32Array>
+	): void {
 		if (this._disposed) return;
 		if (meshIds.length === 0) return;
 
@@ -892,9 +964,18 @@ export class TransformWorkerPool {
 
 		// Queue skinning request per worker (copy bone matrices for each - small footprint)
 		for (const [workerIndex, workerMeshIds] of byWorker) {
+			// Morph weights aligned with workerMeshIds (copied, weights are tiny)
+			let workerMorphWeights: (Float32Array | null)[] | null = null;
+			if (morphWeights && morphWeights.size > 0) {
+				workerMorphWeights = workerMeshIds.map(id => {
+					const w = morphWeights.get(id);
+					return w ? new Float32Array(w) : null;
+				});
+			}
 			this._pendingSkinByWorker.get(workerIndex)!.push({
 				meshIds: workerMeshIds,
 				boneMatrices: new Float32Array(boneMatrices), // Copy to avoid caller reuse issues
+				morphWeights: workerMorphWeights,
 				lightConfig
 			});
 		}
@@ -980,6 +1061,7 @@ export class TransformWorkerPool {
 					type: "SKIN_BATCH",
 					meshIds: skinReq.meshIds,
 					boneMatrices: skinReq.boneMatrices,
+					morphWeights: skinReq.morphWeights,
 					lightConfig: skinReq.lightConfig
 				});
 			}
@@ -1,6 +1,6 @@
 import { GltfModel } from "./GltfModel.js";
 import { GltfMesh } from "./GltfMesh.js";
-import { GltfNode } from "./GltfNode.js";
+import { GltfNode, quatFromEulerDegrees } from "./GltfNode.js";
 import { TransformWorkerPool, SharedWorkerPool } from "./TransformWorkerPool.js";
 import { AnimationController } from "./AnimationController.js";
 import { modelCache } from "./types.js";
@@ -9,23 +9,32 @@ import * as Lighting from "./Lighting.js";
 import * as BuiltinModels from "./BuiltinModels.js";
 
 // ES module exports
-export { GltfModel, GltfMesh, GltfNode, TransformWorkerPool, SharedWorkerPool, AnimationController, modelCache, mat4, quat, vec3, Lighting, BuiltinModels };
-export type { GltfModelStats, GltfModelOptions } from "./GltfModel.js";
-export type { AnimationMeshData, AnimationControllerOptions } from "./AnimationController.js";
+export { GltfModel, GltfMesh, GltfNode, TransformWorkerPool, SharedWorkerPool, AnimationController, modelCache, mat4, quat, vec3, quatFromEulerDegrees, Lighting, BuiltinModels };
+export type { GltfModelStats, GltfModelOptions, GltfNodeInfo, GltfRaycastHit } from "./GltfModel.js";
+export type { MeshAlphaMode } from "./GltfMesh.js";
+export type { ColliderData, ColliderSource, ColliderType } from "./Colliders.js";
+export type { MeshBvh } from "./MeshBvh.js";
+export type { AnimationMeshData, AnimationControllerOptions, AdditiveOptions, AdditiveReference, AnimationLayerMask, AnimationLayerRef, BoneOverridePath, LookAtOptions } from "./AnimationController.js";
 export type { DirectionalLight, HemisphereLight, ColorBlendMode, LightType } from "./Lighting.js";
 export { LIGHT_TYPE_SPOT, LIGHT_TYPE_POINT } from "./Lighting.js";
 export type {
 	CachedModelData,
+	CachedTextureMap,
+	CachedSceneMeshData,
 	CachedSkinData,
+	CachedSkeletonData,
+	SkeletonJointData,
 	CachedAnimationData,
 	MeshSkinningData,
+	MeshMorphData,
 	JointData,
 	JointTransform,
 	AnimationSamplerData,
 	AnimationChannelData,
 	AnimationInterpolation,
-	AnimationTargetPath
+	AnimationTargetPath,
+	AnimationEventData
 } from "./types.js";
 
 // Attach to globalThis for C3 worker compatibility
-(globalThis as any).GltfBundle = { GltfModel, GltfMesh, GltfNode, TransformWorkerPool, SharedWorkerPool, AnimationController, modelCache, mat4, vec3, quat, Lighting, BuiltinModels };
+(globalThis as any).GltfBundle = { GltfModel, GltfMesh, GltfNode, TransformWorkerPool, SharedWorkerPool, AnimationController, modelCache, mat4, vec3, quat, quatFromEulerDegrees, Lighting, BuiltinModels };
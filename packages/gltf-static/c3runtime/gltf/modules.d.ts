@@ -0,0 +1,16 @@
+/** WebAssembly binaries inlined by the esbuild "binary" loader (see build.js) */
+declare module "*.wasm" {
+	const data: Uint8Array;
+	export default data;
+}
+
+/** Module source text inlined by the "source" plugin (see build.js), used to start decoders in workers */
+declare module "*?source" {
+	const source: string;
+	export default source;
+}
+
+/** Decoder-only entry point (package "exports" subpath, not visible to "node" module resolution) */
+declare module "meshoptimizer/decoder" {
+	export * from "meshoptimizer/meshopt_decoder";
+}
@@ -1,4 +1,5 @@
 import { Document, Texture, Node as GltfNode } from "@gltf-transform/core";
+import type { MeshBvh } from "./MeshBvh.js";
 
 // Debug logging
 const DEBUG = false;
@@ -50,6 +51,45 @@ export interface CachedSkinData {
 	rootAncestorTransform?: Float32Array;
 }
 
+/** Joint in the combined skeleton (index/parentIndex are combined indices) */
+export interface SkeletonJointData extends JointData {
+	/** First skin that lists this joint (its rootAncestorTransform applies if this is a root) */
+	skinIndex: number;
+}
+
+/**
+ * Joints of all skins merged into one skeleton - shared across instances.
+ * A node listed by several skins (e.g. a cape rig reusing the spine) appears once.
+ */
+export interface CachedSkeletonData {
+	/** All unique joints, in skin order */
+	joints: SkeletonJointData[];
+	/** Map from glTF node to combined joint index */
+	nodeToJointIndex: Map<GltfNode, number>;
+	/** Per skin: skin joint index -> combined joint index */
+	skinJointMaps: Uint16Array[];
+}
+
+// ============================================================================
+// Morph Target Data Types
+// ============================================================================
+
+/** Per-primitive morph target deltas (shared, immutable after load) */
+export interface MeshMorphData {
+	/** glTF node whose mesh owns these targets ("weights" channels target this node) */
+	node: GltfNode;
+	/** Number of morph targets */
+	targetCount: number;
+	/** POSITION deltas, targets packed back to back (targetCount * vertexCount * 3 floats) */
+	positionDeltas: Float32Array;
+	/** NORMAL deltas packed the same way, or null if no target has normals */
+	normalDeltas: Float32Array | null;
+	/** Target names (from mesh extras.targetNames, "target_<i>" fallback) */
+	targetNames: string[];
+	/** Default weights from the glTF mesh (targetCount floats) */
+	defaultWeights: Float32Array;
+}
+
 // ============================================================================
 // Joint Transform State (for runtime animation)
 // ============================================================================
@@ -86,7 +126,7 @@ export interface AnimationSamplerData {
 
 /** Single animation channel (targets a specific node property) */
 export interface AnimationChannelData {
-	/** Target joint index (references JointData.index) or -1 if targeting non-joint node */
+	/** Target joint index (references CachedSkeletonData.joints) or -1 if targeting non-joint node */
 	targetJointIndex: number;
 	/** Target node (for non-skinned animations or if joint not found) */
 	targetNode: GltfNode | null;
@@ -96,6 +136,14 @@ export interface AnimationChannelData {
 	samplerIndex: number;
 }
 
+/** Named event (marker) at a time in an animation clip */
+export interface AnimationEventData {
+	/** Event name */
+	name: string;
+	/** Time in seconds */
+	time: number;
+}
+
 /** Complete animation clip - shared across instances */
 export interface CachedAnimationData {
 	/** Animation name */
@@ -106,25 +154,52 @@ export interface CachedAnimationData {
 	samplers: AnimationSamplerData[];
 	/** All channels (node/property targets) for this animation */
 	channels: AnimationChannelData[];
+	/** Events from the animation's extras, sorted by time */
+	events: AnimationEventData[];
 }
 
 // ============================================================================
 // Cached Model Data (extended)
 // ============================================================================
 
+/**
+ * GPU textures keyed by glTF Texture (image), then by sampler key (plus alpha mode, see textureAlphaKey).
+ * The same image referenced with different samplers (or texture overrides) gets one texture per sampler.
+ */
+export type CachedTextureMap = Map<Texture, Map<string, ITexture>>;
+
+/** Number of GPU textures in a cached texture map */
+function countTextures(textureMap: CachedTextureMap): number {
+	let count = 0;
+	for (const samplers of textureMap.values()) {
+		count += samplers.size;
+	}
+	return count;
+}
+
+/** Per-scene mesh data (mesh indices follow the traversal order of that scene) */
+export interface CachedSceneMeshData {
+	meshSkinningData: Map<number, MeshSkinningData>;  // Mesh index -> skinning attributes
+	meshMorphData: Map<number, MeshMorphData>;        // Mesh index -> morph target deltas
+	meshBvh: Map<string, MeshBvh>;                    // "<mesh index>" (model space) or "<mesh index>:local" -> raycast BVH
+}
+
 /** Cached model data shared across instances loading the same URL */
 export interface CachedModelData {
 	url: string;
 	document: Document;                    // glTF-Transform parsed document
-	textureMap: Map<Texture, ITexture>;    // GPU textures keyed by glTF Texture
+	textureMap: CachedTextureMap;          // GPU textures keyed by glTF Texture + sampler
 	refCount: number;                      // Reference counting for cleanup
 
 	// Skinning data (shared across all instances)
 	skins: CachedSkinData[];               // All skins in the model
-	meshSkinningData: Map<number, MeshSkinningData>;  // Mesh index -> skinning attributes
+	skeleton: CachedSkeletonData;          // Joints of all skins combined
+	sceneMeshData: Map<number, CachedSceneMeshData>;  // Scene index -> mesh data (filled as scenes are built)
 
 	// Animation data (shared across all instances)
 	animations: CachedAnimationData[];     // All animation clips
+
+	decompressed: boolean;                 // File used meshopt/Draco compression
 }
 
 /** Singleton model cache */
@@ -161,7 +236,7 @@ class ModelCacheImpl {
 	set(url: string, data: CachedModelData): void {
 		this._cache.set(url, data);
 		this._loading.delete(url);
-		debugLog(`Cached model: ${url} (${data.textureMap.size} textures, refCount=${data.refCount})`);
+		debugLog(`Cached model: ${url} (${countTextures(data.textureMap)} textures, refCount=${data.refCount})`);
 	}
 
 	/** Increment ref count and return data */
@@ -169,7 +244,7 @@ class ModelCacheImpl {
 		const data = this._cache.get(url);
 		if (data) {
 			data.refCount++;
-			debugLog(`Acquired cached model: ${url} (refCount=${data.refCount}, sharing ${data.textureMap.size} textures)`);
+			debugLog(`Acquired cached model: ${url} (refCount=${data.refCount}, sharing ${countTextures(data.textureMap)} textures)`);
 		}
 		return data;
 	}
@@ -183,9 +258,11 @@ class ModelCacheImpl {
 		debugLog(`Released cached model: ${url} (refCount=${data.refCount})`);
 		if (data.refCount <= 0) {
 			// Delete all GPU textures
-			debugLog(`Deleting ${data.textureMap.size} cached textures for: ${url}`);
-			for (const texture of data.textureMap.values()) {
-				renderer.deleteTexture(texture);
+			debugLog(`Deleting ${countTextures(data.textureMap)} cached textures for: ${url}`);
+			for (const samplers of data.textureMap.values()) {
+				for (const texture of samplers.values()) {
+					renderer.deleteTexture(texture);
+				}
 			}
 			data.textureMap.clear();
 			this._cache.delete(url);
@@ -195,8 +272,10 @@ class ModelCacheImpl {
 	/** Clear entire cache (for debugging/testing) */
 	clear(renderer: IRenderer): void {
 		for (const data of this._cache.values()) {
-			for (const texture of data.textureMap.values()) {
-				renderer.deleteTexture(texture);
+			for (const samplers of data.textureMap.values()) {
+				for (const texture of samplers.values()) {
+					renderer.deleteTexture(texture);
+				}
 			}
 		}
 		this._cache.clear();
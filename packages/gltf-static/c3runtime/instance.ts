@@ -1,9 +1,12 @@
 // Import types only (not runtime values) for TypeScript checking
-import type { GltfModel as GltfModelType } from "./gltf/GltfModel.js";
+import type { GltfModel as GltfModelType, GltfNodeInfo, GltfRaycastHit } from "./gltf/GltfModel.js";
 import type { GltfMesh as GltfMeshType } from "./gltf/GltfMesh.js";
+import type { ColliderData, ColliderSource } from "./gltf/Colliders.js";
+import type { MeshMorphData } from "./gltf/types.js";
 import type { SharedWorkerPool as SharedWorkerPoolType, WorkerLightConfig } from "./gltf/TransformWorkerPool.js";
-import type { AnimationController as AnimationControllerType } from "./gltf/AnimationController.js";
+import type { AnimationController as AnimationControllerType, AdditiveOptions, AdditiveReference, AnimationLayerMask, AnimationLayerRef, BoneOverridePath, LookAtOptions } from "./gltf/AnimationController.js";
 import type { mat4 as mat4Type, vec3 as vec3Type, quat as quatType } from "gl-matrix";
+import type { quatFromEulerDegrees as quatFromEulerDegreesType } from "./gltf/GltfNode.js";
 import type * as LightingType from "./gltf/Lighting.js";
 
 // Augment globalThis with GltfBundle type
@@ -16,6 +19,7 @@ declare global {
 		mat4: typeof mat4Type;
 		vec3: typeof vec3Type;
 		quat: typeof quatType;
+		quatFromEulerDegrees: typeof quatFromEulerDegreesType;
 		Lighting: typeof LightingType;
 	};
 	// Global debug flag for all glTF modules
@@ -26,7 +30,7 @@ declare global {
 globalThis.gltfDebug = false;
 
 // Access bundle from globalThis (C3 worker compatible - no ES module import)
-const { GltfModel, GltfMesh, SharedWorkerPool, AnimationController, mat4, vec3, quat, Lighting } = globalThis.GltfBundle;
+const { GltfModel, GltfMesh, SharedWorkerPool, AnimationController, mat4, vec3, quat, quatFromEulerDegrees, Lighting } = globalThis.GltfBundle;
 
 const LOG_PREFIX = "[GltfStatic]";
 
@@ -51,8 +55,22 @@ function modelLoadWarn(...args: unknown[]): void {
 	if (globalThis.gltfDebug) console.warn(LOG_PREFIX, ...args);
 }
 
+/**
+ * Format a glTF extras value for an expression.
+ * Numbers and strings are returned as-is, booleans as 1/0, objects and arrays as JSON, missing keys as "".
+ */
+function formatExtraValue(extras: Record<string, unknown> | null | undefined, key: string): string | number
+{
+	const value = extras?.[key];
+	if (value === undefined || value === null) return "";
+	if (typeof value === "number" || typeof value === "string") return value;
+	if (typeof value === "boolean") return value ? 1 : 0;
+	return JSON.stringify(value);
+}
+
 // Property indices (link properties are excluded from _getInitProperties)
-// Only data properties are included: model-url, rotation-x, rotation-y, rotation-z, scale, use-built-in-model, built-in-model-type
+// Only data properties are included: model-url, rotation-x, rotation-y, rotation-z, scale, use-built-in-model, built-in-model-type,
+// import-lights, light-intensity-scale, force-nearest-sampling, max-texture-size, scene, dynamic-nodes, animated-bounds
 const PROP_MODEL_URL = 0;
 const PROP_MODEL_FILE = 1;
 const PROP_ROTATION_X = 2;
@@ -61,12 +79,38 @@ const PROP_ROTATION_Z = 4;
 const PROP_SCALE = 5;
 const PROP_USE_BUILTIN = 6;
 const PROP_BUILTIN_TYPE = 7;
+const PROP_IMPORT_LIGHTS = 8;
+const PROP_LIGHT_INTENSITY_SCALE = 9;
+const PROP_FORCE_NEAREST_SAMPLING = 10;
+const PROP_MAX_TEXTURE_SIZE = 11;
+const PROP_SCENE = 12;
+const PROP_DYNAMIC_NODES = 13;
+const PROP_ANIMATED_BOUNDS = 14;
 
 // Reusable matrix/vector for transform calculations (avoid per-frame allocations)
 const tempVec = vec3.create();
+const tempMat = mat4.create();
+const tempQuat = quat.create();
+
+/** Node an instance was spawned at (SpawnAtNodes) */
+interface SpawnNodeInfo
+{
+	nodeName: string;
+	extras: Record<string, unknown>;
+}
 
-// Degrees to radians conversion factor
-const DEG_TO_RAD = Math.PI / 180;
+/** Instance attached to a bone/node (AttachToBone), moved every tick */
+interface BoneAttachment
+{
+	instance: IWorldInstance;
+	boneName: string;
+	/** Offset in layout units along the bone's axes */
+	offset: Float32Array;
+	/** Rotation relative to the bone (quaternion) */
+	rotation: Float32Array;
+	/** Detaches the instance when it's destroyed */
+	onDestroy: () => void;
+}
 
 /** Intensity multiplier applied to a spotlight when all shadow rays detect occlusion. */
 const SHADOW_OCCLUSION_FACTOR = 0.2;
@@ -74,6 +118,9 @@ const SHADOW_OCCLUSION_FACTOR = 0.2;
 const OCCLUSION_RAY_COUNT = 5;
 const RAD_TO_DEG = 180 / Math.PI;
 
+/** Look-at aim axes, in combo order (+X, -X, +Y, -Y, +Z, -Z) */
+const LOOK_AT_AXES: [number, number, number][] = [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]];
+
 C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInstanceBase
 {
 	// Model state
@@ -88,6 +135,36 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 	_scaleZ: number = 1;
 	_debug: boolean = false;
 
+	// KHR_lights_punctual import (lights created in the Lighting system on model load)
+	_importLights: boolean = false;
+	_lightIntensityScale: number = 1;
+
+	// Texture overrides (applied on top of the glTF samplers at load)
+	_forceNearestSampling: boolean = false;
+	_maxTextureSize: number = 0;
+
+	// Scene to build from multi-scene files (name or index, "" = default scene)
+	_scene: string | number = "";
+
+	// Comma-separated node names whose subtrees stay in local space (runtime articulation)
+	_dynamicNodes: string = "";
+
+	// Instances created by SpawnAtNodes, keyed by UID (removed when the instance is destroyed)
+	_spawnNodes: Map<number, SpawnNodeInfo> = new Map();
+	_lastSpawnCount: number = 0;
+
+	// Instances attached to bones/nodes, keyed by UID (removed when the instance is destroyed)
+	_attachments: Map<number, BoneAttachment> = new Map();
+
+	// Closest hit of the last raycast (null if it missed)
+	_rayHit: GltfRaycastHit | null = null;
+
+	// Set once the missing-3DCamera fallback has been logged (camera lookups run every tick and per raycast)
+	_cameraFallbackLogged: boolean = false;
+
+	// Camera position of the last processed tick (node transforms, and BLEND sorting in _draw)
+	_cameraPosition: Float32Array | null = null;
+
 	// Quaternion rotation (x, y, z, w) - used internally, initialized from euler
 	// This represents the 3D rotation (replaces rotationX/Y/Z when set directly)
 	_rotationQuat: Float32Array = new Float32Array([0, 0, 0, 1]); // Identity quaternion
@@ -104,6 +181,12 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 	_skinnedMeshIndices: number[] = [];  // Maps animation controller mesh index to model mesh index
 	_pendingAnimation: string | null = null;  // Animation name requested before controller was ready
 	_pendingAnimationIndex: number | null = null; // Animation index requested before controller was ready
+	_userAnimationEvents: { clip: string; name: string; time: number }[] = [];  // Added by actions/script, replayed into each new controller
+	_pendingControllerActions: ((controller: AnimationControllerType) => void)[] = [];  // Pose requests made before controller was ready
+
+	// Last fired animation event (for OnAnimationEvent and its expressions)
+	_animationEventName: string = "";
+	_animationEventClip: string = "";
 
 	// Animation frame skip (performance optimization)
 	_animationFrameSkip: number = 0;      // How many frames to skip (0 = update every frame)
@@ -121,6 +204,7 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 
 	// Physics integration
 	_bboxScale: number = 1;                // Scale factor for bounding box (for physics shape sizing)
+	_animatedBounds: boolean = false;      // Recompute the bounding box from the current pose each tick
 
 	// Per-light occlusion cache: stores intensity factor and per-ray tags/results.
 	// 5 rays per light: center, top, bottom, left, right.
@@ -173,6 +257,15 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 			// Built-in model properties
 			this._useBuiltinModel = props[PROP_USE_BUILTIN] as boolean;
 			this._builtinModelType = props[PROP_BUILTIN_TYPE] as number;
+			// Light import properties
+			this._importLights = props[PROP_IMPORT_LIGHTS] as boolean;
+			this._lightIntensityScale = props[PROP_LIGHT_INTENSITY_SCALE] as number;
+			// Texture override properties
+			this._forceNearestSampling = props[PROP_FORCE_NEAREST_SAMPLING] as boolean;
+			this._maxTextureSize = props[PROP_MAX_TEXTURE_SIZE] as number;
+			this._scene = props[PROP_SCENE] as string;
+			this._dynamicNodes = props[PROP_DYNAMIC_NODES] as string;
+			this._animatedBounds = props[PROP_ANIMATED_BOUNDS] as boolean;
 
 			debugLog("Properties loaded:", {
 				modelUrl: this._modelUrl,
@@ -181,7 +274,14 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 				rotationZ: this._rotationZ,
 				scale: { x: this._scaleX, y: this._scaleY, z: this._scaleZ },
 				useBuiltinModel: this._useBuiltinModel,
-				builtinModelType: this._builtinModelType
+				builtinModelType: this._builtinModelType,
+				importLights: this._importLights,
+				lightIntensityScale: this._lightIntensityScale,
+				forceNearestSampling: this._forceNearestSampling,
+				maxTextureSize: this._maxTextureSize,
+				scene: this._scene,
+				dynamicNodes: this._dynamicNodes,
+				animatedBounds: this._animatedBounds
 			});
 
 			// Initialize quaternion from euler angles
@@ -208,6 +308,8 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 		this._setTicking(false);
 		this._setTicking2(false);
 
+		this._detachAll();
+
 		// Clean up animation controller
 		this._animationController = null;
 		this._texSourceInst = null;
@@ -338,19 +440,24 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 
 		if (!shouldUpdate)
 		{
+			// The pose is unchanged, but attached instances still follow this instance's movement
+			this._updateAttachments();
 			this.runtime.sdk.updateRender();
 			return;
 		}
 
 		// Always rebuild instance matrix from current TRS — no dirty check
 		this._buildInstanceMatrix();
+		this._cameraPosition = this._getCameraPosition();
 
 		// Update per-light occlusion via physics raycast (reads last tick's results, fires new ones)
 		this._updateLightOcclusion();
 
-		// Advance animation time (only when playing)
-		if (this._animationController?.isPlaying() && !this._animationController.isPaused())
+		// Advance animation time (only when playing) and re-apply bone overrides / look-at
+		if (this._animationController?.needsUpdate())
 		{
+			// Look-at targets are in layout coordinates
+			this._animationController.setWorldTransform(this._instanceMatrix);
 			this._animationController.update(this._accumulatedDt);
 		}
 
@@ -366,9 +473,29 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 		if (this._animationController && this._model)
 		{
 			this._model.updateJointNodes(this._animationController);
-			this._model.updateStaticMeshTransforms(this._instanceMatrix, this._getCameraPosition());
+			this._model.updateAnimatedNodes(this._animationController);
+			this._model.updateMorphWeights(this._animationController);
+			this._model.updateStaticMeshTransforms(this._instanceMatrix, this._cameraPosition);
 			this._updateSkinnedMeshes();
 		}
+		else if (this._model?.hasMorphTargets || this._model?.hasDynamicNodes)
+		{
+			// Non-skinned morph meshes and dynamic nodes update on the main thread (no animation controller)
+			this._model.updateStaticMeshTransforms(this._instanceMatrix, this._cameraPosition);
+		}
+
+		// Attached instances follow their bones (after joint/node transforms are updated)
+		this._updateAttachments();
+
+		// Bounding box follows the pose (after joint/node transforms are updated)
+		if (this._animatedBounds)
+		{
+			this._model.updatePoseBounds(this._animationController);
+			this._updateInstanceBounds();
+		}
+
+		// Imported glTF lights follow their (possibly animated) nodes and the instance TRS
+		this._model.updatePunctualLights(this._instanceMatrix);
 
 		// Always transform + light all registered static meshes unless baked
 		if (!this._isLightingBaked())
@@ -547,7 +674,10 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 			}
 
 			// Fallback: use layout scroll position
-			console.log("[Specular] No 3DCamera found, using fallback");
+			if (!this._cameraFallbackLogged) {
+				this._cameraFallbackLogged = true;
+				console.log("[Specular] No 3DCamera found, using fallback");
+			}
 			const layout = this.runtime.layout;
 			const camPos = new Float32Array([
 				layout.scrollX,
@@ -576,9 +706,13 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 			const lightConfig = this._buildLightConfig();
 			// Pre-multiply instance TRS matrix into bone matrices for efficiency
 			// This applies object position/rotation/scale to skinned vertices
-			const boneMatrices = this._animationController.getBoneMatrices();
-			const transformedBoneMatrices = this._applyInstanceMatrixToBones(boneMatrices);
-			this._model.queueSkinning(transformedBoneMatrices, lightConfig);
+			// One batch per skin: mesh joint indices are local to their skin
+			for (let s = 0; s < this._animationController.getSkinCount(); s++)
+			{
+				const boneMatrices = this._animationController.getBoneMatrices(s);
+				const transformedBoneMatrices = this._applyInstanceMatrixToBones(boneMatrices);
+				this._model.queueSkinning(transformedBoneMatrices, lightConfig, s);
+			}
 			return;
 		}
 
@@ -633,7 +767,8 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 
 			// Vertices are already in world space (transformed by worker)
 			// C3's camera matrix handles view/projection automatically
-			this._model.draw(renderer, this.runtime.tickCount);
+			// Camera position is only needed to sort BLEND meshes (the vertices are from the same tick)
+			this._model.draw(renderer, this._model.hasBlendMeshes ? this._cameraPosition : null);
 		}
 		// else: not ready yet — render nothing
 	}
@@ -675,23 +810,7 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 	 */
 	_updateQuatFromEuler(): void
 	{
-		// Build quaternion matching editor rotation order: Rx * Ry * Rz
-		// (Z applied first to vertex, then Y, then X)
-		// This is intrinsic XYZ / extrinsic ZYX order.
-		// Note: quat.fromEuler uses intrinsic ZYX which gives Rz*Ry*Rx — wrong order.
-		const rx = this._rotationX * DEG_TO_RAD * 0.5;
-		const ry = this._rotationY * DEG_TO_RAD * 0.5;
-		const rz = this._rotationZ * DEG_TO_RAD * 0.5;
-
-		const sx = Math.sin(rx), cx = Math.cos(rx);
-		const sy = Math.sin(ry), cy = Math.cos(ry);
-		const sz = Math.sin(rz), cz = Math.cos(rz);
-
-		// Quaternion for Rx * Ry * Rz (intrinsic XYZ)
-		this._rotationQuat[0] = sx * cy * cz + cx * sy * sz; // x
-		this._rotationQuat[1] = cx * sy * cz - sx * cy * sz; // y
-		this._rotationQuat[2] = cx * cy * sz + sx * sy * cz; // z
-		this._rotationQuat[3] = cx * cy * cz - sx * sy * sz; // w
+		quatFromEulerDegrees(this._rotationQuat, this._rotationX, this._rotationY, this._rotationZ);
 	}
 
 	/**
@@ -863,6 +982,11 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 		return this._model?.useWorkers ?? false;
 	}
 
+	_wasDecompressed(): boolean
+	{
+		return this._model?.wasDecompressed ?? false;
+	}
+
 	_getWorkerEnabled(): number
 	{
 		return this._isUsingWorkers() ? 1 : 0;
@@ -893,6 +1017,37 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 		return this._model?.getStats().meshCount ?? 0;
 	}
 
+	_getLoadDiagnostics(): string
+	{
+		const messages = this._model?.loadDiagnostics ?? [];
+		return JSON.stringify(messages);
+	}
+
+	// ========================================================================
+	// Scene Methods
+	// ========================================================================
+
+	/** Rebuild the current model from another scene (by name or index) */
+	_setScene(scene: string | number): void
+	{
+		this._scene = scene;
+		if (this._modelUrl)
+		{
+			this._forceLoadModel(this._modelUrl);
+		}
+	}
+
+	_getSceneCount(): number
+	{
+		return this._model?.sceneCount ?? 0;
+	}
+
+	_getSceneNames(): string
+	{
+		const names = this._model?.getSceneNames() ?? [];
+		return JSON.stringify(names);
+	}
+
 	// ========================================================================
 	// Mesh Visibility Methods
 	// ========================================================================
@@ -940,6 +1095,26 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 		return meshes[index].name;
 	}
 
+	// ========================================================================
+	// Morph Target Methods
+	// ========================================================================
+
+	_setMorphWeight(name: string, weight: number): void
+	{
+		this._model?.setMorphWeightByName(name, weight);
+	}
+
+	_getMorphWeight(name: string): number
+	{
+		return this._model?.getMorphWeightByName(name) ?? 0;
+	}
+
+	_getMorphTargetNames(): string
+	{
+		const names = this._model?.getMorphTargetNames() ?? [];
+		return JSON.stringify(names);
+	}
+
 	// ========================================================================
 	// Built-in Model Methods
 	// ========================================================================
@@ -1032,27 +1207,33 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 	// ========================================================================
 
 	/**
-	 * Create animation controller after model loads (if model has skinning data).
+	 * Create animation controller after model loads (if model has animations to drive
+	 * skinned meshes, animated nodes or morph targets, or skins for bone overrides, look-at and IK).
 	 */
 	_createAnimationController(): void
 	{
 		if (!this._model || this._animationController) return;
 
-		// Check if model has skinning data
-		if (!this._model.hasSkinning || this._model.animations.length === 0)
+		// Requests queued while loading apply to this model only
+		const pendingActions = this._pendingControllerActions;
+		this._pendingControllerActions = [];
+
+		// Check if model has animations (rigged models without clips still get a controller for procedural poses)
+		if (this._model.animations.length === 0 && this._model.skins.length === 0)
 		{
-			modelLoadLog("Model has no skinning data or animations, skipping animation controller");
+			modelLoadLog("Model has no animations or skins, skipping animation controller");
 			return;
 		}
 
 		const skins = this._model.skins;
-		if (skins.length === 0) return;
+		const skeleton = this._model.skeleton;
+		if (!skeleton) return;
 
 		const meshes = this._model.meshes;
 		if (!meshes || meshes.length === 0) return;
 
 		// Build mesh data for animation controller and track skinned mesh indices
-		const animMeshes: { originalPositions: Float32Array; originalNormals?: Float32Array | null; skinningData: any }[] = [];
+		const animMeshes: { originalPositions: Float32Array; originalNormals?: Float32Array | null; skinningData: any; morphData?: MeshMorphData | null; morphWeights?: Float32Array | null }[] = [];
 		this._skinnedMeshIndices = [];
 		for (let i = 0; i < meshes.length; i++)
 		{
@@ -1063,21 +1244,25 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 				animMeshes.push({
 					originalPositions: mesh.originalPositions,
 					originalNormals: mesh.originalNormals,
-					skinningData: mesh.skinningData
+					skinningData: mesh.skinningData,
+					morphData: mesh.morphData,
+					morphWeights: mesh.morphWeights
 				});
 			}
 		}
 
-		if (animMeshes.length === 0)
+		// Rigid (node) and morph animations don't need skinned meshes
+		if (animMeshes.length === 0 && !this._model.hasAnimatedNodes && !this._model.hasMorphTargets)
 		{
-			modelLoadLog("No skinned meshes found, skipping animation controller");
+			modelLoadLog("No skinned meshes, animated nodes or morph targets found, skipping animation controller");
 			return;
 		}
 
 		try
 		{
 			this._animationController = new AnimationController({
-				skinData: skins[0], // Use first skin
+				skins,
+				skeleton,
 				animations: [...this._model.animations],
 				meshes: animMeshes
 			});
@@ -1092,6 +1277,17 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 				this._trigger(C3.Plugins.GltfStatic.Cnds.OnAnimationFinished);
 			};
 
+			this._animationController.onEvent = (name, clip) =>
+			{
+				this._animationEventName = name;
+				this._animationEventClip = clip;
+				this._trigger(C3.Plugins.GltfStatic.Cnds.OnAnimationEvent);
+			};
+			for (const event of this._userAnimationEvents)
+			{
+				this._animationController.addAnimationEvent(event.clip, event.name, event.time);
+			}
+
 			modelLoadLog(`Animation controller created with ${this._model.animations.length} animations, ${animMeshes.length} skinned meshes`);
 
 		// Apply any animation that was requested before the controller was ready
@@ -1105,6 +1301,12 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 			this._animationController.playByIndex(this._pendingAnimationIndex);
 			this._pendingAnimationIndex = null;
 		}
+
+		// Replay pose requests (overrides, look-at, ...) in the order they were made
+		for (const action of pendingActions)
+		{
+			action(this._animationController);
+		}
 		}
 		catch (err)
 		{
@@ -1113,6 +1315,27 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 		}
 	}
 
+	/**
+	 * Run a request against the animation controller. Requests made while the model is loading
+	 * (e.g. in "On start of layout") are queued and replayed once the controller exists.
+	 * @returns false if the loaded model has no animation controller
+	 */
+	_withAnimationController(action: (controller: AnimationControllerType) => void): boolean
+	{
+		if (this._animationController)
+		{
+			action(this._animationController);
+			return true;
+		}
+		if (this._model?.isLoaded)
+		{
+			debugWarn("No animation controller - model has no animations or skins");
+			return false;
+		}
+		this._pendingControllerActions.push(action);
+		return true;
+	}
+
 	_playAnimation(name: string): void
 	{
 		if (!this._animationController)
@@ -1246,6 +1469,30 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 		return JSON.stringify(names);
 	}
 
+	/** Add a user event; kept on the instance so it survives the controller being rebuilt (reload, scene switch) */
+	_addAnimationEvent(clip: string, name: string, time: number): void
+	{
+		this._userAnimationEvents.push({ clip, name, time });
+		this._animationController?.addAnimationEvent(clip, name, time);
+	}
+
+	/** Remove a clip's events with the given name ("" = all of the clip's events) */
+	_removeAnimationEvents(clip: string, name: string): void
+	{
+		this._userAnimationEvents = this._userAnimationEvents.filter(e => e.clip !== clip || (name !== "" && e.name !== name));
+		this._animationController?.removeAnimationEvents(clip, name || undefined);
+	}
+
+	_getAnimationEventName(): string
+	{
+		return this._animationEventName;
+	}
+
+	_getAnimationEventClip(): string
+	{
+		return this._animationEventClip;
+	}
+
 	_blendToAnimation(name: string, duration: number, startTime: number): void
 	{
 		if (!this._animationController)
@@ -1266,6 +1513,241 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 		return this._animationController?.getBlendProgress() ?? 0;
 	}
 
+	// ========================================================================
+	// Animation Layer Methods (masked clips composited over the base animation)
+	// ========================================================================
+
+	_playLayerAnimation(layer: AnimationLayerRef, name: string): void
+	{
+		this._withAnimationController(controller => controller.playLayer(layer, name));
+	}
+
+	_blendLayerAnimation(layer: AnimationLayerRef, name: string, duration: number): void
+	{
+		this._withAnimationController(controller => controller.blendLayer(layer, name, duration));
+	}
+
+	_stopLayer(layer: AnimationLayerRef, fadeDuration: number): void
+	{
+		this._withAnimationController(controller => controller.stopLayer(layer, fadeDuration));
+	}
+
+	_setLayerWeight(layer: AnimationLayerRef, weight: number, duration: number): void
+	{
+		this._withAnimationController(controller => controller.setLayerWeight(layer, weight, duration));
+	}
+
+	_setLayerSpeed(layer: AnimationLayerRef, speed: number): void
+	{
+		this._withAnimationController(controller => controller.setLayerSpeed(layer, speed));
+	}
+
+	_setLayerLoop(layer: AnimationLayerRef, loop: boolean): void
+	{
+		this._withAnimationController(controller => controller.setLayerLoop(layer, loop));
+	}
+
+	/**
+	 * Set the bones a layer affects.
+	 * @param bones Root bone name (subtree mode) or comma-separated bone names (list mode); empty = all bones
+	 * @param subtree Include the root bone's descendants
+	 */
+	_setLayerMask(layer: AnimationLayerRef, bones: string, subtree: boolean): void
+	{
+		const names = bones.split(",").map(b => b.trim()).filter(b => b.length > 0);
+		const mask: AnimationLayerMask | null = names.length === 0
+			? null
+			: subtree ? { rootBone: names[0] } : { bones: names };
+		this._withAnimationController(controller => controller.setLayerMask(layer, mask));
+	}
+
+	_isLayerPlaying(layer: AnimationLayerRef): boolean
+	{
+		return this._animationController?.isLayerPlaying(layer) ?? false;
+	}
+
+	_getLayerTime(layer: AnimationLayerRef): number
+	{
+		return this._animationController?.getLayerTime(layer) ?? 0;
+	}
+
+	_getLayerWeight(layer: AnimationLayerRef): number
+	{
+		return this._animationController?.getLayerWeight(layer) ?? 0;
+	}
+
+	_getLayerAnimation(layer: AnimationLayerRef): string
+	{
+		return this._animationController?.getLayerAnimation(layer) ?? "";
+	}
+
+	// ========================================================================
+	// Additive Animation Methods (clip offsets added on top of the pose)
+	// ========================================================================
+
+	/**
+	 * Play a clip additively against a reference pose.
+	 * @param referenceIndex 0 = first frame, 1 = bind pose
+	 */
+	_playAdditiveAnimation(name: string, referenceIndex: number, weight: number, loop: boolean): void
+	{
+		const reference: AdditiveReference = referenceIndex === 1 ? "bind-pose" : "first-frame";
+		this._withAnimationController(controller => controller.playAdditive(name, { reference, weight, loop }));
+	}
+
+	_setAdditiveWeight(name: string, weight: number, duration: number): void
+	{
+		this._withAnimationController(controller => controller.setAdditiveWeight(name, weight, duration));
+	}
+
+	_stopAdditiveAnimation(name: string, fadeDuration: number): void
+	{
+		this._withAnimationController(controller => controller.stopAdditive(name, fadeDuration));
+	}
+
+	// ========================================================================
+	// Bone Override Methods (procedural pose on top of the animation)
+	// ========================================================================
+
+	/**
+	 * Override a bone's local translation, rotation (euler degrees) or scale, or add to the animated value.
+	 * @param additive Apply on top of the animated pose instead of replacing it
+	 * @param weight Blend from the animated pose (0) to the overridden pose (1)
+	 */
+	_setBoneOverride(name: string, path: BoneOverridePath, x: number, y: number, z: number, additive: boolean, weight: number): void
+	{
+		const value = path === "rotation"
+			? quatFromEulerDegrees(new Float32Array(4), x, y, z)
+			: [x, y, z];
+		this._withAnimationController(controller =>
+		{
+			if (!controller.setBoneOverride(name, path, value, additive, weight))
+			{
+				debugWarn("Bone not found:", name);
+			}
+		});
+	}
+
+	_clearBoneOverride(name: string, path?: BoneOverridePath): void
+	{
+		this._withAnimationController(controller => controller.clearBoneOverride(name, path));
+	}
+
+	_clearAllBoneOverrides(): void
+	{
+		this._withAnimationController(controller =>
+		{
+			controller.clearBoneOverrides();
+			controller.clearLookAts();
+		});
+	}
+
+	/**
+	 * Rotate a bone chain so the bone's aim axis points at a layout position.
+	 * @param chainLength Number of bones sharing the rotation (the bone and its parents)
+	 * @param axisIndex Aim axis in the bone's local space (LOOK_AT_AXES)
+	 * @param maxAngle Maximum rotation away from the animated pose in degrees
+	 * @param smoothing Seconds to turn most of the way toward a new direction (0 = immediate)
+	 */
+	_setLookAt(name: string, x: number, y: number, z: number, chainLength: number, axisIndex: number, maxAngle: number, smoothing: number): void
+	{
+		const axis = LOOK_AT_AXES[axisIndex] ?? LOOK_AT_AXES[4];
+		this._setLookAtOptions(name, [x, y, z], { chainLength, axis, maxAngle, smoothing });
+	}
+
+	_setLookAtOptions(name: string, target: [number, number, number], options: LookAtOptions): void
+	{
+		this._withAnimationController(controller =>
+		{
+			if (!controller.setLookAt(name, target, options))
+			{
+				debugWarn("Bone not found:", name);
+			}
+		});
+	}
+
+	_setLookAtWeight(name: string, weight: number): void
+	{
+		this._withAnimationController(controller => controller.setLookAtWeight(name, weight));
+	}
+
+	_clearLookAt(name: string): void
+	{
+		this._withAnimationController(controller => controller.clearLookAt(name));
+	}
+
+	// ========================================================================
+	// Inverse Kinematics Methods
+	// ========================================================================
+
+	/**
+	 * Create or reconfigure a two-bone IK chain (e.g. thigh, shin, foot).
+	 * @param name Chain name used by the other IK actions
+	 */
+	_setIkChain(name: string, rootBone: string, midBone: string, endBone: string): void
+	{
+		this._withAnimationController(controller =>
+		{
+			if (!controller.setIkChain(name, rootBone, midBone, endBone))
+			{
+				debugWarn(`IK chain "${name}": bone not found`);
+			}
+		});
+	}
+
+	_removeIkChain(name: string): void
+	{
+		this._withAnimationController(controller => controller.removeIkChain(name));
+	}
+
+	/** Set the end effector target of an IK chain in layout coordinates */
+	_setIkTarget(name: string, x: number, y: number, z: number): void
+	{
+		this._withAnimationController(controller => controller.setIkTarget(name, [x, y, z]));
+	}
+
+	/** Set the layout position the middle joint (knee/elbow) bends toward, or null to keep the animated bend direction */
+	_setIkPole(name: string, pole: [number, number, number] | null): void
+	{
+		this._withAnimationController(controller => controller.setIkPole(name, pole));
+	}
+
+	_setIkWeight(name: string, weight: number): void
+	{
+		this._withAnimationController(controller => controller.setIkWeight(name, weight));
+	}
+
+	_setIkEnabled(name: string, enabled: boolean): void
+	{
+		this._withAnimationController(controller => controller.setIkEnabled(name, enabled));
+	}
+
+	_isIkEnabled(name: string): boolean
+	{
+		return this._animationController?.isIkEnabled(name) ?? false;
+	}
+
+	/**
+	 * Plant an IK chain's end effector on the ground at a layout Z (e.g. from a raycast under the foot).
+	 * The animation's ground is the model origin, so steps keep their lift above the new height.
+	 */
+	_setIkGroundHeight(name: string, height: number): void
+	{
+		this._withAnimationController(controller => controller.setIkGroundHeight(name, height));
+	}
+
+	/** Set the pelvis bone moved so the lowest grounded foot touches the ground ("" = don't move it) */
+	_setGroundingPelvis(name: string): void
+	{
+		this._withAnimationController(controller =>
+		{
+			if (!controller.setGroundingPelvis(name))
+			{
+				debugWarn("Bone not found:", name);
+			}
+		});
+	}
+
 	// ========================================================================
 	// Animation Frame Skip Methods (Performance Optimization)
 	// ========================================================================
@@ -1407,10 +1889,19 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 			this._model = null;
 		}
 
+		// The animation controller is built against the previous model's meshes (or scene)
+		this._animationController = null;
+		this._skinnedMeshIndices = [];
+
 		try
 		{
 			this._model = new GltfModel();
-			await this._model.load(this.runtime.renderer, url);
+			await this._model.load(this.runtime.renderer, url, {
+				forceNearestSampling: this._forceNearestSampling,
+				maxTextureSize: this._maxTextureSize,
+				scene: this._scene,
+				dynamicNodes: this._dynamicNodes.split(",").map(name => name.trim()).filter(name => name !== "")
+			});
 
 			const loadTime = performance.now() - loadStart;
 			const stats = this._model.getStats();
@@ -1434,6 +1925,14 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 			// Create animation controller if model has skinning/animation data
 			this._createAnimationController();
 
+			// Create Lighting lights from the model's KHR_lights_punctual lights
+			if (this._importLights && this._model.punctualLightCount > 0)
+			{
+				this._buildInstanceMatrix();
+				const lightCount = this._model.createPunctualLights(this._instanceMatrix, this._lightIntensityScale);
+				modelLoadLog(`Imported ${lightCount} light(s) from model`);
+			}
+
 			// Apply addon image texture to built-in models
 			if (this._useBuiltinModel) {
 				this._applyAddonTexture();
@@ -1841,36 +2340,481 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 	}
 
 	/**
-	 * Set the bounding box scale factor for physics shape sizing.
-	 * @param scale Scale factor (1 = use actual bounding box size)
+	 * Whether the bounding box (xMinBB/xMaxBB, bbox expressions, C3 bounds) follows the current pose.
+	 * Turning it off restores the load-time bounding box.
 	 */
-	_setBBoxScale(scale: number): void
+	get animatedBounds(): boolean
 	{
-		this._bboxScale = scale;
+		return this._animatedBounds;
+	}
 
-		// Update C3 bounds when bbox scale changes
-		this._updateInstanceBounds();
+	set animatedBounds(enabled: boolean)
+	{
+		this._setAnimatedBounds(enabled);
 	}
 
 	/**
-	 * Get the bounding box scale factor.
+	 * Physics collider shapes for Rapier (ColliderDesc.trimesh / ColliderDesc.convexHull).
+	 * Vertices are relative to the instance origin with the instance scale applied.
+	 * @param source Geometry to build from; "auto" uses COL_* / UCX_* nodes if present, otherwise one trimesh
 	 */
-	_getBBoxScale(): number
+	getColliders(source: ColliderSource = "auto"): ColliderData[]
 	{
-		return this._bboxScale;
+		return this._getColliders(source);
 	}
 
 	/**
-	 * Update the C3 instance bounds (depth) from the model's rotated bounding box.
-	 * This enables proper 3D frustum culling by C3's engine.
-	 * Called automatically when model loads, scale changes, or rotation changes.
+	 * Closest hit of a world-space ray against the visible meshes (skinned meshes in their current pose).
+	 * The result is also available from the RayHit* expressions.
+	 * @returns Hit, or null if the ray misses
 	 */
-	_updateInstanceBounds(): void
+	raycast(origin: [number, number, number], direction: [number, number, number], maxDistance: number = Infinity): GltfRaycastHit | null
 	{
-		if (!this._model?.isLoaded) return;
+		this._raycast(origin[0], origin[1], origin[2], direction[0], direction[1], direction[2], maxDistance);
+		return this._rayHit ? structuredClone(this._rayHit) : null;
+	}
 
-		const min = this._model.boundingBoxMin;
-		const max = this._model.boundingBoxMax;
+	/**
+	 * Closest hit of a ray from the 3D camera through a layout position on the Z = 0 plane.
+	 * @returns Hit, or null if the ray misses
+	 */
+	raycastFromScreen(x: number, y: number): GltfRaycastHit | null
+	{
+		this._raycastFromScreen(x, y);
+		return this._rayHit ? structuredClone(this._rayHit) : null;
+	}
+
+	/** Names of collision nodes (COL_* triangle mesh, UCX_* convex hull), hidden from rendering */
+	getCollisionNodeNames(): string[]
+	{
+		return this._model?.getCollisionNodeNames() ?? [];
+	}
+
+	// ========================================================================
+	// Animation Events (script interface)
+	// ========================================================================
+
+	/** Add a named event to a clip; fires "On animation event" when playback passes the time (once per loop) */
+	addAnimationEvent(clip: string, name: string, time: number): void
+	{
+		this._addAnimationEvent(clip, name, time);
+	}
+
+	/** Remove a clip's events (all of them, or only those with the given name) */
+	removeAnimationEvents(clip: string, name: string = ""): void
+	{
+		this._removeAnimationEvents(clip, name);
+	}
+
+	/** Events of a clip (from glTF extras and addAnimationEvent), sorted by time */
+	getAnimationEvents(clip: string): { name: string; time: number }[]
+	{
+		return this._animationController?.getAnimationEvents(clip).map(e => ({ ...e })) ?? [];
+	}
+
+	// ========================================================================
+	// Node Hierarchy (script interface)
+	// ========================================================================
+
+	/** Number of nodes in the loaded scene */
+	get nodeCount(): number
+	{
+		return this._getNodeCount();
+	}
+
+	/** Unique node names */
+	getNodeNames(): string[]
+	{
+		return this._model?.getNodeNames() ?? [];
+	}
+
+	/** Parent node name ("" for root nodes), or null if the node doesn't exist */
+	getNodeParent(name: string): string | null
+	{
+		return this._model?.getNodeParentName(name) ?? null;
+	}
+
+	/** Child node names in file order, or null if the node doesn't exist */
+	getNodeChildren(name: string): string[] | null
+	{
+		return this._model?.getNodeChildNames(name) ?? null;
+	}
+
+	/** Node world position [x, y, z] including the instance transform, or null if not found */
+	getNodeWorldPosition(name: string): [number, number, number] | null
+	{
+		return this._getNodeWorldPosition(name);
+	}
+
+	/** Node world rotation [x, y, z] in degrees including the instance transform, or null if not found */
+	getNodeWorldRotation(name: string): [number, number, number] | null
+	{
+		return this._getNodeWorldRotation(name);
+	}
+
+	/** Node tree with the mesh indices attached to each node */
+	getNodeHierarchy(): GltfNodeInfo[]
+	{
+		return this._model?.getNodeHierarchy() ?? [];
+	}
+
+	/**
+	 * Create an instance of an object type at each node matching a pattern (* and ? wildcards).
+	 * @returns Created instances
+	 */
+	spawnAtNodes(objectType: IObjectType, pattern: string, layer: LayerParameter, options: { fullRotation?: boolean; hideMarkers?: boolean } = {}): IWorldInstance[]
+	{
+		return this._spawnAtNodes(objectType, pattern, layer, options.fullRotation ?? false, options.hideMarkers ?? false);
+	}
+
+	/** Node name and extras an instance was spawned at, or null if it wasn't spawned by this instance */
+	getSpawnNode(uid: number): SpawnNodeInfo | null
+	{
+		const info = this._spawnNodes.get(uid);
+		return info ? { nodeName: info.nodeName, extras: structuredClone(info.extras) } : null;
+	}
+
+	// ========================================================================
+	// Bone Attachments (script interface)
+	// ========================================================================
+
+	/**
+	 * Attach an instance to a bone/node so it follows the bone every tick.
+	 * Offset is in layout units along the bone's axes; rotation is euler degrees relative to the bone.
+	 */
+	attachToBone(inst: IWorldInstance, name: string, options: { offset?: [number, number, number]; rotation?: [number, number, number] } = {}): void
+	{
+		this._attachToBone(inst, name, options.offset ?? [0, 0, 0], options.rotation ?? [0, 0, 0]);
+	}
+
+	/** Detach an instance. Returns false if it wasn't attached to this instance */
+	detach(inst: IWorldInstance): boolean
+	{
+		return this._detach(inst.uid);
+	}
+
+	detachAll(): void
+	{
+		this._detachAll();
+	}
+
+	/** Bone/node name an instance is attached to, or null if it isn't attached to this instance */
+	getAttachedBone(uid: number): string | null
+	{
+		return this._attachments.get(uid)?.boneName ?? null;
+	}
+
+	// ========================================================================
+	// Animation Layers (script interface) - layer is a name or index
+	// ========================================================================
+
+	/**
+	 * Play a clip on a layer. Returns false if the model has no animation controller or the animation doesn't exist
+	 * (while the model loads, the clip starts once it has loaded and true is returned).
+	 */
+	playLayer(layer: AnimationLayerRef, name: string, options: { startTime?: number; blendDuration?: number } = {}): boolean
+	{
+		let found = true;
+		const available = this._withAnimationController(controller =>
+		{
+			found = (options.blendDuration ?? 0) > 0
+				? controller.blendLayer(layer, name, options.blendDuration!, options.startTime ?? 0)
+				: controller.playLayer(layer, name, options.startTime ?? 0);
+		});
+		return available && found;
+	}
+
+	stopLayer(layer: AnimationLayerRef, fadeDuration: number = 0): void
+	{
+		this._stopLayer(layer, fadeDuration);
+	}
+
+	setLayerWeight(layer: AnimationLayerRef, weight: number, duration: number = 0): void
+	{
+		this._setLayerWeight(layer, weight, duration);
+	}
+
+	setLayerSpeed(layer: AnimationLayerRef, speed: number): void
+	{
+		this._setLayerSpeed(layer, speed);
+	}
+
+	setLayerLoop(layer: AnimationLayerRef, loop: boolean): void
+	{
+		this._setLayerLoop(layer, loop);
+	}
+
+	/** Restrict a layer to a bone subtree ({ rootBone }) and/or explicit bones ({ bones }); null = all bones */
+	setLayerMask(layer: AnimationLayerRef, mask: AnimationLayerMask | null): void
+	{
+		this._withAnimationController(controller => controller.setLayerMask(layer, mask));
+	}
+
+	/** Clip playing on a layer ("" if none) */
+	getLayerAnimation(layer: AnimationLayerRef): string
+	{
+		return this._getLayerAnimation(layer);
+	}
+
+	getLayerTime(layer: AnimationLayerRef): number
+	{
+		return this._getLayerTime(layer);
+	}
+
+	/** Current layer weight, including play/stop fades */
+	getLayerWeight(layer: AnimationLayerRef): number
+	{
+		return this._getLayerWeight(layer);
+	}
+
+	isLayerPlaying(layer: AnimationLayerRef): boolean
+	{
+		return this._isLayerPlaying(layer);
+	}
+
+	// ========================================================================
+	// Additive Animations (script interface)
+	// ========================================================================
+
+	/**
+	 * Mark a clip as additive against "first-frame" or "bind-pose" (null to unmark).
+	 * Returns false if it doesn't exist (while the model loads, it is marked once loaded and true is returned).
+	 */
+	setAnimationAdditive(name: string, reference: AdditiveReference | null): boolean
+	{
+		let found = true;
+		const available = this._withAnimationController(controller =>
+		{
+			found = controller.setAnimationAdditive(name, reference);
+		});
+		return available && found;
+	}
+
+	/**
+	 * Play a clip additively on top of the current pose.
+	 * Options: weight 0-1 (default 1), loop (default true), speed, reference (default: as marked, else "first-frame").
+	 * While the model loads, the clip starts once it has loaded and true is returned.
+	 */
+	playAdditive(name: string, options: AdditiveOptions = {}): boolean
+	{
+		let found = true;
+		const available = this._withAnimationController(controller =>
+		{
+			found = controller.playAdditive(name, options);
+		});
+		return available && found;
+	}
+
+	setAdditiveWeight(name: string, weight: number, duration: number = 0): void
+	{
+		this._setAdditiveWeight(name, weight, duration);
+	}
+
+	stopAdditive(name: string, fadeDuration: number = 0): void
+	{
+		this._stopAdditiveAnimation(name, fadeDuration);
+	}
+
+	isAdditivePlaying(name: string): boolean
+	{
+		return this._animationController?.isAdditivePlaying(name) ?? false;
+	}
+
+	// ========================================================================
+	// Bone Overrides (script interface)
+	// ========================================================================
+
+	/**
+	 * Override a bone's local translation, rotation (euler degrees) or scale, or add to the animated value.
+	 * Options: additive (default false), weight 0-1 (default 1).
+	 */
+	setBoneOverride(name: string, path: BoneOverridePath, value: [number, number, number], options: { additive?: boolean; weight?: number } = {}): void
+	{
+		this._setBoneOverride(name, path, value[0], value[1], value[2], options.additive ?? false, options.weight ?? 1);
+	}
+
+	/** Remove a bone's overrides (one property, or all of them) */
+	clearBoneOverride(name: string, path?: BoneOverridePath): void
+	{
+		this._clearBoneOverride(name, path);
+	}
+
+	/** Remove all bone overrides and look-at constraints */
+	clearBoneOverrides(): void
+	{
+		this._clearAllBoneOverrides();
+	}
+
+	/** Rotate a bone chain so the bone's aim axis (default +Z) points at a layout position */
+	setLookAt(name: string, target: [number, number, number], options: LookAtOptions = {}): void
+	{
+		this._setLookAtOptions(name, target, options);
+	}
+
+	setLookAtWeight(name: string, weight: number): void
+	{
+		this._setLookAtWeight(name, weight);
+	}
+
+	clearLookAt(name: string): void
+	{
+		this._clearLookAt(name);
+	}
+
+	// ========================================================================
+	// Inverse Kinematics (script interface) - positions in layout coordinates
+	// ========================================================================
+
+	/**
+	 * Create or reconfigure a two-bone IK chain. Returns false if the model has no animation controller or a bone doesn't exist
+	 * (while the model loads, the chain is created once it has loaded and true is returned).
+	 */
+	setIkChain(name: string, rootBone: string, midBone: string, endBone: string): boolean
+	{
+		let found = true;
+		const available = this._withAnimationController(controller =>
+		{
+			found = controller.setIkChain(name, rootBone, midBone, endBone);
+		});
+		return available && found;
+	}
+
+	removeIkChain(name: string): void
+	{
+		this._removeIkChain(name);
+	}
+
+	setIkTarget(name: string, target: [number, number, number]): void
+	{
+		this._setIkTarget(name, target[0], target[1], target[2]);
+	}
+
+	/** Position the middle joint bends toward, or null to keep the animated bend direction */
+	setIkPole(name: string, pole: [number, number, number] | null): void
+	{
+		this._setIkPole(name, pole);
+	}
+
+	setIkWeight(name: string, weight: number): void
+	{
+		this._setIkWeight(name, weight);
+	}
+
+	setIkEnabled(name: string, enabled: boolean): void
+	{
+		this._setIkEnabled(name, enabled);
+	}
+
+	isIkEnabled(name: string): boolean
+	{
+		return this._isIkEnabled(name);
+	}
+
+	/** Plant an IK chain's end effector on the ground at a layout Z */
+	setIkGroundHeight(name: string, height: number): void
+	{
+		this._setIkGroundHeight(name, height);
+	}
+
+	/** Pelvis bone moved so the lowest grounded foot touches the ground ("" = don't move it) */
+	setGroundingPelvis(name: string): void
+	{
+		this._setGroundingPelvis(name);
+	}
+
+	// ========================================================================
+	// Extras (script interface) - copies, so scripts can't modify the shared document
+	// ========================================================================
+
+	/** Extras of a node, or null if the node doesn't exist */
+	getNodeExtras(name: string): Record<string, unknown> | null
+	{
+		const extras = this._model?.getNodeExtras(name);
+		return extras ? structuredClone(extras) : null;
+	}
+
+	/** glTF mesh extras of a mesh by node name, or null if no mesh has the name */
+	getMeshExtras(name: string): Record<string, unknown> | null
+	{
+		const extras = this._model?.getMeshExtras(name);
+		return extras ? structuredClone(extras) : null;
+	}
+
+	/** Extras of a material, or null if the material doesn't exist */
+	getMaterialExtras(name: string): Record<string, unknown> | null
+	{
+		const extras = this._model?.getMaterialExtras(name);
+		return extras ? structuredClone(extras) : null;
+	}
+
+	/** Extras of the loaded scene */
+	get sceneExtras(): Record<string, unknown>
+	{
+		return structuredClone(this._model?.sceneExtras ?? {});
+	}
+
+	/** Extras of the glTF asset object */
+	get assetExtras(): Record<string, unknown>
+	{
+		return structuredClone(this._model?.assetExtras ?? {});
+	}
+
+	/**
+	 * Set the bounding box scale factor for physics shape sizing.
+	 * @param scale Scale factor (1 = use actual bounding box size)
+	 */
+	_setBBoxScale(scale: number): void
+	{
+		this._bboxScale = scale;
+
+		// Update C3 bounds when bbox scale changes
+		this._updateInstanceBounds();
+	}
+
+	/**
+	 * Get the bounding box scale factor.
+	 */
+	_getBBoxScale(): number
+	{
+		return this._bboxScale;
+	}
+
+	/**
+	 * Enable or disable recomputing the bounding box from the current pose each tick.
+	 * Disabling restores the load-time bounding box.
+	 */
+	_setAnimatedBounds(enabled: boolean): void
+	{
+		this._animatedBounds = enabled;
+		if (!this._model?.isLoaded) return;
+
+		if (enabled)
+		{
+			this._model.updatePoseBounds(this._animationController);
+		}
+		else
+		{
+			this._model.resetPoseBounds();
+		}
+		this._updateInstanceBounds();
+	}
+
+	/**
+	 * Update the C3 instance bounds (depth) from the model's rotated bounding box.
+	 * This enables proper 3D frustum culling by C3's engine.
+	 * Called automatically when model loads, scale changes, or rotation changes.
+	 * Bounds are centered on the instance origin (model center), so a pose box that
+	 * moved off-center (animated bounds) is covered by extending both sides.
+	 */
+	_updateInstanceBounds(): void
+	{
+		if (!this._model?.isLoaded) return;
+
+		const center = this._model.localCenter;
+		const bboxMin = this._model.boundingBoxMin;
+		const bboxMax = this._model.boundingBoxMax;
+		const min = [bboxMin[0] - center[0], bboxMin[1] - center[1], bboxMin[2] - center[2]];
+		const max = [bboxMax[0] - center[0], bboxMax[1] - center[1], bboxMax[2] - center[2]];
 
 		// Get the 8 corners of the bounding box
 		const corners = [
@@ -1923,9 +2867,12 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 		// Note: Tiny random epsilon on depth forces C3's setter to see it as "changed" each call.
 		// Without this, C3's internal dirty check no-ops when value is unchanged, causing
 		// models to not render when returning to screen after being off-screen.
-		(this as any).width = (worldMaxX - worldMinX) * this._bboxScale;
-		(this as any).height = (worldMaxY - worldMinY) * this._bboxScale;
-		(this as any).depth = (worldMaxZ - worldMinZ) * this._bboxScale + Math.random() * 0.0000001;
+		const width = 2 * Math.max(-worldMinX, worldMaxX);
+		const height = 2 * Math.max(-worldMinY, worldMaxY);
+		const depth = 2 * Math.max(-worldMinZ, worldMaxZ);
+		(this as any).width = width * this._bboxScale;
+		(this as any).height = height * this._bboxScale;
+		(this as any).depth = depth * this._bboxScale + Math.random() * 0.0000001;
 		// Notify C3 that bounds changed so it re-evaluates frustum culling
 		(this as any).GetWorldInfo?.()?.SetBboxChanged?.();
 	}
@@ -1999,6 +2946,350 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 		];
 	}
 
+	// ========================================================================
+	// Collider Methods
+	// ========================================================================
+
+	/**
+	 * Build physics collider shapes from the model geometry.
+	 * Vertices are relative to the instance origin (model center) with the instance scale applied,
+	 * so the instance position and quaternion can be used as the rigid body transform.
+	 * @param source "auto", "trimesh", "convex-mesh", "convex-node" or "collision-nodes"
+	 */
+	_getColliders(source: string): ColliderData[]
+	{
+		if (!this._model?.isLoaded) return [];
+
+		const center = this._model.localCenter;
+		const colliders = this._model.getColliders(source as ColliderSource);
+		for (const collider of colliders)
+		{
+			const vertices = collider.vertices;
+			for (let i = 0; i < vertices.length; i += 3)
+			{
+				vertices[i] = (vertices[i] - center[0]) * this._scaleX;
+				vertices[i + 1] = (vertices[i + 1] - center[1]) * this._scaleY;
+				vertices[i + 2] = (vertices[i + 2] - center[2]) * this._scaleZ;
+			}
+		}
+		return colliders;
+	}
+
+	_getColliderJson(source: string): string
+	{
+		return JSON.stringify(this._getColliders(source).map(collider => ({
+			type: collider.type,
+			node: collider.node,
+			vertices: Array.from(collider.vertices),
+			indices: collider.indices ? Array.from(collider.indices) : null
+		})));
+	}
+
+	_getColliderCount(source: string): number
+	{
+		if (!this._model?.isLoaded) return 0;
+		return this._model.getColliderCount(source as ColliderSource);
+	}
+
+	_getCollisionNodeCount(): number
+	{
+		return this._model?.getCollisionNodeNames().length ?? 0;
+	}
+
+	// ========================================================================
+	// Raycast Methods
+	// ========================================================================
+
+	/**
+	 * Cast a world-space ray against the model's visible meshes and store the closest hit.
+	 * Skinned meshes are tested in their current pose.
+	 * @returns true if the ray hit the model
+	 */
+	_raycast(originX: number, originY: number, originZ: number, dirX: number, dirY: number, dirZ: number, maxDistance: number = Infinity): boolean
+	{
+		this._rayHit = null;
+		const length = Math.hypot(dirX, dirY, dirZ);
+		if (!this._model?.isLoaded || length === 0) return false;
+
+		// The matrix is only rebuilt on processed ticks (frame skip, LOD, or moved since the last tick)
+		const instanceMatrix = this._buildInstanceMatrix();
+		const direction = [dirX / length, dirY / length, dirZ / length];
+		this._rayHit = this._model.raycast([originX, originY, originZ], direction, instanceMatrix, maxDistance, this._tickCount);
+		return this._rayHit !== null;
+	}
+
+	/**
+	 * Cast a ray from the 3D camera through a layout position on the Z = 0 plane (e.g. the mouse position).
+	 * @returns true if the ray hit the model
+	 */
+	_raycastFromScreen(x: number, y: number): boolean
+	{
+		const camera = this._getCameraPosition();
+		return this._raycast(camera[0], camera[1], camera[2], x - camera[0], y - camera[1], -camera[2]);
+	}
+
+	// ========================================================================
+	// Node Hierarchy Methods
+	// ========================================================================
+
+	_getNodeCount(): number
+	{
+		return this._model?.nodeCount ?? 0;
+	}
+
+	_getNodeNames(): string
+	{
+		return JSON.stringify(this._model?.getNodeNames() ?? []);
+	}
+
+	_getNodeParent(name: string): string
+	{
+		return this._model?.getNodeParentName(name) ?? "";
+	}
+
+	_getNodeChildCount(name: string): number
+	{
+		return this._model?.getNodeChildNames(name)?.length ?? 0;
+	}
+
+	_getNodeChildAt(name: string, index: number): string
+	{
+		const children = this._model?.getNodeChildNames(name);
+		if (!children || index < 0 || index >= children.length) return "";
+		return children[index];
+	}
+
+	/**
+	 * World position of a node, including the instance transform.
+	 * Nodes and bones share one namespace, so this resolves like _getBonePosition.
+	 */
+	_getNodeWorldPosition(name: string): [number, number, number] | null
+	{
+		return this._getBonePosition(name);
+	}
+
+	/** World rotation of a node in degrees, including the instance transform */
+	_getNodeWorldRotation(name: string): [number, number, number] | null
+	{
+		return this._getBoneRotation(name);
+	}
+
+	_getNodeHierarchy(): string
+	{
+		return JSON.stringify(this._model?.getNodeHierarchy() ?? []);
+	}
+
+	// ========================================================================
+	// Extras Methods (glTF custom properties)
+	// ========================================================================
+
+	_getNodeExtra(name: string, key: string): string | number
+	{
+		return formatExtraValue(this._model?.getNodeExtras(name), key);
+	}
+
+	_getNodeExtrasJson(name: string): string
+	{
+		return JSON.stringify(this._model?.getNodeExtras(name) ?? {});
+	}
+
+	_nodeHasExtra(name: string, key: string): boolean
+	{
+		const extras = this._model?.getNodeExtras(name);
+		return !!extras && Object.prototype.hasOwnProperty.call(extras, key);
+	}
+
+	_getMeshExtra(name: string, key: string): string | number
+	{
+		return formatExtraValue(this._model?.getMeshExtras(name), key);
+	}
+
+	_getMeshExtrasJson(name: string): string
+	{
+		return JSON.stringify(this._model?.getMeshExtras(name) ?? {});
+	}
+
+	_getMaterialExtra(name: string, key: string): string | number
+	{
+		return formatExtraValue(this._model?.getMaterialExtras(name), key);
+	}
+
+	_getMaterialExtrasJson(name: string): string
+	{
+		return JSON.stringify(this._model?.getMaterialExtras(name) ?? {});
+	}
+
+	_getSceneExtra(key: string): string | number
+	{
+		return formatExtraValue(this._model?.sceneExtras, key);
+	}
+
+	_getSceneExtrasJson(): string
+	{
+		return JSON.stringify(this._model?.sceneExtras ?? {});
+	}
+
+	_getAssetExtra(key: string): string | number
+	{
+		return formatExtraValue(this._model?.assetExtras, key);
+	}
+
+	_getAssetExtrasJson(): string
+	{
+		return JSON.stringify(this._model?.assetExtras ?? {});
+	}
+
+	// ========================================================================
+	// Node Spawning Methods
+	// ========================================================================
+
+	/**
+	 * Create an instance of an object type at each node matching a pattern (* and ? wildcards).
+	 * Position and Z angle come from the node's world transform, including this instance's transform.
+	 * @param objectClass Object type to create (families can't be created)
+	 * @param pattern Node name pattern, e.g. "spawn_enemy_*"
+	 * @param layer Layer to create the instances on
+	 * @param fullRotation Give glTF Static instances the node's full rotation as their quaternion
+	 * @param hideMarkers Hide the meshes of the matched nodes
+	 * @returns Created instances
+	 */
+	_spawnAtNodes(objectClass: IObjectClass<IInstance>, pattern: string, layer: ILayer | LayerParameter, fullRotation: boolean, hideMarkers: boolean): IWorldInstance[]
+	{
+		this._lastSpawnCount = 0;
+		if (!this._model?.isLoaded) return [];
+
+		const objectType = objectClass as IObjectType;
+		if (typeof objectType?.createInstance !== "function")
+		{
+			debugWarn("SpawnAtNodes: object type can't be created (family?)");
+			return [];
+		}
+
+		const layerParam = typeof layer === "object" ? layer.name : layer;
+		const instanceMatrix = this._buildInstanceMatrix();
+		const spawned: IWorldInstance[] = [];
+
+		for (const nodeName of this._model.findNodeNames(pattern))
+		{
+			const nodeMatrix = this._model.getNodeWorldMatrix(nodeName);
+			if (!nodeMatrix) continue;
+
+			// Node world transform under this instance (model space -> layout)
+			mat4.multiply(tempMat, instanceMatrix, nodeMatrix as unknown as mat4Type);
+			const x = tempMat[12], y = tempMat[13], z = tempMat[14];
+
+			const inst = objectType.createInstance(layerParam, x, y) as unknown as IWorldInstance;
+			inst.zElevation = z - (inst.totalZ - inst.zElevation);
+
+			if (fullRotation && inst instanceof GltfStaticInstance)
+			{
+				// C3 angle is applied before the quaternion, so the quaternion carries the whole rotation
+				mat4.getRotation(tempQuat, tempMat);
+				inst.angle = 0;
+				inst._setRotationQuaternion(tempQuat[0], tempQuat[1], tempQuat[2], tempQuat[3]);
+			}
+			else
+			{
+				// Z angle of the node's X axis in the layout plane
+				inst.angle = Math.atan2(tempMat[1], tempMat[0]);
+			}
+
+			const uid = inst.uid;
+			this._spawnNodes.set(uid, {
+				nodeName,
+				extras: this._model.getNodeExtras(nodeName) ?? {}
+			});
+			inst.addEventListener("destroy", () => this._spawnNodes.delete(uid));
+
+			if (hideMarkers)
+			{
+				this._model.setMeshVisibleByName(nodeName, false);
+			}
+			spawned.push(inst);
+		}
+
+		this._lastSpawnCount = spawned.length;
+		debugLog(`SpawnAtNodes "${pattern}": ${spawned.length} instance(s) created`);
+		return spawned;
+	}
+
+	/** Node name an instance was spawned at ("" if it wasn't spawned by this instance) */
+	_getSpawnNodeName(uid: number): string
+	{
+		return this._spawnNodes.get(uid)?.nodeName ?? "";
+	}
+
+	_getSpawnNodeExtra(uid: number, key: string): string | number
+	{
+		return formatExtraValue(this._spawnNodes.get(uid)?.extras, key);
+	}
+
+	_getSpawnNodeExtrasJson(uid: number): string
+	{
+		return JSON.stringify(this._spawnNodes.get(uid)?.extras ?? {});
+	}
+
+	_getLastSpawnCount(): number
+	{
+		return this._lastSpawnCount;
+	}
+
+	// ========================================================================
+	// Node Articulation Methods
+	// ========================================================================
+
+	_setNodeTranslation(name: string, x: number, y: number, z: number): void
+	{
+		if (!this._model?.setNodeTranslation(name, x, y, z))
+		{
+			debugWarn("Node not found or not articulable:", name);
+		}
+	}
+
+	_setNodeRotation(name: string, x: number, y: number, z: number): void
+	{
+		if (!this._model?.setNodeRotation(name, x, y, z))
+		{
+			debugWarn("Node not found or not articulable:", name);
+		}
+	}
+
+	_setNodeScale(name: string, x: number, y: number, z: number): void
+	{
+		if (!this._model?.setNodeScale(name, x, y, z))
+		{
+			debugWarn("Node not found or not articulable:", name);
+		}
+	}
+
+	_resetNode(name: string): void
+	{
+		this._model?.resetNode(name);
+	}
+
+	_resetAllNodes(): void
+	{
+		this._model?.resetAllNodes();
+	}
+
+	/** Local translation of a node relative to its parent */
+	_getNodeTranslation(name: string): [number, number, number] | null
+	{
+		return this._model?.getNodeTranslation(name) ?? null;
+	}
+
+	/** Local rotation of a node relative to its parent (euler degrees) */
+	_getNodeRotation(name: string): [number, number, number] | null
+	{
+		return this._model?.getNodeRotation(name) ?? null;
+	}
+
+	/** Local scale of a node relative to its parent */
+	_getNodeScale(name: string): [number, number, number] | null
+	{
+		return this._model?.getNodeScale(name) ?? null;
+	}
+
 	// ========================================================================
 	// Bone Attachment Methods
 	// ========================================================================
@@ -2091,6 +3382,22 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 	{
 		if (!this._model?.isLoaded) return null;
 
+		const boneMatrix = this._getBoneMatrix(name);
+		if (!boneMatrix) return null;
+
+		return this._extractBoneRotation(boneMatrix);
+	}
+
+	/**
+	 * Get the model-space matrix of a bone/node by name.
+	 * Animated joint matrix for skinned models, static node transform otherwise.
+	 * @param name Bone/node name
+	 * @returns Matrix (excludes instance TRS), or null if not found
+	 */
+	_getBoneMatrix(name: string): Float32Array | null
+	{
+		if (!this._model?.isLoaded) return null;
+
 		let boneMatrix: Float32Array | null = null;
 
 		// Try animated bone first (skinned model)
@@ -2109,9 +3416,7 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 			boneMatrix = this._model.getNodeWorldMatrix(name);
 		}
 
-		if (!boneMatrix) return null;
-
-		return this._extractBoneRotation(boneMatrix);
+		return boneMatrix;
 	}
 
 	/**
@@ -2259,6 +3564,146 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 		return false;
 	}
 
+	/**
+	 * Attach an instance to a bone/node. It follows the bone every tick (including frame-skipped ticks)
+	 * until detached or destroyed. Attaching an already attached instance replaces its bone and offset.
+	 * @param inst Instance to attach
+	 * @param name Bone/node name
+	 * @param offset Position offset in layout units along the bone's axes
+	 * @param rotation Rotation relative to the bone, euler angles in degrees
+	 */
+	_attachToBone(inst: IWorldInstance, name: string, offset: [number, number, number], rotation: [number, number, number]): void
+	{
+		if ((inst as unknown) === this)
+		{
+			debugWarn("AttachToBone: an instance can't be attached to itself");
+			return;
+		}
+		if (this._model?.isLoaded && !this._hasBone(name))
+		{
+			debugWarn("AttachToBone: bone/node not found:", name);
+		}
+
+		const uid = inst.uid;
+		let attachment = this._attachments.get(uid);
+		if (!attachment)
+		{
+			attachment = {
+				instance: inst,
+				boneName: name,
+				offset: new Float32Array(3),
+				rotation: new Float32Array(4),
+				onDestroy: () => this._attachments.delete(uid)
+			};
+			inst.addEventListener("destroy", attachment.onDestroy);
+			this._attachments.set(uid, attachment);
+		}
+
+		attachment.boneName = name;
+		attachment.offset.set(offset);
+		quatFromEulerDegrees(attachment.rotation, rotation[0], rotation[1], rotation[2]);
+
+		// Snap into place now rather than on the next tick
+		this._updateAttachments();
+	}
+
+	/** Attach the picked instances of an object type (AttachToBone action) */
+	_attachPickedToBone(objectClass: IObjectClass<IInstance>, name: string, offset: [number, number, number], rotation: [number, number, number]): void
+	{
+		for (const inst of objectClass.getPickedInstances())
+		{
+			this._attachToBone(inst as IWorldInstance, name, offset, rotation);
+		}
+	}
+
+	/**
+	 * Detach an instance. It keeps its current position and rotation.
+	 * @returns false if the instance wasn't attached to this instance
+	 */
+	_detach(uid: number): boolean
+	{
+		const attachment = this._attachments.get(uid);
+		if (!attachment) return false;
+
+		attachment.instance.removeEventListener("destroy", attachment.onDestroy);
+		this._attachments.delete(uid);
+		return true;
+	}
+
+	/** Detach the picked instances of an object type (Detach action) */
+	_detachPicked(objectClass: IObjectClass<IInstance>): void
+	{
+		for (const inst of objectClass.getPickedInstances())
+		{
+			this._detach(inst.uid);
+		}
+	}
+
+	_detachAll(): void
+	{
+		for (const uid of Array.from(this._attachments.keys()))
+		{
+			this._detach(uid);
+		}
+	}
+
+	/** Bone/node name an instance is attached to ("" if it isn't attached to this instance) */
+	_getAttachedBone(uid: number): string
+	{
+		return this._attachments.get(uid)?.boneName ?? "";
+	}
+
+	_getAttachmentCount(): number
+	{
+		return this._attachments.size;
+	}
+
+	/**
+	 * Move attached instances to their bones.
+	 * Position and Z angle as in _spawnAtNodes; glTF Static instances get the full rotation as their quaternion.
+	 */
+	_updateAttachments(): void
+	{
+		if (this._attachments.size === 0 || !this._model?.isLoaded) return;
+
+		const instanceMatrix = this._buildInstanceMatrix();
+
+		for (const attachment of this._attachments.values())
+		{
+			const boneMatrix = this._getBoneMatrix(attachment.boneName);
+			if (!boneMatrix) continue;
+
+			// Bone world transform under this instance (model space -> layout)
+			mat4.multiply(tempMat, instanceMatrix, boneMatrix as unknown as mat4Type);
+			mat4.getRotation(tempQuat, tempMat);
+
+			// Offset along the bone's axes, unaffected by model and bone scale
+			vec3.transformQuat(tempVec, attachment.offset as vec3Type, tempQuat);
+			const x = tempMat[12] + tempVec[0];
+			const y = tempMat[13] + tempVec[1];
+			const z = tempMat[14] + tempVec[2];
+			quat.multiply(tempQuat, tempQuat, attachment.rotation as quatType);
+
+			const inst = attachment.instance;
+			inst.x = x;
+			inst.y = y;
+			inst.zElevation = z - (inst.totalZ - inst.zElevation);
+
+			if (inst instanceof GltfStaticInstance)
+			{
+				// C3 angle is applied before the quaternion, so the quaternion carries the whole rotation
+				inst.angle = 0;
+				inst._setRotationQuaternion(tempQuat[0], tempQuat[1], tempQuat[2], tempQuat[3]);
+			}
+			else
+			{
+				// Z angle of the rotated X axis in the layout plane
+				mat4.fromQuat(tempMat, tempQuat);
+				inst.angle = Math.atan2(tempMat[1], tempMat[0]);
+			}
+		}
+	}
+
 	// ========================================================================
 	// Debug Control
 	// ========================================================================
@@ -2646,6 +4091,8 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 	{
 		return {
 			"modelUrl": this._modelUrl,
+			"scene": this._scene,
+			"animatedBounds": this._animatedBounds,
 			"rotationX": this._rotationX,
 			"rotationY": this._rotationY,
 			"rotationZ": this._rotationZ,
@@ -2693,10 +4140,25 @@ C3.Plugins.GltfStatic.Instance = class GltfStaticInstance extends ISDKWorldInsta
 			this._texAnimForward = (data["texAnimForward"] as boolean) ?? true;
 		}
 
-		// Reload model after restoring state
+		// Restore animated bounds (off in older saves)
+		this._setAnimatedBounds((data["animatedBounds"] as boolean) ?? false);
+
+		// Restore selected scene (older saves have none: default scene)
+		const scene = (data["scene"] as string | number) ?? "";
+		const sceneChanged = scene !== this._scene;
+		this._scene = scene;
+
+		// Reload model after restoring state (a different scene needs a rebuild)
 		if (this._modelUrl)
 		{
-			this._loadModel(this._modelUrl);
+			if (sceneChanged)
+			{
+				this._forceLoadModel(this._modelUrl);
+			}
+			else
+			{
+				this._loadModel(this._modelUrl);
+			}
 		}
 	}
 };
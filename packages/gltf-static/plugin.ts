@@ -57,7 +57,17 @@ const PLUGIN_CLASS = SDK.Plugins.GltfStatic = class GltfStaticPlugin extends SDK
 			new SDK.PluginProperty("combo", "built-in-model-type", {
 				items: ["cube", "sphere", "capsule", "cylinder", "cone", "ramp", "plane"],
 				initialValue: "cube"
-			})
+			}),
+			new SDK.PluginProperty("check", "import-lights", false),
+			new SDK.PluginProperty("float", "light-intensity-scale", 1),
+			new SDK.PluginProperty("check", "force-nearest-sampling", false),
+			new SDK.PluginProperty("integer", "max-texture-size", {
+				initialValue: 0,
+				minValue: 0
+			}),
+			new SDK.PluginProperty("text", "scene", ""),
+			new SDK.PluginProperty("text", "dynamic-nodes", ""),
+			new SDK.PluginProperty("check", "animated-bounds", false)
 		]);
 
 		SDK.Lang.PopContext();
@@ -153,6 +153,99 @@ const SCALE_AND_TRANSLATE = new Float32Array([
   5, 10, 15, 1
 ]);
 
+// Bundle a c3runtime/gltf TypeScript module (like build.js) so its logic can be tested in Node
+const moduleCache = new Map();
+async function loadGltfModule(name) {
+  if (moduleCache.has(name)) return moduleCache.get(name);
+  const entryPoint = path.join(__dirname, '../c3runtime/gltf', `${name}.ts`);
+  const result = await require('esbuild').build({
+    entryPoints: [entryPoint],
+    bundle: true,
+    write: false,
+    format: 'cjs',
+    platform: 'node',
+    target: 'node18',
+    logLevel: 'silent',
+    loader: { '.wasm': 'binary' },
+    plugins: [{
+      // Worker glue source (build.js inlines it as text) isn't needed for these tests
+      name: 'source-text',
+      setup(build) {
+        build.onResolve({ filter: /\?source$/ }, (args) => ({ path: args.path, namespace: 'source-text' }));
+        build.onLoad({ filter: /.*/, namespace: 'source-text' }, () => ({ contents: '', loader: 'text' }));
+      }
+    }]
+  });
+  const module = { exports: {} };
+  new Function('module', 'exports', 'require', '__filename', '__dirname', result.outputFiles[0].text)(
+    module, module.exports, require, entryPoint, path.dirname(entryPoint));
+  moduleCache.set(name, module.exports);
+  return module.exports;
+}
+
+// Column-major translation matrix
+function translation(x, y, z) {
+  return new Float32Array([1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, x, y, z, 1]);
+}
+
+// AnimationController over a joint chain: joints = [{ name, parent, offset: [x, y, z] }]
+async function createController(joints, animations = []) {
+  const { AnimationController } = await loadGltfModule('AnimationController');
+  const jointData = joints.map((joint, index) => ({
+    index,
+    name: joint.name,
+    parentIndex: joint.parent ?? -1,
+    node: null,
+    localBindTransform: translation(...(joint.offset ?? [0, 0, 0])),
+    skinIndex: 0
+  }));
+  const skin = { name: 'skin', joints: jointData, inverseBindMatrices: new Float32Array(joints.length * 16), nodeToJointIndex: new Map() };
+  const skeleton = { joints: jointData, nodeToJointIndex: new Map(), skinJointMaps: [new Uint16Array(joints.map((_, i) => i))] };
+  return new AnimationController({ skins: [skin], skeleton, animations, meshes: [] });
+}
+
+// One-channel animation clip on a joint
+function createClip(name, joint, path, interpolation, input, output, events = []) {
+  return {
+    name,
+    duration: input[input.length - 1],
+    samplers: [{ input: new Float32Array(input), output: new Float32Array(output), interpolation }],
+    channels: [{ targetJointIndex: joint, targetNode: null, targetPath: path, samplerIndex: 0 }],
+    events
+  };
+}
+
+function jointPosition(controller, joint) {
+  const m = controller.getJointWorldMatrix(joint);
+  return [m[12], m[13], m[14]];
+}
+
+// Renderer stub for GltfMesh.create(): mesh data buffers only
+function createTestRenderer() {
+  return {
+    createMeshData: (vertexCount, indexCount) => ({
+      positions: new Float32Array(vertexCount * 3),
+      texCoords: new Float32Array(vertexCount * 2),
+      indices: new Uint16Array(indexCount),
+      colors: new Float32Array(vertexCount * 4),
+      markDataChanged: () => {},
+      markIndexDataChanged: () => {},
+      fillColor: () => {}
+    })
+  };
+}
+
+// Controller over a 'run' clip with events at 0, 0.25 and 0.75, recording fired events as clip:name
+async function createEventController() {
+  const events = [{ name: 'start', time: 0 }, { name: 'step', time: 0.25 }, { name: 'land', time: 0.75 }];
+  const run = createClip('run', 0, 'translation', 'LINEAR', [0, 1], [0, 0, 0, 1, 0, 0], events);
+  const idle = createClip('idle', 0, 'translation', 'STEP', [0, 1], [0, 0, 0, 0, 0, 0]);
+  const controller = await createController([{ name: 'root' }], [run, idle]);
+  const fired = [];
+  controller.onEvent = (name, clip) => fired.push(`${clip}:${name}`);
+  return { controller, fired };
+}
+
 async function runTests() {
   console.log('\n=== Worker Transform Integration Tests ===\n');
   console.log('Testing ACTUAL worker code extracted from TransformWorkerPool.ts\n');
@@ -371,6 +464,947 @@ async function runTests() {
     }
   });
 
+  // Test: morph deltas are applied to the bind pose before skinning
+  await test('morph weights blend deltas before skinning (worker)', async () => {
+    // 2 vertices, each fully weighted to bone 0
+    const positions = new Float32Array([1, 0, 0, 0, 1, 0]);
+    const joints = new Uint8Array([0, 0, 0, 0, 0, 0, 0, 0]);
+    const weights = new Float32Array([1, 0, 0, 0, 1, 0, 0, 0]);
+    // 2 targets packed back to back
+    const positionDeltas = new Float32Array([
+      0, 1, 0, 0, 1, 0,   // target 0: +Y
+      0, 0, 2, 0, 0, 2    // target 1: +2Z
+    ]);
+
+    worker.postMessage({
+      type: 'REGISTER_SKIN', meshId: 300,
+      positions, normals: null, joints, weights,
+      morph: { targetCount: 2, positionDeltas, normalDeltas: null }
+    });
+    await new Promise(r => setTimeout(r, 10));
+
+    const result = await workerRequest(worker, {
+      type: 'SKIN_BATCH',
+      meshIds: [300],
+      boneMatrices: TRANSLATE_10_20_30,
+      morphWeights: [new Float32Array([0.5, 1])]
+    });
+
+    assert(result.type === 'SKIN_RESULTS', 'Expected SKIN_RESULTS');
+    const skinned = result.positions.subarray(result.offsets[0], result.offsets[1]);
+    const morphed = new Float32Array([1, 0.5, 2, 0, 1.5, 2]);
+    assertArraysEqual(skinned, referenceTransform(morphed, TRANSLATE_10_20_30), 'Morphed bind pose should be skinned');
+
+    // Without weights the bind pose is skinned unchanged
+    const plain = await workerRequest(worker, {
+      type: 'SKIN_BATCH',
+      meshIds: [300],
+      boneMatrices: TRANSLATE_10_20_30
+    });
+    const plainSkinned = plain.positions.subarray(plain.offsets[0], plain.offsets[1]);
+    assertArraysEqual(plainSkinned, referenceTransform(positions, TRANSLATE_10_20_30), 'No weights should skip morphing');
+  });
+
+  // [user-001] Morph targets: weighted deltas and the "weights" animation path
+  await test('morph deltas are applied by weight', async () => {
+    const { applyMorphDeltas } = await loadGltfModule('MorphTargets');
+    const base = new Float32Array([0, 0, 0, 1, 1, 1]);
+    const deltas = new Float32Array([
+      1, 0, 0, 1, 0, 0,   // target 0
+      0, 2, 0, 0, 2, 0    // target 1
+    ]);
+    const out = new Float32Array(6);
+    applyMorphDeltas(base, deltas, new Float32Array([0.5, 0.25]), 2, out);
+    assertArraysEqual(out, [0.5, 0.5, 0, 1.5, 1.5, 1], 'Weighted sum of target deltas');
+    assertArraysEqual(base, [0, 0, 0, 1, 1, 1], 'Base attribute untouched');
+  });
+
+  await test('weights channels animate morph weights', async () => {
+    const face = { name: 'face', getMesh: () => null, getWeights: () => [0.5, 0] };
+    const clip = {
+      name: 'smile',
+      duration: 1,
+      samplers: [{ input: new Float32Array([0, 1]), output: new Float32Array([0, 0, 1, 0.5]), interpolation: 'LINEAR' }],
+      channels: [{ targetJointIndex: -1, targetNode: face, targetPath: 'weights', samplerIndex: 0 }],
+      events: []
+    };
+    const controller = await createController([{ name: 'root' }], [clip]);
+    assert(controller.getMorphWeights(face) === null, 'No weights before playback');
+
+    controller.play('smile');
+    assert(controller.hasMorphAnimation(), 'Morph animation active');
+    controller.update(0.5);
+    assertArraysEqual(controller.getMorphWeights(face), [0.5, 0.25], 'Interpolated weights');
+  });
+
+  // [user-002] CUBICSPLINE tracks use the Hermite spline with tangents scaled by the key interval
+  await test('CUBICSPLINE translation follows the Hermite spline', async () => {
+    // Keys at t = 0 and 2; per key: in-tangent, value, out-tangent (vec3)
+    const clip = createClip('move', 0, 'translation', 'CUBICSPLINE', [0, 2], [
+      0, 0, 0,   0, 0, 0,   2, 0, 0,
+      0, 0, 0,   1, 0, 0,   0, 0, 0
+    ]);
+    const controller = await createController([{ name: 'root' }], [clip]);
+    controller.play('move');
+
+    // s = 0.25: h01 = 0.15625, h10 = 0.140625, m0 * dt = 2 * 2
+    controller.update(0.5);
+    assertArraysEqual(jointPosition(controller, 0), [0.71875, 0, 0], 'Hermite value at s = 0.25');
+
+    // s = 0.5: h01 = 0.5, h10 = 0.125
+    controller.update(0.5);
+    assertArraysEqual(jointPosition(controller, 0), [1, 0, 0], 'Hermite value at s = 0.5');
+  });
+
+  await test('CUBICSPLINE without tangents matches smoothstep', async () => {
+    const clip = createClip('move', 0, 'translation', 'CUBICSPLINE', [0, 1], [
+      0, 0, 0,   0, 0, 0,   0, 0, 0,
+      0, 0, 0,   4, 0, 0,   0, 0, 0
+    ]);
+    const controller = await createController([{ name: 'root' }], [clip]);
+    controller.play('move');
+    controller.update(0.25);
+    assertArraysEqual(jointPosition(controller, 0), [4 * 0.15625, 0, 0], 'Smoothstep at 0.25');
+  });
+
+  // [user-003] Skins sharing joints are merged into one skeleton driven by one controller
+  await test('skins sharing joints merge into one skeleton', async () => {
+    const { GltfModel } = await loadGltfModule('GltfModel');
+    const { AnimationController } = await loadGltfModule('AnimationController');
+    const node = (name, parent = null) => ({ name, getParentNode: () => parent });
+    const root = node('root');
+    const spine = node('spine', root);
+    const hand = node('hand', spine);
+    const skinJoint = (n, offset) => ({ name: n.name, node: n, localBindTransform: translation(...offset) });
+    const identities = (count) => {
+      const matrices = new Float32Array(count * 16);
+      for (let i = 0; i < count; i++) matrices.set(IDENTITY, i * 16);
+      return matrices;
+    };
+    const skins = [
+      { name: 'body', joints: [skinJoint(root, [0, 0, 0]), skinJoint(spine, [0, 1, 0])], inverseBindMatrices: identities(2) },
+      { name: 'arm', joints: [skinJoint(spine, [0, 1, 0]), skinJoint(hand, [2, 0, 0])], inverseBindMatrices: identities(2) }
+    ];
+
+    const skeleton = GltfModel.prototype._buildSkeleton.call({}, skins);
+    assert(skeleton.joints.length === 3, `Expected 3 joints, got ${skeleton.joints.length}`);
+    assertArraysEqual(skeleton.skinJointMaps[0], [0, 1], 'First skin joint map');
+    assertArraysEqual(skeleton.skinJointMaps[1], [1, 2], 'Shared joint maps to the same entry');
+    assert(skeleton.joints[2].parentIndex === 1, 'Parent resolved across skins');
+
+    // The second skin's hand bone follows the shared spine
+    const controller = new AnimationController({ skins, skeleton, animations: [], meshes: [] });
+    controller.update(0);
+    const boneMatrices = controller.getBoneMatrices(1);
+    assertArraysEqual(boneMatrices.subarray(28, 31), [2, 1, 0], 'Hand bone = spine + hand offset');
+  });
+
+  // [user-004] Channels on non-joint nodes animate the node's local transform
+  await test('rigid node animation drives the node local transform', async () => {
+    const door = {
+      name: 'door',
+      getTranslation: () => [0, 1, 0],
+      getRotation: () => [0, 0, 0, 1],
+      getScale: () => [1, 1, 1]
+    };
+    const clip = {
+      name: 'open',
+      duration: 1,
+      samplers: [{ input: new Float32Array([0, 1]), output: new Float32Array([0, 0, 0, 4, 0, 0]), interpolation: 'LINEAR' }],
+      channels: [{ targetJointIndex: -1, targetNode: door, targetPath: 'translation', samplerIndex: 0 }],
+      events: []
+    };
+    const controller = await createController([{ name: 'root' }], [clip]);
+    assert(controller.getAnimatedNodes()[0] === door, 'Animated node collected');
+
+    const rest = controller.getNodeLocalTransform(0);
+    assertArraysEqual(rest.subarray(12, 15), [0, 1, 0], 'Rest transform before playback');
+
+    controller.play('open');
+    controller.update(0.5);
+    const local = controller.getNodeLocalTransform(0);
+    assertArraysEqual(local.subarray(12, 15), [2, 0, 0], 'Sampled translation');
+    assert(controller.getNodeLocalTransform(1) === null, 'Out-of-range node index returns null');
+  });
+
+  // [user-005] KHR_lights_punctual lights become Lighting lights that follow their nodes
+  await test('punctual lights are created in Lighting and follow their nodes', async () => {
+    const { GltfModel } = await loadGltfModule('GltfModel');
+    const { GltfNode } = await loadGltfModule('GltfNode');
+    const { getLight, getSpotLight } = await loadGltfModule('Lighting');
+    const lightDef = (type, range, outerConeAngle = Math.PI / 4) => ({
+      getType: () => type,
+      getColor: () => [1, 0.5, 0.25],
+      getIntensity: () => 3,
+      getRange: () => range,
+      getInnerConeAngle: () => 0,
+      getOuterConeAngle: () => outerConeAngle
+    });
+
+    const model = Object.create(GltfModel.prototype);
+    model._punctualLights = [];
+    model._punctualLightsCreated = false;
+    model._tempLightMatrix = new Float32Array(16);
+    model._addPunctualLight(lightDef('directional', null), new GltfNode('sun', IDENTITY));
+    model._addPunctualLight(lightDef('point', 5), new GltfNode('lamp', translation(1, 2, 3)));
+    model._addPunctualLight(lightDef('spot', 5), new GltfNode('torch', translation(0, 5, 0)));
+    assert(model.punctualLightCount === 3, 'Lights recorded');
+
+    // Instance: scale 2, then move 10 along x
+    const instanceMatrix = new Float32Array([2, 0, 0, 0, 0, 2, 0, 0, 0, 0, 2, 0, 10, 0, 0, 1]);
+    assert(model.createPunctualLights(instanceMatrix, 2) === 3, 'Three lights created');
+    assert(model.createPunctualLights(instanceMatrix) === 0, 'Created only once');
+    const [sun, lamp, torch] = model._punctualLights.map(light => light.lightId);
+
+    const sunLight = getLight(sun);
+    assertArraysEqual(sunLight.color, [1, 0.5, 0.25], 'Directional color');
+    assertArraysEqual([sunLight.intensity], [6], 'Intensity scaled');
+    assertArraysEqual(sunLight.direction, [0, 0, 1], 'Direction toward a light pointing down -Z');
+
+    const lampLight = getSpotLight(lamp);
+    assertArraysEqual(lampLight.position, [12, 4, 6], 'Point light under the instance matrix');
+    assertArraysEqual([lampLight.range], [10], 'Range scales with the instance');
+    const torchLight = getSpotLight(torch);
+    assertArraysEqual(torchLight.direction, [0, 0, -1], 'Spot light points down -Z');
+    assertArraysEqual([torchLight.outerConeAngle], [Math.PI / 4], 'Cone angle kept');
+
+    model.updatePunctualLights(translation(0, 0, 0));
+    assertArraysEqual(getSpotLight(lamp).position, [1, 2, 3], 'Lights follow instance moves');
+
+    model.removePunctualLights();
+    assert(!getLight(sun) && !getSpotLight(lamp) && !getSpotLight(torch), 'Lights removed from Lighting');
+  });
+
+  // [user-006] Alpha modes resolve vertex alpha at load; BLEND meshes sort by cached bounds center
+  await test('alpha modes resolve vertex alpha and blend meshes sort by distance', async () => {
+    const { GltfMesh } = await loadGltfModule('GltfMesh');
+    const renderer = createTestRenderer();
+    const positions = new Float32Array([0, 0, 0, 2, 0, 0, 0, 2, 0]);
+    const colors = new Float32Array([1, 1, 1, 0.4, 1, 1, 1, 0.6, 1, 1, 1, 1]);
+    const createMesh = (alphaMode, texture = null) => {
+      const mesh = new GltfMesh();
+      mesh.setMaterialState(alphaMode, 0.5, alphaMode === 'BLEND');
+      mesh.create(renderer, positions, null, new Uint16Array([0, 1, 2]), texture, null, colors);
+      return mesh;
+    };
+    const alphas = (mesh) => [3, 7, 11].map(i => mesh.sourceColors[i]);
+
+    assertArraysEqual(alphas(createMesh('OPAQUE')), [1, 1, 1], 'OPAQUE ignores alpha');
+    assertArraysEqual(alphas(createMesh('MASK')), [0, 1, 1], 'MASK snaps at the cutoff');
+    assertArraysEqual(alphas(createMesh('MASK', {})), [0.4, 0.6, 1], 'Textured MASK leaves the cutoff to the baked texture');
+    const blend = createMesh('BLEND');
+    assertArraysEqual(alphas(blend), [0.4, 0.6, 1], 'BLEND keeps alpha');
+    assert(blend.doubleSided && blend.alphaMode === 'BLEND', 'Material state stored');
+
+    // Bounds center (1, 1, 0); camera 4 units along z
+    assertArraysEqual([blend.updateSortDepth(new Float32Array([1, 1, 4]))], [16], 'Squared distance to the bounds center');
+    blend._applyPositions(new Float32Array([0, 0, 2, 2, 0, 2, 0, 2, 2]));
+    assertArraysEqual([blend.updateSortDepth(new Float32Array([1, 1, 4]))], [4], 'Center rescanned after positions change');
+  });
+
+  // [user-006] Texture alpha is baked once per image and cutoff; the factor alpha is folded into the MASK threshold
+  await test('texture alpha bakes skip images without alpha and fold the factor into the cutoff', async () => {
+    const { textureAlphaKey } = await loadGltfModule('GltfModel');
+    const material = (alphaMode, factorAlpha, cutoff = 0.5) => ({
+      getAlphaMode: () => alphaMode,
+      getAlphaCutoff: () => cutoff,
+      getBaseColorFactor: () => [1, 1, 1, factorAlpha]
+    });
+    // PNG signature, then an IHDR chunk (color type at byte 25) and an optional tRNS chunk before IDAT
+    const png = (colorType, tRNS) => {
+      const chunk = (type, length) => [0, 0, 0, length, ...[...type].map(c => c.charCodeAt(0)), ...new Array(length + 4).fill(0)];
+      const ihdr = chunk('IHDR', 13);
+      ihdr[8 + 9] = colorType;
+      const bytes = [137, 80, 78, 71, 13, 10, 26, 10, ...ihdr, ...(tRNS ? chunk('tRNS', 2) : []), ...chunk('IDAT', 1)];
+      return { getImage: () => new Uint8Array(bytes), getMimeType: () => 'image/png' };
+    };
+    const jpeg = { getImage: () => new Uint8Array(64), getMimeType: () => 'image/jpeg' };
+
+    assert(textureAlphaKey(material('OPAQUE', 1), jpeg) === '', 'JPEG is never baked');
+    assert(textureAlphaKey(material('OPAQUE', 1), png(2, false)) === '', 'RGB PNG without tRNS is not baked');
+    assert(textureAlphaKey(material('OPAQUE', 1), png(2, true)) === '|opaque', 'tRNS gives an RGB PNG alpha');
+    assert(textureAlphaKey(material('OPAQUE', 1), png(6, false)) === '|opaque', 'RGBA PNG is baked opaque');
+    assert(textureAlphaKey(material('BLEND', 1), png(6, false)) === '', 'BLEND textures are never baked');
+    assert(textureAlphaKey(material('MASK', 1), png(2, false)) === '', 'Opaque image passes any cutoff up to 1');
+    assert(textureAlphaKey(material('MASK', 0.4), jpeg) === '|mask:1.25', 'Factor alpha below the cutoff hides an opaque image');
+    // Factor 0.6 x texel 0.6 = 0.36 must be cut at 0.5: texels need 0.5 / 0.6 = 0.8333
+    const key = textureAlphaKey(material('MASK', 0.6), png(6, false));
+    assertArraysEqual([parseFloat(key.slice('|mask:'.length))], [0.5 / 0.6], 'Factor alpha folded into the texel threshold');
+  });
+
+  // [user-007] glTF sampler filters and wrap modes map onto texture options
+  await test('texture samplers map filters and wrap modes', async () => {
+    const { GltfModel } = await loadGltfModule('GltfModel');
+    const sampler = (options, info) => {
+      const model = Object.create(GltfModel.prototype);
+      model._options = options;
+      return GltfModel.prototype._getTextureSampler.call(model, info);
+    };
+    const info = (magFilter, minFilter, wrapS, wrapT) => ({
+      getMagFilter: () => magFilter,
+      getMinFilter: () => minFilter,
+      getWrapS: () => wrapS,
+      getWrapT: () => wrapT
+    });
+    const describe = ({ options }) => `${options.sampling}|${options.mipMap}|${options.wrapX}|${options.wrapY}`;
+
+    assert(describe(sampler({}, null)) === 'bilinear|true|repeat|repeat', 'No sampler: spec defaults');
+    assert(describe(sampler({}, info(9728, 9728, 33071, 33648))) === 'nearest|false|clamp-to-edge|mirror-repeat', 'Pixel art sampler');
+    assert(describe(sampler({}, info(9729, 9987, 10497, 10497))) === 'trilinear|true|repeat|repeat', 'LINEAR_MIPMAP_LINEAR is trilinear');
+    assert(describe(sampler({}, info(null, 9984, undefined, undefined))) === 'nearest|true|repeat|repeat', 'Nearest min filter without mag filter');
+    assert(describe(sampler({ forceNearestSampling: true }, info(9729, 9987))) === 'nearest|false|repeat|repeat', 'Forced nearest sampling');
+
+    const a = sampler({ maxTextureSize: 512 }, info(9729, 9729, 33071, 33071));
+    const b = sampler({ maxTextureSize: 1024 }, info(9729, 9729, 33071, 33071));
+    assert(a.key !== b.key, 'Cache key includes the max texture size');
+  });
+
+  // [user-008] KHR_texture_transform: uv' = offset + rotate(scale * uv)
+  await test('texture transform scales, rotates and offsets UVs', async () => {
+    const { GltfModel } = await loadGltfModule('GltfModel');
+    const transform = (offset, scale, rotation) => ({ getOffset: () => offset, getScale: () => scale, getRotation: () => rotation });
+    const apply = (uvs, t) => {
+      const texCoords = new Float32Array(uvs);
+      GltfModel.prototype._applyTextureTransform.call({}, texCoords, t);
+      return texCoords;
+    };
+
+    assertArraysEqual(apply([0, 0, 1, 1], transform([0, 0], [1, 1], 0)), [0, 0, 1, 1], 'Identity transform');
+    assertArraysEqual(apply([0.5, 0.5, 1, 0], transform([0.25, 0.5], [0.5, 0.5], 0)), [0.5, 0.75, 0.75, 0.5], 'Atlas tile: scale then offset');
+    // Rotation is counter-clockwise in UV space (v points down)
+    assertArraysEqual(apply([1, 0], transform([0, 0], [1, 1], Math.PI / 2)), [0, -1], 'Quarter turn');
+    assertArraysEqual(apply([1, 0], transform([1, 1], [2, 1], Math.PI / 2)), [1, -1], 'Scale before rotation before offset');
+  });
+
+  await test('texture-transformed UVs are wrapped into the external texture sub-rect', async () => {
+    const { GltfModel } = await loadGltfModule('GltfModel');
+    const { GltfMesh } = await loadGltfModule('GltfMesh');
+    const renderer = createTestRenderer();
+    const positions = new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]);
+    const createMesh = (texCoords, transform) => {
+      const mesh = new GltfMesh();
+      if (transform) {
+        GltfModel.prototype._applyTextureTransform.call({}, texCoords, transform);
+        mesh.hasTextureTransform = true;
+      }
+      mesh.create(renderer, positions, texCoords, new Uint16Array([0, 1, 2]), null);
+      return mesh;
+    };
+
+    // Offset 0.5 and scale 2 along u: u' = 0.5 + 2u tiles past 1
+    const tiling = { getOffset: () => [0.5, 0], getScale: () => [2, 1], getRotation: () => 0 };
+    const plain = createMesh(new Float32Array([0, 0, 1, 0, 0, 1]), null);
+    const tiled = createMesh(new Float32Array([0, 0, 1, 0, 0.25, 1]), tiling);
+    const model = Object.create(GltfModel.prototype);
+    model._meshes = [plain, tiled];
+
+    const texture = {};
+    model.applyExternalTexture(texture, { x: 0.5, y: 0.25, width: 0.25, height: 0.5 });
+    assert(tiled.texture === texture, 'Transformed mesh gets the external texture');
+    assertArraysEqual(plain._meshData.texCoords, [0.5, 0.25, 0.75, 0.25, 0.5, 0.75], 'Plain UVs scaled into the rect');
+    // Transformed u: 0.5, 2.5 -> 0.5 (wrapped), 1 (whole tile keeps the far edge)
+    assertArraysEqual(tiled._meshData.texCoords, [0.625, 0.25, 0.625, 0.25, 0.75, 0.75], 'Transformed UVs wrapped, then scaled into the rect');
+
+    // Repeatable from the stored (transformed) UVs
+    model.updateExternalTexture(texture, { x: 0, y: 0, width: 0.5, height: 0.5 });
+    assertArraysEqual(tiled._meshData.texCoords, [0.25, 0, 0.25, 0, 0.5, 0.5], 'Updated rect uses the transformed UVs');
+  });
+
+  // [user-009] Strips and fans are expanded to triangle lists with consistent winding
+  await test('triangle strips alternate winding and drop degenerates', async () => {
+    const { GltfModel } = await loadGltfModule('GltfModel');
+    const triangulate = (indices, mode) => GltfModel.prototype._triangulateIndices.call({}, indices, mode);
+
+    const strip = triangulate(new Uint16Array([0, 1, 2, 3, 4]), 5);
+    assert(strip instanceof Uint16Array, 'Index type preserved');
+    assertArraysEqual(strip, [0, 1, 2, 1, 3, 2, 2, 3, 4], 'Odd strip triangles swap their last two vertices');
+
+    // Repeated index (restart-style stitching) yields degenerate triangles that are removed
+    const stitched = triangulate(new Uint32Array([0, 1, 2, 2, 3, 4]), 5);
+    assert(stitched instanceof Uint32Array, 'Uint32 index type preserved');
+    assertArraysEqual(stitched, [0, 1, 2, 2, 4, 3], 'Degenerate strip triangles dropped, parity kept');
+  });
+
+  await test('triangle fans share the first vertex with consistent winding', async () => {
+    const { GltfModel } = await loadGltfModule('GltfModel');
+    const fan = GltfModel.prototype._triangulateIndices.call({}, new Uint16Array([0, 1, 2, 3, 4]), 6);
+    assertArraysEqual(fan, [1, 2, 0, 2, 3, 0, 3, 4, 0], 'Fan triangles around vertex 0');
+
+    const tooShort = GltfModel.prototype._triangulateIndices.call({}, new Uint16Array([0, 1]), 6);
+    assert(tooShort.length === 0, 'Fewer than 3 indices produce no triangles');
+  });
+
+  // [user-010] Normalized integer accessors (KHR_mesh_quantization) are dequantized to floats
+  await test('quantized accessors are dequantized', async () => {
+    const { readAccessorFloats } = await loadGltfModule('GltfModel');
+    const accessor = (array, componentType, normalized) => ({
+      getArray: () => array,
+      getComponentType: () => componentType,
+      getNormalized: () => normalized
+    });
+
+    assertArraysEqual(readAccessorFloats(accessor(new Uint8Array([0, 51, 255]), 5121, true)), [0, 0.2, 1], 'UNSIGNED_BYTE / 255');
+    assertArraysEqual(readAccessorFloats(accessor(new Uint16Array([0, 65535]), 5123, true)), [0, 1], 'UNSIGNED_SHORT / 65535');
+    assertArraysEqual(readAccessorFloats(accessor(new Int8Array([-128, -127, 127]), 5120, true)), [-1, -1, 1], 'BYTE clamps to -1');
+    assertArraysEqual(readAccessorFloats(accessor(new Int16Array([-32768, 32767]), 5122, true)), [-1, 1], 'SHORT clamps to -1');
+
+    // Non-normalized integers keep their values (scale comes from the node transform)
+    assertArraysEqual(readAccessorFloats(accessor(new Int16Array([-3, 7]), 5122, false)), [-3, 7], 'Non-normalized copied as-is');
+    assert(readAccessorFloats(accessor(null, 5126, false)) === null, 'Missing data returns null');
+  });
+
+  // [user-011] Draco and meshopt compressed documents decode (main thread, no decoder workers in Node)
+  await test('compressed meshes decode before parsing', async () => {
+    const { prepareMeshDecoders, MESH_COMPRESSION_EXTENSIONS } = await loadGltfModule('MeshDecoders');
+    const { Document, WebIO } = require('@gltf-transform/core');
+    const { KHRDracoMeshCompression, EXTMeshoptCompression } = require('@gltf-transform/extensions');
+    const { MeshoptEncoder } = require('meshoptimizer');
+    const draco3d = require('draco3dgltf');
+
+    const quad = [0, 0, 0, 1, 0, 0, 0, 1, 0, 1, 1, 0];
+    const writeQuad = async (extension, dependencies, configure) => {
+      const doc = new Document();
+      const buffer = doc.createBuffer();
+      const position = doc.createAccessor().setType('VEC3').setArray(new Float32Array(quad)).setBuffer(buffer);
+      const indices = doc.createAccessor().setType('SCALAR').setArray(new Uint16Array([0, 1, 2, 2, 1, 3])).setBuffer(buffer);
+      doc.createMesh().addPrimitive(doc.createPrimitive().setAttribute('POSITION', position).setIndices(indices));
+      configure(doc.createExtension(extension).setRequired(true));
+      return new WebIO().registerExtensions([extension]).registerDependencies(dependencies).writeJSON(doc);
+    };
+    const readQuad = async (jsonDoc) => {
+      const io = new WebIO().registerExtensions(MESH_COMPRESSION_EXTENSIONS);
+      assert(await prepareMeshDecoders(io, jsonDoc, 0), 'Document needed decompression');
+      const primitive = (await io.readJSON(jsonDoc)).getRoot().listMeshes()[0].listPrimitives()[0];
+      const positions = primitive.getAttribute('POSITION').getArray();
+      const indices = primitive.getIndices().getArray();
+      // Decoders may reorder vertices: compare the triangles' corner positions
+      return Array.from(indices, i => Array.from(positions.subarray(i * 3, i * 3 + 3)).join(',')).sort();
+    };
+    const expected = [0, 1, 2, 2, 1, 3].map(i => quad.slice(i * 3, i * 3 + 3).join(',')).sort();
+
+    const draco = await writeQuad(KHRDracoMeshCompression, { 'draco3d.encoder': await draco3d.createEncoderModule() }, () => {});
+    assert(JSON.stringify(await readQuad(draco)) === JSON.stringify(expected), 'Draco triangles decoded');
+
+    await MeshoptEncoder.ready;
+    const meshopt = await writeQuad(EXTMeshoptCompression, { 'meshopt.encoder': MeshoptEncoder },
+      ext => ext.setEncoderOptions({ method: EXTMeshoptCompression.EncoderMethod.QUANTIZE }));
+    assert(JSON.stringify(await readQuad(meshopt)) === JSON.stringify(expected), 'Meshopt triangles decoded');
+
+    const plain = { json: { asset: { version: '2.0' } }, resources: {} };
+    assert(!(await prepareMeshDecoders(new WebIO(), plain, 0)), 'Uncompressed documents are left alone');
+  });
+
+  // [user-012] The scene option selects a scene by name or index, falling back to the default scene
+  await test('scene selection by name or index', async () => {
+    const { GltfModel } = await loadGltfModule('GltfModel');
+    const { Document } = require('@gltf-transform/core');
+    const doc = new Document();
+    doc.createScene('day');
+    const night = doc.createScene('night');
+    doc.createScene('0');
+    doc.getRoot().setDefaultScene(night);
+
+    const resolve = (scene, root = doc.getRoot()) => {
+      const model = Object.create(GltfModel.prototype);
+      model._options = { scene };
+      return GltfModel.prototype._resolveSceneIndex.call(model, root);
+    };
+
+    assert(resolve(undefined) === 1 && resolve('') === 1, 'Default scene when none is requested');
+    assert(resolve('day') === 0, 'By name');
+    assert(resolve(0) === 2, 'Names win over indices');
+    assert(resolve('1') === 1 && resolve(1) === 1, 'By index');
+    assert(resolve('dusk') === 1 && resolve(7) === 1, 'Unknown scene falls back to the default');
+    assert(resolve('day', new Document().getRoot()) === -1, 'No scenes');
+  });
+
+  // [user-013] Named nodes are moved, rotated (euler degrees, Rx * Ry * Rz) and reset at runtime
+  await test('node articulation edits local transforms and children follow', async () => {
+    const { GltfModel } = await loadGltfModule('GltfModel');
+    const { GltfNode, quatFromEulerDegrees } = await loadGltfModule('GltfNode');
+
+    const q = quatFromEulerDegrees(new Float32Array(4), 90, 0, 0);
+    assertArraysEqual(q, [Math.SQRT1_2, 0, 0, Math.SQRT1_2], 'Single-axis rotation');
+    // Rx * Ry * Rz = product of the single-axis quaternions in that order
+    const combined = quatFromEulerDegrees(new Float32Array(4), 90, 90, 0);
+    assertArraysEqual(combined, [0.5, 0.5, 0.5, 0.5], 'X applied after Y');
+
+    const door = new GltfNode('door', IDENTITY);
+    const handle = new GltfNode('handle', translation(1, 0, 0));
+    const hip = new GltfNode('hip', IDENTITY);
+    handle.parent = door;
+    door.children.push(handle);
+    hip.jointIndex = 0;
+
+    const model = Object.create(GltfModel.prototype);
+    model._nodesByName = new Map([['door', door], ['handle', handle], ['hip', hip]]);
+    model._meshes = [];
+    model._dynamicNodes = new Set();
+    model._tempTranslation = new Float32Array(3);
+    model._tempRotation = new Float32Array(4);
+    model._tempScale = new Float32Array(3);
+
+    assert(model.setNodeTranslation('door', 1, 2, 3), 'Translation set');
+    assert(model.setNodeRotation('door', 0, 90, 0), 'Rotation set');
+    assertArraysEqual(model.getNodeTranslation('door'), [1, 2, 3], 'Rotation keeps translation');
+    assertArraysEqual(model.getNodeRotation('door'), [0, 90, 0], 'Euler angles read back');
+    assertArraysEqual(handle.getWorldMatrix().subarray(12, 15), [1, 2, 2], 'Child follows the rotated parent');
+    assert(door.dynamic && door.overridden, 'Edited node is dynamic and overridden');
+
+    assert(!model.setNodeTranslation('hip', 0, 0, 0), 'Skeleton joints rejected');
+    assert(!model.setNodeScale('missing', 1, 1, 1), 'Unknown node rejected');
+
+    assert(model.resetNode('door'), 'Node reset');
+    assertArraysEqual(handle.getWorldMatrix().subarray(12, 15), [1, 0, 0], 'Reset restores the file transform');
+  });
+
+  // [user-014] Node hierarchy queries: parents, children and meshes per node
+  await test('node hierarchy lists children and attached meshes', async () => {
+    const { GltfModel } = await loadGltfModule('GltfModel');
+    const { GltfNode } = await loadGltfModule('GltfNode');
+    const car = new GltfNode('car', IDENTITY);
+    const wheelFront = new GltfNode('wheel_front', IDENTITY);
+    const wheelBack = new GltfNode('wheel_back', IDENTITY);
+    const driver = new GltfNode('driver', IDENTITY);
+    for (const wheel of [wheelFront, wheelBack]) {
+      wheel.parent = car;
+      car.children.push(wheel);
+    }
+    driver.jointIndex = 0;
+
+    const model = Object.create(GltfModel.prototype);
+    model._rootNodes = [car, driver];
+    model._nodesByName = new Map([car, wheelFront, wheelBack, driver].map(node => [node.name, node]));
+    model._meshes = [{ parentNode: car }, { parentNode: wheelFront }, { parentNode: car }, { parentNode: null }];
+
+    assert(model.getNodeParentName('wheel_back') === 'car', 'Parent name');
+    assert(model.getNodeParentName('car') === '', 'Root nodes have no parent');
+    assert(model.getNodeParentName('missing') === null, 'Unknown node');
+    assert(JSON.stringify(model.getNodeChildNames('car')) === JSON.stringify(['wheel_front', 'wheel_back']), 'Children in file order');
+
+    const hierarchy = model.getNodeHierarchy();
+    assert(JSON.stringify(hierarchy) === JSON.stringify([
+      {
+        name: 'car', meshes: [0, 2], jointIndex: -1, children: [
+          { name: 'wheel_front', meshes: [1], jointIndex: -1, children: [] },
+          { name: 'wheel_back', meshes: [], jointIndex: -1, children: [] }
+        ]
+      },
+      { name: 'driver', meshes: [], jointIndex: 0, children: [] }
+    ]), `Hierarchy with mesh indices, got ${JSON.stringify(hierarchy)}`);
+  });
+
+  // [user-015] Extras lookups by node, mesh (node name) and material name
+  await test('extras are looked up by node, mesh and material name', async () => {
+    const { GltfModel } = await loadGltfModule('GltfModel');
+    const { GltfNode } = await loadGltfModule('GltfNode');
+    const door = new GltfNode('door', IDENTITY);
+    door.extras = { locked: true, key: 'red' };
+
+    const model = Object.create(GltfModel.prototype);
+    model._nodesByName = new Map([['door', door]]);
+    model._meshes = [{ name: 'door', extras: { lod: 0 } }, { name: 'door', extras: { lod: 1 } }];
+    model._materialExtras = new Map([['metal', { surface: 'metal' }]]);
+
+    assert(model.getNodeExtras('door').key === 'red', 'Node extras');
+    assert(model.getMeshExtras('door').lod === 0, 'First mesh with the node name');
+    assert(model.getMaterialExtras('metal').surface === 'metal', 'Material extras');
+    assert(model.getNodeExtras('window') === null && model.getMeshExtras('window') === null && model.getMaterialExtras('glass') === null,
+      'Missing names return null');
+  });
+
+  // [user-016] Node name patterns support * and ? wildcards and match whole names literally otherwise
+  await test('node name wildcard matching', async () => {
+    const { GltfModel } = await loadGltfModule('GltfModel');
+    const model = Object.create(GltfModel.prototype);
+    model._nodesByName = new Map(['spawn_enemy_1', 'spawn_enemy_12', 'spawn_item', 'door.left', 'doorXleft'].map(name => [name, {}]));
+
+    assert(JSON.stringify(model.findNodeNames('spawn_enemy_*')) === JSON.stringify(['spawn_enemy_1', 'spawn_enemy_12']), 'Star matches any run, in file order');
+    assert(JSON.stringify(model.findNodeNames('spawn_enemy_?')) === JSON.stringify(['spawn_enemy_1']), 'Question mark matches one character');
+    assert(JSON.stringify(model.findNodeNames('door.left')) === JSON.stringify(['door.left']), 'Regex characters are literal');
+    assert(model.findNodeNames('spawn').length === 0, 'Patterns match whole names');
+    assert(model.findNodeNames('').length === 0, 'Empty pattern matches nothing');
+  });
+
+  // [user-017] Colliders from rendered geometry or COL_ / UCX_ nodes, counted without building them
+  await test('colliders are grouped by source and counted without building', async () => {
+    const { GltfModel } = await loadGltfModule('GltfModel');
+    const { GltfNode } = await loadGltfModule('GltfNode');
+    const body = new GltfNode('Body', IDENTITY);
+    const wall = new GltfNode('COL_wall', IDENTITY);
+    const crate = new GltfNode('UCX_crate', IDENTITY);
+    const lid = new GltfNode('lid', IDENTITY);
+    lid.parent = crate;
+    crate.children.push(lid);
+    const mesh = (name, parentNode, positions, indices) => ({
+      name,
+      parentNode,
+      originalPositions: new Float32Array(positions),
+      indices: indices ? new Uint16Array(indices) : null,
+      usesRuntimeTransform: false
+    });
+    const triangle = [0, 0, 0, 1, 0, 0, 0, 1, 0];
+
+    const model = Object.create(GltfModel.prototype);
+    model._meshes = [
+      mesh('body', body, triangle, [0, 1, 2]),
+      mesh('arm', body, triangle, [0, 2, 1]),
+      mesh('points', body, triangle, null),
+      mesh('wall', wall, triangle, [0, 1, 2]),
+      mesh('crate', crate, triangle, null),
+      mesh('lid', lid, [0, 0, 0, 0, 0, 1], null)
+    ];
+
+    assert(JSON.stringify(model.getCollisionNodeNames()) === JSON.stringify(['COL_wall', 'UCX_crate']), 'Collision nodes in file order');
+
+    // auto picks collision nodes; descendants join their collision node, convex points are deduplicated
+    const auto = model.getColliders();
+    assert(auto.map(c => `${c.type}:${c.node}`).join() === 'trimesh:COL_wall,convex:UCX_crate', 'One shape per collision node');
+    assert(auto[1].vertices.length === 4 * 3 && auto[1].indices === null, 'Convex hull of unique points');
+
+    const trimesh = model.getColliders('trimesh');
+    assert(trimesh.length === 1, 'One merged trimesh of rendered meshes');
+    assertArraysEqual(trimesh[0].indices, [0, 1, 2, 3, 5, 4], 'Indices offset per mesh, indexless meshes skipped');
+
+    for (const source of ['auto', 'trimesh', 'convex-mesh', 'convex-node', 'collision-nodes']) {
+      assert(model.getColliderCount(source) === model.getColliders(source).length, `Count matches shapes for ${source}`);
+    }
+    assert(model.getColliderCount('convex-mesh') === 3 && model.getColliderCount('convex-node') === 1, 'Convex groupings');
+  });
+
+  // [user-018] Pose bounds follow the highest-weight joint of skinned vertices
+  await test('pose bounds follow animated joints', async () => {
+    const { GltfModel } = await loadGltfModule('GltfModel');
+    const model = Object.create(GltfModel.prototype);
+    model._isLoaded = true;
+    model._boundingBoxMin = new Float32Array(3);
+    model._boundingBoxMax = new Float32Array(3);
+    model._restBoundingBoxMin = new Float32Array([-1, 0, 0]);
+    model._restBoundingBoxMax = new Float32Array([1, 2, 0]);
+    model._skeleton = { joints: [{}, {}], skinJointMaps: [new Uint16Array([0, 1])] };
+    const inverseBindMatrices = new Float32Array(32);
+    inverseBindMatrices.set(IDENTITY, 0);
+    inverseBindMatrices.set(translation(0, -1, 0), 16);
+    model._skins = [{ inverseBindMatrices }];
+    model._meshes = [
+      { originalPositions: new Float32Array([-1, 0, 0, 1, 0, 0]), isSkinned: false, usesRuntimeTransform: false },
+      {
+        // Both vertices mostly weighted to the arm joint (index 1)
+        originalPositions: new Float32Array([0, 1, 0, 0, 2, 0]),
+        isSkinned: true,
+        skinningData: {
+          skinIndex: 0,
+          joints: new Uint16Array([0, 1, 0, 0, 0, 1, 0, 0]),
+          weights: new Float32Array([0.25, 0.75, 0, 0, 0.1, 0.9, 0, 0])
+        }
+      }
+    ];
+
+    model.updatePoseBounds(null);
+    assertArraysEqual(model._boundingBoxMin, [-1, 0, 0], 'Bind pose min');
+    assertArraysEqual(model._boundingBoxMax, [1, 2, 0], 'Bind pose max');
+
+    // Move the arm joint to (3, 1, 0): its vertices span y 1..2 at x = 3
+    const clip = createClip('reach', 1, 'translation', 'STEP', [0, 1], [3, 1, 0, 3, 1, 0]);
+    const controller = await createController([{ name: 'root' }, { name: 'arm', parent: 0, offset: [0, 1, 0] }], [clip]);
+    controller.play('reach');
+    controller.update(0.5);
+    model.updatePoseBounds(controller);
+    assertArraysEqual(model._boundingBoxMin, [-1, 0, 0], 'Posed min keeps static geometry');
+    assertArraysEqual(model._boundingBoxMax, [3, 2, 0], 'Posed max follows the arm joint');
+
+    model.resetPoseBounds();
+    assertArraysEqual(model._boundingBoxMax, [1, 2, 0], 'Reset restores the load-time box');
+  });
+
+  // [user-019] Mesh BVH: build over many triangles, raycast closest hit, refit moved vertices
+  await test('mesh BVH raycast finds the closest triangle and follows refits', async () => {
+    const { buildMeshBvh, refitMeshBvh, raycastMeshBvh } = await loadGltfModule('MeshBvh');
+
+    // 20 separate triangles along x, in the z = 0 plane
+    const count = 20;
+    const positions = new Float32Array(count * 9);
+    const indices = new Uint16Array(count * 3);
+    for (let k = 0; k < count; k++) {
+      positions.set([k, 0, 0, k + 0.8, 0, 0, k, 1, 0], k * 9);
+      indices.set([k * 3, k * 3 + 1, k * 3 + 2], k * 3);
+    }
+
+    const bvh = buildMeshBvh(positions, indices);
+    assert(bvh.nodeCount > 1, 'Tree split into several nodes');
+    assert(bvh.triangles.length === count, 'Every triangle in exactly one leaf');
+
+    for (const k of [0, 7, 13, 19]) {
+      const hit = raycastMeshBvh(bvh, bvh.bounds, positions, indices, [k + 0.2, 0.2, 5], [0, 0, -1]);
+      assert(hit && hit.triangle === k, `Ray above triangle ${k} hits it`);
+      assertArraysEqual([hit.t], [5], 'Hit distance');
+    }
+
+    const backFace = raycastMeshBvh(bvh, bvh.bounds, positions, indices, [3.2, 0.2, -5], [0, 0, 1]);
+    assert(backFace && backFace.triangle === 3, 'Back faces are hit');
+    assert(raycastMeshBvh(bvh, bvh.bounds, positions, indices, [3.9, 0.2, 5], [0, 0, -1]) === null, 'Ray between triangles misses');
+    assert(raycastMeshBvh(bvh, bvh.bounds, positions, indices, [3.2, 0.2, 5], [0, 0, -1], 4) === null, 'Hits beyond maxT ignored');
+
+    // Move triangle 5 down to z = -2; the shared tree needs refitted bounds to find it
+    const moved = new Float32Array(positions);
+    for (let v = 0; v < 3; v++) moved[5 * 9 + v * 3 + 2] = -2;
+    const refitted = new Float32Array(bvh.bounds.length);
+    refitMeshBvh(bvh, moved, indices, refitted);
+    assertArraysEqual(refitted.subarray(0, 6), [0, 0, -2, 19.8, 1, 0], 'Root bounds enclose moved vertices');
+
+    const movedHit = raycastMeshBvh(bvh, refitted, moved, indices, [5.2, 0.2, 5], [0, 0, -1]);
+    assert(movedHit && movedHit.triangle === 5, 'Moved triangle hit');
+    assertArraysEqual([movedHit.t], [7], 'Hit distance after refit');
+  });
+
+  // [user-020] Attachment points follow moved nodes; static nodes use the load-time transform
+  await test('node world matrices for attachments follow dynamic nodes', async () => {
+    const { GltfModel } = await loadGltfModule('GltfModel');
+    const { GltfNode } = await loadGltfModule('GltfNode');
+    const turret = new GltfNode('turret', IDENTITY);
+    const muzzle = new GltfNode('muzzle', translation(0, 0, 2));
+    muzzle.parent = turret;
+    turret.children.push(muzzle);
+
+    const model = Object.create(GltfModel.prototype);
+    model._nodesByName = new Map([['turret', turret], ['muzzle', muzzle]]);
+    model._nodeTransforms = new Map([['turret', IDENTITY], ['muzzle', translation(0, 0, 2)]]);
+    model._animatedNodes = new Set();
+    model._dynamicNodes = new Set();
+    model._meshes = [];
+    model._tempTranslation = new Float32Array(3);
+    model._tempRotation = new Float32Array(4);
+    model._tempScale = new Float32Array(3);
+
+    assertArraysEqual(model.getNodeWorldMatrix('muzzle').subarray(12, 15), [0, 0, 2], 'Load-time transform');
+    assert(model.getNodeWorldMatrix('missing') === null, 'Unknown node');
+
+    model.setNodeTranslation('turret', 5, 0, 0);
+    assertArraysEqual(model.getNodeWorldMatrix('muzzle').subarray(12, 15), [5, 0, 2], 'Follows the moved parent');
+  });
+
+  // [user-021] Bone overrides replace, add to or blend with the animated pose; look-at aims a joint axis
+  await test('bone overrides replace, add and blend', async () => {
+    const joints = [{ name: 'root' }, { name: 'head', parent: 0, offset: [0, 1, 0] }];
+    const controller = await createController(joints);
+
+    assert(!controller.setBoneOverride('missing', 'translation', [0, 0, 0]), 'Unknown joint rejected');
+
+    controller.setBoneOverride('head', 'translation', [2, 0, 0]);
+    controller.update(0);
+    assertArraysEqual(jointPosition(controller, 1), [2, 0, 0], 'Override replaces the bind translation');
+
+    controller.setBoneOverride('head', 'translation', [2, 0, 0], true);
+    controller.update(0);
+    assertArraysEqual(jointPosition(controller, 1), [2, 1, 0], 'Additive override adds to it');
+
+    controller.setBoneOverride('head', 'translation', [2, 0, 0], false, 0.5);
+    controller.update(0);
+    assertArraysEqual(jointPosition(controller, 1), [1, 0.5, 0], 'Weight blends from the animated pose');
+
+    controller.clearBoneOverride('head');
+    assert(!controller.hasPoseModifiers(), 'No modifiers after clearing');
+    controller.update(0);
+    assertArraysEqual(jointPosition(controller, 1), [0, 1, 0], 'Cleared override restores the pose');
+  });
+
+  await test('look-at rotates the joint axis toward the target', async () => {
+    const joints = [
+      { name: 'root' },
+      { name: 'head', parent: 0, offset: [0, 1, 0] },
+      { name: 'nose', parent: 1, offset: [0, 0, 1] }
+    ];
+    const controller = await createController(joints);
+
+    // Head's +Z axis (toward the nose) turns to face +X
+    assert(controller.setLookAt('head', [5, 1, 0]), 'Look-at created');
+    controller.update(0);
+    assertArraysEqual(jointPosition(controller, 2), [1, 1, 0], 'Nose points at the target');
+
+    controller.setLookAtWeight('head', 0);
+    controller.update(0);
+    assertArraysEqual(jointPosition(controller, 2), [0, 1, 1], 'Zero weight keeps the animated pose');
+
+    // maxAngle limits the turn
+    controller.setLookAt('head', [5, 1, 0], { weight: 1, maxAngle: 45 });
+    controller.update(0);
+    assertArraysEqual(jointPosition(controller, 2), [Math.SQRT1_2, 1, Math.SQRT1_2], 'Turn clamped to 45 degrees');
+  });
+
+  // [user-022] Two-bone IK reaches targets, keeps bone lengths and bends toward the pole
+  await test('two-bone IK reaches the target and keeps bone lengths', async () => {
+    const joints = [
+      { name: 'thigh' },
+      { name: 'shin', parent: 0, offset: [0, -1, 0] },
+      { name: 'foot', parent: 1, offset: [0, -1, 0] }
+    ];
+    const controller = await createController(joints);
+    const distance = (a, b) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+    assert(!controller.setIkChain('leg', 'thigh', 'missing', 'foot'), 'Unknown joint rejected');
+    assert(controller.setIkChain('leg', 'thigh', 'shin', 'foot'), 'Chain created');
+    controller.setIkPole('leg', [0, -1, 5]);
+    controller.setIkTarget('leg', [0, -1.5, 0]);
+    controller.update(0);
+
+    const knee = jointPosition(controller, 1);
+    const foot = jointPosition(controller, 2);
+    assertArraysEqual(foot, [0, -1.5, 0], 'End effector on the target');
+    assertArraysEqual([distance(knee, [0, 0, 0]), distance(foot, knee)], [1, 1], 'Bone lengths preserved');
+    assert(knee[2] > 0.5, 'Knee bends toward the pole');
+
+    // Out of reach: fully extended toward the target
+    controller.setIkTarget('leg', [0, -5, 0]);
+    controller.update(0);
+    // (the solver stops 1e-4 of the chain length short of straight)
+    const stretched = jointPosition(controller, 2);
+    assert(Math.abs(stretched[0]) < 1e-3 && Math.abs(stretched[1] + 2) < 1e-3 && Math.abs(stretched[2]) < 1e-3,
+      `Unreachable target stretches the chain, got [${Array.from(stretched).join(', ')}]`);
+
+    controller.setIkTarget('leg', [0, -1.5, 0]);
+    controller.setIkWeight('leg', 0);
+    controller.update(0);
+    assertArraysEqual(jointPosition(controller, 2), [0, -2, 0], 'Zero weight keeps the animated pose');
+
+    controller.setIkWeight('leg', 1);
+    controller.setIkEnabled('leg', false);
+    assert(!controller.isIkEnabled('leg') && !controller.hasPoseModifiers(), 'Disabled chain is not a modifier');
+  });
+
+  // [user-023] Layers replace the pose of their masked joints only, blended by the layer weight
+  await test('animation layers respect bone masks and weights', async () => {
+    const joints = [
+      { name: 'root' },
+      { name: 'spine', parent: 0, offset: [0, 1, 0] },
+      { name: 'arm', parent: 1, offset: [1, 0, 0] },
+      { name: 'leg', parent: 0, offset: [0, -1, 0] }
+    ];
+    const walk = createClip('walk', 2, 'translation', 'STEP', [0, 1], [2, 0, 0, 2, 0, 0]);
+    const wave = {
+      name: 'wave',
+      duration: 1,
+      samplers: [
+        { input: new Float32Array([0, 1]), output: new Float32Array([0, 4, 0, 0, 4, 0]), interpolation: 'STEP' },
+        { input: new Float32Array([0, 1]), output: new Float32Array([0, -3, 0, 0, -3, 0]), interpolation: 'STEP' }
+      ],
+      channels: [
+        { targetJointIndex: 2, targetNode: null, targetPath: 'translation', samplerIndex: 0 },
+        { targetJointIndex: 3, targetNode: null, targetPath: 'translation', samplerIndex: 1 }
+      ],
+      events: []
+    };
+    const controller = await createController(joints, [walk, wave]);
+    controller.play('walk');
+
+    // Unmasked layer replaces every joint it animates
+    assert(controller.playLayer('upper', 'wave'), 'Layer created on first use');
+    controller.update(0.1);
+    assertArraysEqual(jointPosition(controller, 2), [0, 5, 0], 'Layer pose on the arm');
+    assertArraysEqual(jointPosition(controller, 3), [0, -3, 0], 'Layer pose on the leg');
+
+    // Subtree mask: the leg goes back to the base pose
+    controller.setLayerMask('upper', { rootBone: 'spine' });
+    controller.update(0.1);
+    assertArraysEqual(jointPosition(controller, 2), [0, 5, 0], 'Masked-in arm follows the layer');
+    assertArraysEqual(jointPosition(controller, 3), [0, -1, 0], 'Masked-out leg keeps the base pose');
+
+    // Explicit bones, half weight
+    controller.setLayerMask('upper', { bones: ['leg'] });
+    controller.setLayerWeight('upper', 0.5);
+    controller.update(0.1);
+    assertArraysEqual(jointPosition(controller, 2), [2, 1, 0], 'Arm not in the mask keeps the base clip');
+    assertArraysEqual(jointPosition(controller, 3), [0, -2, 0], 'Half weight blends the leg');
+
+    controller.stopLayer('upper');
+    controller.update(0.1);
+    assert(!controller.isLayerPlaying('upper'), 'Layer stopped');
+    assertArraysEqual(jointPosition(controller, 3), [0, -1, 0], 'Stopped layer no longer applies');
+  });
+
+  // [user-024] Additive clips add their offset from the reference pose on top of the pose underneath
+  await test('additive clips add weighted offsets from the reference pose', async () => {
+    const joints = [{ name: 'root' }, { name: 'arm', parent: 0, offset: [1, 0, 0] }];
+    const walk = createClip('walk', 1, 'translation', 'STEP', [0, 1], [2, 0, 0, 2, 0, 0]);
+    const recoil = createClip('recoil', 1, 'translation', 'LINEAR', [0, 1], [1, 1, 0, 1, 3, 0]);
+    const controller = await createController(joints, [walk, recoil]);
+    controller.play('walk');
+
+    assert(!controller.playAdditive('missing'), 'Unknown clip rejected');
+
+    // First-frame reference: offset at t = 0.5 is (1, 2, 0) - (1, 1, 0)
+    controller.playAdditive('recoil', { loop: false });
+    controller.update(0.5);
+    assertArraysEqual(jointPosition(controller, 1), [2, 1, 0], 'First-frame offset added to the base clip');
+
+    // Bind-pose reference: offset is measured from the joint rest pose (1, 0, 0)
+    assert(controller.setAnimationAdditive('recoil', 'bind-pose'), 'Clip marked additive');
+    assert(controller.getAnimationAdditive('recoil') === 'bind-pose', 'Reference stored');
+    controller.playAdditive('recoil', { loop: false, weight: 0.5 });
+    controller.update(0.5);
+    assertArraysEqual(jointPosition(controller, 1), [2, 1, 0], 'Half of the bind-pose offset');
+    assertArraysEqual([controller.getAdditiveWeight('recoil')], [0.5], 'Weight reported');
+
+    // One-shot clips are removed once they finish
+    controller.update(1);
+    assert(!controller.isAdditivePlaying('recoil'), 'Finished one-shot removed');
+    controller.update(0.1);
+    assertArraysEqual(jointPosition(controller, 1), [2, 0, 0], 'Base pose after the additive ends');
+  });
+
+  // [user-025] Animation events fire once per pass, across loops, frame skips and reverse playback
+  await test('animation events read from either extras form', async () => {
+    const { readAnimationEvents } = await loadGltfModule('GltfModel');
+    const fromList = readAnimationEvents({ events: [{ name: 'hit', time: 0.5 }, { name: 'step', time: 0.1 }, { name: 7, time: 1 }] });
+    assert(JSON.stringify(fromList) === JSON.stringify([{ name: 'step', time: 0.1 }, { name: 'hit', time: 0.5 }]), 'List form sorted, invalid entries skipped');
+    const fromMap = readAnimationEvents({ events: { step: [0.75, 0.25], hit: 0.5 } });
+    assert(JSON.stringify(fromMap.map(e => e.name + '@' + e.time)) === JSON.stringify(['step@0.25', 'hit@0.5', 'step@0.75']), 'Map form flattened and sorted');
+    assert(readAnimationEvents(undefined).length === 0, 'No extras, no events');
+  });
+
+  await test('animation events fire once per loop on large steps', async () => {
+    const { controller, fired } = await createEventController();
+    controller.play('run');
+    controller.update(2.5);
+    assert(fired.join() === 'run:start,run:step,run:land,run:start,run:step,run:land,run:start,run:step',
+      `Every pass fires in order, got ${fired.join()}`);
+    assertArraysEqual([controller.getTime()], [0.5], 'Time wrapped');
+
+    fired.length = 0;
+    controller.update(0.1);
+    assert(fired.length === 0, 'No events between keys');
+  });
+
+  await test('animation events fire in reverse and at the end of one-shot clips', async () => {
+    const { controller, fired } = await createEventController();
+    controller.play('run', 0.5);
+    controller.playbackRate = -1;
+    controller.update(1);
+    assert(fired.join() === 'run:step,run:start,run:land', `Reverse order across the wrap, got ${fired.join()}`);
+
+    const oneShot = await createEventController();
+    oneShot.controller.addAnimationEvent('run', 'end', 1);
+    oneShot.controller.loop = false;
+    let completed = 0;
+    oneShot.controller.onComplete = () => completed++;
+    oneShot.controller.play('run', 0.5);
+    oneShot.controller.update(2);
+    assert(oneShot.fired.join() === 'run:land,run:end', `One-shot fires its last frame once, got ${oneShot.fired.join()}`);
+    assert(completed === 1, 'OnComplete after the events');
+  });
+
+  await test('animation events stop when a handler changes playback', async () => {
+    const { controller, fired } = await createEventController();
+    controller.onEvent = (name, clip) => {
+      fired.push(`${clip}:${name}`);
+      if (name === 'step') controller.play('idle', 0.1);
+    };
+    controller.play('run');
+    controller.update(2.5);
+    assert(fired.join() === 'run:start,run:step', `Remaining events skipped, got ${fired.join()}`);
+    assert(controller.getCurrentAnimation() === 'idle', 'Handler playback kept');
+    assertArraysEqual([controller.getTime()], [0.1], 'New clip not advanced by the old step');
+  });
+
   // Cleanup
   await worker.terminate();
 